@@ -0,0 +1,68 @@
+// scripts/migrate.ts
+
+import { neo4jClient } from '../src/lib/graph/neo4j-client';
+import { migrationRunner } from '../src/lib/graph/migrations';
+
+const USAGE = 'Usage: ts-node scripts/migrate.ts [up|status] [--dry-run]';
+
+async function up(dryRun: boolean) {
+  const applied = await migrationRunner.up({ dryRun });
+
+  if (applied.length === 0) {
+    console.log('Schema is up to date; no migrations to apply.');
+    return;
+  }
+
+  for (const migration of applied) {
+    console.log(`${dryRun ? 'Would apply' : '✓ Applied'} ${migration.version} ${migration.name}`);
+    if (dryRun) {
+      migration.statements.forEach(statement => console.log(`    ${statement}`));
+    }
+  }
+  console.log(`\n${applied.length} migration(s) ${dryRun ? 'pending (dry run, nothing changed)' : 'applied'}`);
+}
+
+async function status() {
+  const statuses = await migrationRunner.status();
+
+  for (const migration of statuses) {
+    const appliedAt = migration.appliedAt ? ` (applied ${migration.appliedAt})` : '';
+    console.log(`${migration.state.padEnd(8)} ${migration.version} ${migration.name}${appliedAt}`);
+  }
+
+  const modified = statuses.filter(migration => migration.state === 'modified');
+  if (modified.length > 0) {
+    console.log('\nModified migrations were edited after being applied; add a new migration instead.');
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find(arg => !arg.startsWith('--')) || 'up';
+  const dryRun = args.includes('--dry-run');
+
+  if (command !== 'up' && command !== 'status') {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    await neo4jClient.connect();
+
+    if (command === 'status') {
+      await status();
+    } else {
+      await up(dryRun);
+    }
+
+    await neo4jClient.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
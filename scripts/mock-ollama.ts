@@ -0,0 +1,28 @@
+// scripts/mock-ollama.ts
+
+import { startMockOllamaServer } from '../src/lib/llm/mock-ollama-server';
+
+async function runMockServer() {
+  const port = Number(process.env.MOCK_OLLAMA_PORT) || 11435;
+  const models = process.env.MOCK_OLLAMA_MODELS?.split(',');
+
+  try {
+    const server = await startMockOllamaServer({ port, models });
+    console.log(`✓ Mock Ollama server listening on ${server.url}`);
+    console.log(`  Point the app at it with OLLAMA_BASE_URL=${server.url}`);
+
+    process.on('SIGINT', async () => {
+      await server.close();
+      console.log('\nMock Ollama server stopped');
+      process.exit(0);
+    });
+  } catch (error) {
+    console.error('Failed to start mock Ollama server:', error);
+    process.exit(1);
+  }
+}
+
+// Run server
+if (require.main === module) {
+  runMockServer();
+}
@@ -0,0 +1,36 @@
+// scripts/purge-llm-cache.ts
+
+import { neo4jClient } from '../src/lib/graph/neo4j-client';
+import { llmCache } from '../src/lib/llm/cache';
+
+async function purgeCache() {
+  const expiredOnly = process.argv.includes('--expired');
+  const usesNeo4j = process.env.LLM_CACHE_STORE === 'neo4j';
+
+  if (!llmCache) {
+    console.log('LLM cache is disabled (LLM_CACHE_STORE=none), nothing to purge');
+    process.exit(0);
+  }
+
+  try {
+    if (usesNeo4j) {
+      await neo4jClient.connect();
+    }
+
+    const removed = await llmCache.purge({ expiredOnly });
+    console.log(`✓ Removed ${removed} ${expiredOnly ? 'expired ' : ''}LLM cache entries`);
+
+    if (usesNeo4j) {
+      await neo4jClient.close();
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error('LLM cache purge failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run purge
+if (require.main === module) {
+  purgeCache();
+}
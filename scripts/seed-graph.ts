@@ -0,0 +1,48 @@
+// scripts/seed-graph.ts
+
+import * as path from 'path';
+import { neo4jClient } from '../src/lib/graph/neo4j-client';
+import { loadSeedData, SeedChange, seedGraph } from '../src/lib/graph/seed';
+
+const SEED_DIR = path.join(__dirname, '..', 'data', 'seed');
+
+function printChanges(changes: SeedChange[]) {
+  if (changes.length === 0) {
+    console.log('Graph already matches the seed data; nothing changed.');
+    return;
+  }
+
+  const symbols = { created: '+', updated: '~', removed: '-' };
+  for (const change of changes) {
+    const fields = change.fields ? ` (${change.fields.join(', ')})` : '';
+    console.log(`${symbols[change.action]} ${change.target}${fields}`);
+  }
+
+  const count = (action: SeedChange['action']) => changes.filter(change => change.action === action).length;
+  console.log(`\n${count('created')} created, ${count('updated')} updated, ${count('removed')} removed`);
+}
+
+async function main() {
+  console.log('Seeding Neo4j from data/seed...');
+
+  try {
+    const data = loadSeedData(SEED_DIR);
+    console.log(
+      `✓ Seed data valid: ${data.stages.length} stages, ${data.frameworks.length} frameworks, `
+      + `${data.questions.length} questions`
+    );
+
+    await neo4jClient.connect();
+    printChanges(await seedGraph(data, neo4jClient));
+
+    await neo4jClient.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Seeding failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
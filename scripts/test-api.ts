@@ -0,0 +1,95 @@
+// scripts/test-api.ts
+
+import { ErrorCode } from '../src/lib/types';
+import { createLLMError } from '../src/lib/llm/provider';
+import { handleApiError } from '../src/lib/utils/error-handlers';
+
+/**
+ * Checks for the shared API helpers in src/lib/utils/error-handlers.ts.
+ * Needs neither Neo4j nor a model; console output from the helpers is silenced.
+ */
+
+type Check = () => Promise<void>;
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function expectErrorResponse(
+  error: unknown,
+  status: number,
+  code: ErrorCode,
+  message?: string
+): Promise<void> {
+  const response = handleApiError(error, 'Test request');
+  const body = await response.json();
+  expect(response.status === status, `expected status ${status}, got ${response.status}`);
+  expect(body.success === false, 'response is not marked as failed');
+  expect(body.error?.code === code, `expected ${code}, got ${body.error?.code}`);
+  if (message !== undefined) {
+    expect(body.error?.message === message, `expected message "${message}", got "${body.error?.message}"`);
+  }
+}
+
+const checks: Record<string, Check> = {
+  'maps LLM timeouts to 504': () =>
+    expectErrorResponse(createLLMError('TIMEOUT', 'Ollama timed out'), 504, ErrorCode.LLM_TIMEOUT, 'Ollama timed out'),
+
+  'maps LLM connection failures and rate limits to 503': async () => {
+    await expectErrorResponse(createLLMError('CONNECTION_ERROR', 'down'), 503, ErrorCode.LLM_CONNECTION_ERROR);
+    await expectErrorResponse(createLLMError('RATE_LIMIT', 'slow down'), 503, ErrorCode.LLM_CONNECTION_ERROR);
+  },
+
+  'maps missing models and invalid responses to 502': async () => {
+    await expectErrorResponse(createLLMError('MODEL_NOT_FOUND', 'no model'), 502, ErrorCode.LLM_RESPONSE_ERROR);
+    await expectErrorResponse(createLLMError('INVALID_RESPONSE', 'bad JSON'), 502, ErrorCode.LLM_RESPONSE_ERROR);
+  },
+
+  'keeps LLM error details outside production': async () => {
+    const body = await handleApiError(createLLMError('INVALID_RESPONSE', 'bad', { raw: 'text' }), 'Test').json();
+    expect(body.error?.details?.raw === 'text', 'details were dropped');
+  },
+
+  'uses the status of application errors': () =>
+    expectErrorResponse({ code: ErrorCode.SESSION_NOT_FOUND, message: 'gone' }, 404, ErrorCode.SESSION_NOT_FOUND, 'gone'),
+
+  'hides the message of unexpected errors': () =>
+    expectErrorResponse(new Error('secret internals'), 500, ErrorCode.INTERNAL_ERROR, 'Test request failed'),
+};
+
+async function main() {
+  let failures = 0;
+  const { error: logError, warn } = console;
+  console.log('API helpers');
+
+  for (const [label, check] of Object.entries(checks)) {
+    console.error = () => undefined;
+    console.warn = () => undefined;
+    try {
+      await check();
+      console.log(`  ✓ ${label}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${label}: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+    } finally {
+      console.error = logError;
+      console.warn = warn;
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} API check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll API checks passed');
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('API checks failed:', error);
+    process.exit(1);
+  });
+}
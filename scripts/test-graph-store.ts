@@ -0,0 +1,336 @@
+// scripts/test-graph-store.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode, NodeRef, NodeType, Path } from '../src/lib/types';
+import { GraphStore } from '../src/lib/graph/graph-store';
+import { MemoryGraphStore } from '../src/lib/graph/memory-store';
+import { neo4jClient } from '../src/lib/graph/neo4j-client';
+import { nodeQuery } from '../src/lib/graph/query-builder';
+
+/**
+ * Conformance checks every GraphStore implementation must pass.
+ *
+ * Runs against the in-memory store, and also against Neo4j with --neo4j.
+ * Every node created uses an id and userId unique to the run, so the checks
+ * can share a database with real data, and everything is deleted afterwards.
+ */
+
+interface Fixture {
+  store: GraphStore;
+  run: string; // Unique per run; used as userId and as the id prefix
+  id: (name: string) => string;
+  question: (name: string, properties?: Record<string, unknown>) => Promise<NodeRef>;
+  answer: (name: string, properties?: Record<string, unknown>) => Promise<NodeRef>;
+}
+
+type Check = (fixture: Fixture) => Promise<void>;
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function expectError(work: () => Promise<unknown>, code: ErrorCode): Promise<void> {
+  try {
+    await work();
+  } catch (error) {
+    const actual = (error as { code?: string }).code;
+    expect(actual === code, `expected ${code}, got ${actual}`);
+    return;
+  }
+  throw new Error(`expected ${code}, but nothing was thrown`);
+}
+
+function describePaths(paths: Path[]): string[] {
+  return paths
+    .map(path => path.nodes.map(node => node.id.split('-').pop()).join('>'))
+    .sort();
+}
+
+const checks: Record<string, Check> = {
+  'creates and reads back nodes with plain values': async ({ store, id, question }) => {
+    await question('q1', { stage: 2, context: ['a', 'b'] });
+    const node = await store.findNodeById('Question', id('q1'));
+    expect(node?.id === id('q1'), 'node not found by id');
+    expect(node?.properties.stage === 2, `stage came back as ${JSON.stringify(node?.properties.stage)}`);
+    expect(JSON.stringify(node?.properties.context) === '["a","b"]', 'list property changed');
+    expect(node?.labels.includes('Question') === true, 'label missing');
+  },
+
+  'scopes lookups by label': async ({ store, id, question }) => {
+    await question('q1');
+    expect(await store.findNodeById('Answer', id('q1')) === null, 'found a Question under the Answer label');
+    expect(await store.findNodeById('Question', id('missing')) === null, 'found a node that does not exist');
+  },
+
+  'rejects duplicate ids': async ({ store, id, question }) => {
+    await question('q1');
+    await expectError(() => store.createNode(['Question'], { id: id('q1'), text: 'again' }), ErrorCode.DB_QUERY_ERROR);
+  },
+
+  'does not store null properties': async ({ store, id, question }) => {
+    await question('q1', { generatedForUser: null });
+    const node = await store.findNodeById('Question', id('q1'));
+    expect(!('generatedForUser' in (node?.properties || {})), 'null property was stored');
+  },
+
+  'filters, orders and pages': async ({ store, run, answer }) => {
+    await answer('a1', { timestamp: '2026-01-01T00:00:00.000Z' });
+    await answer('a2', { timestamp: '2026-02-01T00:00:00.000Z' });
+    await answer('a3', { timestamp: '2026-03-01T00:00:00.000Z' });
+    await answer('a4', { timestamp: '2026-04-01T00:00:00.000Z', text: 'different' });
+
+    const equal = await store.findNodes('Answer', { userId: run, text: 'answer' });
+    expect(equal.length === 3, `equality found ${equal.length}`);
+
+    const page = await store.select(nodeQuery('Answer')
+      .where('userId', 'eq', run)
+      .where('timestamp', 'gte', '2026-02-01T00:00:00.000Z')
+      .orderBy('timestamp', 'DESC')
+      .skip(1)
+      .limit(2));
+    const ids = page.map(node => node.id.split('-').pop()).join(',');
+    expect(ids === 'a3,a2', `range/order/page gave ${ids}`);
+
+    const listed = await store.select(nodeQuery('Answer').where('userId', 'eq', run).where('id', 'in', [page[0].id]));
+    expect(listed.length === 1, `in found ${listed.length}`);
+
+    const mismatched = await store.select(nodeQuery('Answer').where('userId', 'eq', run).where('timestamp', 'gt', 5));
+    expect(mismatched.length === 0, 'comparing a string property with a number matched');
+
+    const prefixed = await store.select(nodeQuery('Answer').where('userId', 'eq', run).where('text', 'startsWith', 'diff'));
+    expect(prefixed.length === 1, `startsWith found ${prefixed.length}`);
+  },
+
+  'sorts missing values last': async ({ store, run, answer }) => {
+    await answer('a1', { logicalForm: 'b' });
+    await answer('a2');
+    await answer('a3', { logicalForm: 'a' });
+    const sorted = await store.select(nodeQuery('Answer').where('userId', 'eq', run).orderBy('logicalForm'));
+    const ids = sorted.map(node => node.id.split('-').pop()).join(',');
+    expect(ids === 'a3,a1,a2', `ascending order was ${ids}`);
+  },
+
+  'updates by merging and removes null properties': async ({ store, id, answer }) => {
+    await answer('a1', { logicalForm: 'p' });
+    const updated = await store.updateNode('Answer', id('a1'), { text: 'changed', logicalForm: null });
+    expect(updated.properties.text === 'changed', 'property not updated');
+    expect(updated.properties.userId !== undefined, 'untouched property lost');
+    expect(!('logicalForm' in updated.properties), 'null did not remove the property');
+    await expectError(() => store.updateNode('Answer', id('missing'), { text: 'x' }), ErrorCode.DB_QUERY_ERROR);
+  },
+
+  'creates relationships between existing nodes only': async ({ store, id, question, answer }) => {
+    const q = await question('q1');
+    const a = await answer('a1');
+    const relationship = await store.createRelationship(a, q, 'ANSWERS', { createdAt: 'now' });
+    expect(relationship.start === id('a1') && relationship.end === id('q1'), 'relationship ends are not app ids');
+    expect(relationship.type === 'ANSWERS', `type was ${relationship.type}`);
+    await expectError(
+      () => store.createRelationship(a, { label: 'Question', id: id('missing') }, 'ANSWERS'),
+      ErrorCode.DB_QUERY_ERROR
+    );
+  },
+
+  'creates relationships in batches, skipping missing nodes': async ({ store, id, question, answer }) => {
+    await question('q1');
+    await answer('a1');
+    await answer('a2');
+    const created = await store.createRelationships('PRECEDES', 'Answer', 'Question', [
+      { start: id('a1'), end: id('q1'), properties: { weight: 0.5, influenceType: 'direct' } },
+      { start: id('a2'), end: id('q1') },
+      { start: id('missing'), end: id('q1') },
+    ]);
+    expect(created === 2, `created ${created}`);
+  },
+
+  'traverses by direction, type, depth and end filters': async ({ store, id, question, answer }) => {
+    const q1 = await question('q1');
+    const q2 = await question('q2');
+    const a1 = await answer('a1');
+    const a2 = await answer('a2');
+    await store.createRelationship(a1, q1, 'ANSWERS');
+    await store.createRelationship(a1, q2, 'PRECEDES', { weight: 1, influenceType: 'direct' });
+    await store.createRelationship(a2, q2, 'ANSWERS');
+    await store.createRelationship(a2, a1, 'MODIFIES', { reason: 'r', timestamp: 't' });
+
+    const outgoing = describePaths(await store.traverse(a2, { maxDepth: 2 }));
+    expect(
+      JSON.stringify(outgoing) === JSON.stringify(['a2>a1', 'a2>a1>q1', 'a2>a1>q2', 'a2>q2']),
+      `outgoing paths were ${outgoing.join(' ')}`
+    );
+
+    const incoming = describePaths(await store.traverse(q2, { direction: 'incoming', maxDepth: 1 }));
+    expect(JSON.stringify(incoming) === JSON.stringify(['q2>a1', 'q2>a2']), `incoming paths were ${incoming.join(' ')}`);
+
+    const typed = describePaths(await store.traverse(a2, { relationshipTypes: ['ANSWERS'], maxDepth: 3 }));
+    expect(JSON.stringify(typed) === JSON.stringify(['a2>q2']), `typed paths were ${typed.join(' ')}`);
+
+    const filtered = describePaths(await store.traverse(q1, { direction: 'both', maxDepth: 3, filters: { id: id('a2') } }));
+    expect(JSON.stringify(filtered) === JSON.stringify(['q1>a1>a2', 'q1>a1>q2>a2']), `filtered paths were ${filtered.join(' ')}`);
+
+    const [path] = await store.traverse(q1, { direction: 'incoming', maxDepth: 1 });
+    expect(path.relationships[0].start === id('a1') && path.relationships[0].end === id('q1'),
+      'relationship in an incoming path lost its own direction');
+    expect(path.length === 1, `path length was ${path.length}`);
+
+    await expectError(() => store.traverse(q1, { maxDepth: 0 }), ErrorCode.INVALID_INPUT);
+  },
+
+  'finds and updates relationships by their ends and properties': async ({ store, run, id, question, answer }) => {
+    const q = await question('q1');
+    const a1 = await answer('a1');
+    const a2 = await answer('a2', { text: 'other' });
+    await store.createRelationship(a1, q, 'ANSWERS');
+    await store.createRelationship(a2, q, 'ANSWERS');
+    await store.createRelationship(a1, a2, 'CONTRADICTS', { id: id('c1'), resolved: false });
+
+    const mine = await store.findRelationships('ANSWERS', {
+      start: nodeQuery('Answer').where('userId', 'eq', run).where('text', 'eq', 'answer'),
+    });
+    expect(mine.length === 1 && mine[0].start === id('a1') && mine[0].end === id('q1'), 'start filter did not apply');
+
+    const byEnd = await store.findRelationships('ANSWERS', { end: nodeQuery('Question').where('id', 'eq', id('q1')) });
+    expect(byEnd.length === 2, `found ${byEnd.length} ANSWERS edges by their end`);
+    const wrongLabel = await store.findRelationships('ANSWERS', {
+      start: nodeQuery('Answer').where('userId', 'eq', run),
+      end: nodeQuery('Answer'),
+    });
+    expect(wrongLabel.length === 0, 'end label did not apply');
+
+    const open = { start: nodeQuery('Answer').where('id', 'eq', id('a1')), properties: { resolved: false } };
+    expect((await store.findRelationships('CONTRADICTS', open)).length === 1, 'property filter did not match');
+    expect(await store.updateRelationships('CONTRADICTS', open, { resolved: true, explanation: 'x' }) === 1,
+      'relationship not updated');
+    expect((await store.findRelationships('CONTRADICTS', open)).length === 0, 'update did not change the property');
+
+    const [updated] = await store.findRelationships('CONTRADICTS', { properties: { id: id('c1') } });
+    expect(updated?.properties.explanation === 'x', 'merged property missing');
+    await store.updateRelationships('CONTRADICTS', { properties: { id: id('c1') } }, { explanation: null });
+    const [cleared] = await store.findRelationships('CONTRADICTS', { properties: { id: id('c1') } });
+    expect(!('explanation' in (cleared?.properties || {})), 'null did not remove the property');
+
+    await expectError(() => store.findRelationships('ANSWERS', { properties: { 'x}': 1 } }), ErrorCode.INVALID_INPUT);
+  },
+
+  'increments properties, counting a missing value as zero': async ({ store, id, question }) => {
+    await question('q1', { stage: 2 });
+    await question('q2', { stage: null });
+    expect(await store.incrementProperty('Question', id('q1'), 'stage') === 3, 'did not add one to the stored value');
+    expect(await store.incrementProperty('Question', id('q2'), 'stage') === 1, 'missing value did not count as zero');
+    expect((await store.findNodeById('Question', id('q1')))?.properties.stage === 3, 'new value not stored');
+    expect(await store.incrementProperty('Question', id('missing'), 'stage') === null, 'missing node did not give null');
+  },
+
+  'deletes relationships and detaches deleted nodes': async ({ store, id, question, answer }) => {
+    const q = await question('q1');
+    const a = await answer('a1');
+    await store.createRelationship(a, q, 'ANSWERS');
+    await store.createRelationship(a, q, 'PRECEDES', { weight: 1, influenceType: 'direct' });
+
+    expect(await store.deleteRelationships('ANSWERS', a, q) === 1, 'ANSWERS not deleted');
+    expect((await store.traverse(a, { maxDepth: 1 })).length === 1, 'other relationships were deleted too');
+
+    await store.deleteNode('Question', id('q1'));
+    expect(await store.findNodeById('Question', id('q1')) === null, 'node still exists');
+    expect((await store.traverse(a, { maxDepth: 1 })).length === 0, 'relationship to the deleted node remains');
+  },
+
+  'commits transactions and rolls them back on error': async ({ store, run, id, question }) => {
+    await store.transaction(async tx => {
+      await tx.createNode(['Question'], {
+        id: id('q1'), text: 'kept', stage: 1, type: 'generated', context: [], generatedForUser: run,
+      });
+    });
+    expect(await store.findNodeById('Question', id('q1')) !== null, 'committed write was lost');
+
+    await question('q2');
+    await expectError(() => store.transaction(async tx => {
+      await tx.updateNode('Question', id('q2'), { text: 'rolled back' });
+      await tx.createNode(['Question'], { id: id('q1'), text: 'duplicate' });
+    }), ErrorCode.DB_QUERY_ERROR);
+    const q2 = await store.findNodeById('Question', id('q2'));
+    expect(q2?.properties.text === 'question', `rolled back write was kept: ${q2?.properties.text}`);
+  },
+
+  'rejects unknown labels, types and keys': async ({ store, id }) => {
+    await expectError(() => store.createNode(['Nope' as NodeType], { id: id('x') }), ErrorCode.INVALID_INPUT);
+    await expectError(() => store.createNode(['Question'], { id: id('x'), 'text`': 'x' }), ErrorCode.INVALID_INPUT);
+    await expectError(
+      () => store.findNodes('Question', { 'text} RETURN 1 //': 'x' } as Record<string, unknown>),
+      ErrorCode.INVALID_INPUT
+    );
+    await expectError(
+      () => store.createRelationships('NOPE' as 'ANSWERS', 'Answer', 'Question', []),
+      ErrorCode.INVALID_INPUT
+    );
+  },
+};
+
+async function runChecks(name: string, store: GraphStore): Promise<number> {
+  console.log(`\n${name}`);
+  let failures = 0;
+
+  for (const [label, check] of Object.entries(checks)) {
+    const run = `conformance-${uuidv4()}`;
+    const create = async (label: NodeType, id: string, properties: Record<string, unknown>) => {
+      await store.createNode([label], { id, ...properties });
+      return { label, id };
+    };
+
+    const fixture: Fixture = {
+      store,
+      run,
+      id: name => `${run}-${name}`,
+      question: (name, properties = {}) => create('Question', `${run}-${name}`, {
+        text: 'question', stage: 1, type: 'generated', context: [], generatedForUser: run, ...properties,
+      }),
+      answer: (name, properties = {}) => create('Answer', `${run}-${name}`, {
+        text: 'answer', userId: run, timestamp: new Date().toISOString(), modified: false, ...properties,
+      }),
+    };
+
+    try {
+      await check(fixture);
+      console.log(`  ✓ ${label}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${label}: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+    } finally {
+      const questions = await store.findNodes('Question', { generatedForUser: run });
+      const answers = await store.findNodes('Answer', { userId: run });
+      for (const node of questions) await store.deleteNode('Question', node.id);
+      for (const node of answers) await store.deleteNode('Answer', node.id);
+    }
+  }
+
+  return failures;
+}
+
+async function main() {
+  let failures = await runChecks('MemoryGraphStore', new MemoryGraphStore());
+
+  if (process.argv.includes('--neo4j')) {
+    try {
+      await neo4jClient.connect();
+      failures += await runChecks('Neo4jClient', neo4jClient);
+    } finally {
+      await neo4jClient.close();
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} conformance check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll graph store conformance checks passed');
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Conformance run failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,199 @@
+// scripts/test-llm.ts
+
+import { Constants, ErrorCode, LLMError } from '../src/lib/types';
+import { LLMRouter, parseModelRoutes, RoutingConfig } from '../src/lib/llm/llm-router';
+import { MockOllamaOptions, MockOllamaServer, startMockOllamaServer } from '../src/lib/llm/mock-ollama-server';
+import { OllamaClient, ollamaClient } from '../src/lib/llm/ollama-client';
+import { isLLMError } from '../src/lib/llm/provider';
+import { contradictionAnalysisOutput, generateStructured } from '../src/lib/llm/structured-output';
+
+/**
+ * Checks for model routing and structured output against the mock Ollama server,
+ * so no model is needed.
+ * Clients are built without a response cache or retries; console warnings are silenced.
+ */
+
+type Check = () => Promise<void>;
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function expectLLMError(operation: Promise<unknown>, code: LLMError['code']): Promise<LLMError> {
+  try {
+    await operation;
+  } catch (error) {
+    expect(isLLMError(error), `expected an LLMError, got ${JSON.stringify(error)}`);
+    const llmError = error as LLMError;
+    expect(llmError.code === code, `expected ${code}, got ${llmError.code}: ${llmError.message}`);
+    return llmError;
+  }
+  throw new Error(`expected ${code}, but the call succeeded`);
+}
+
+/**
+ * Run a check against a fresh mock server and an uncached client pointed at it
+ */
+async function withMock(
+  options: MockOllamaOptions,
+  run: (client: OllamaClient, mock: MockOllamaServer) => Promise<void>
+): Promise<void> {
+  const mock = await startMockOllamaServer(options);
+  try {
+    await run(new OllamaClient({ ...ollamaClient.getConfig(), baseUrl: mock.url, retryAttempts: 0 }), mock);
+  } finally {
+    await mock.close();
+  }
+}
+
+/**
+ * Answer requests with each reply in turn, repeating the last one
+ */
+function replies(...texts: string[]): MockOllamaOptions {
+  let next = 0;
+  return { models: ['mock'], responder: () => texts[Math.min(next++, texts.length - 1)] };
+}
+
+function analyze(client: OllamaClient) {
+  return generateStructured(client, { model: 'mock', prompt: 'Do these answers contradict?' }, contradictionAnalysisOutput);
+}
+
+const validAnalysis = JSON.stringify({ isContradiction: true, confidence: 0.9, explanation: 'They conflict.' });
+
+function routerFor(client: OllamaClient, config: Partial<RoutingConfig>): LLMRouter {
+  return new LLMRouter({ ollama: client }, { defaultModel: 'missing', ...config });
+}
+
+const checks: Record<string, Check> = {
+  'falls back to the next model when one is not found': () =>
+    withMock({ models: ['present'] }, async (client, mock) => {
+      const router = routerFor(client, { routes: { questionGeneration: parseModelRoutes('missing,present') } });
+      const response = await router.generate({ task: 'questionGeneration', prompt: 'Hello', stream: false });
+      expect(response.model === 'present', `answered by ${response.model}`);
+      expect(mock.requests.map(request => request.model).join() === 'present', 'unexpected requests');
+    }),
+
+  'tries fallback models after the task chain, for chat too': () =>
+    withMock({ models: ['backup'] }, async client => {
+      const router = routerFor(client, {
+        routes: { default: parseModelRoutes('missing') },
+        fallbackModels: parseModelRoutes('ollama:backup'),
+      });
+      const response = await router.chat({
+        task: 'contradictionAnalysis',
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: false,
+      });
+      expect(response.model === 'backup', `answered by ${response.model}`);
+    }),
+
+  'reports every model tried when none exists': () =>
+    withMock({ models: [] }, async client => {
+      const router = routerFor(client, {
+        routes: { principleExtraction: parseModelRoutes('first,second') },
+        fallbackModels: parseModelRoutes('third'),
+      });
+      const error = await expectLLMError(
+        router.generate({ task: 'principleExtraction', prompt: 'Hello', stream: false }),
+        'MODEL_NOT_FOUND'
+      );
+      const tried = 'ollama:first, ollama:second, ollama:third';
+      expect(error.message === `No model available for principleExtraction; tried ${tried}`, error.message);
+      expect(error.errorCode === ErrorCode.LLM_RESPONSE_ERROR, `mapped to ${error.errorCode}`);
+    }),
+
+  'does not fall back on other failures': () =>
+    withMock({ models: ['first', 'second'], failures: 1 }, async (client, mock) => {
+      const router = routerFor(client, { routes: { default: parseModelRoutes('first,second') } });
+      await expectLLMError(router.generate({ prompt: 'Hello', stream: false }), 'CONNECTION_ERROR');
+      expect(mock.requests.length === 0, `the next model was tried: ${mock.requests.map(request => request.model)}`);
+    }),
+
+  'replaces the task chain with an explicit model but keeps the fallbacks': async () => {
+    const router = routerFor(ollamaClient, {
+      routes: { frameworkAnalysis: parseModelRoutes('task-model') },
+      fallbackModels: parseModelRoutes('backup'),
+    });
+    const route = router.routeFor('frameworkAnalysis', 'openai:chosen').map(({ provider, model }) => `${provider}:${model}`);
+    expect(route.join() === 'openai:chosen,ollama:backup', `routed to ${route.join()}`);
+  },
+
+  'sends the schema as the format and accepts a valid response': () =>
+    withMock(replies(validAnalysis), async (client, mock) => {
+      const analysis = await analyze(client);
+      expect(analysis.isContradiction && analysis.confidence === 0.9, `parsed ${JSON.stringify(analysis)}`);
+      expect(mock.requests.length === 1, `expected no repair, got ${mock.requests.length} requests`);
+      const format = mock.requests[0].format as { type?: string; required?: string[] } | undefined;
+      expect(format?.type === 'object' && !!format.required?.includes('isContradiction'), 'schema was not sent');
+    }),
+
+  'repairs unparsable output in a follow-up chat turn': () =>
+    withMock(replies('Sure! The answers contradict.', validAnalysis), async (client, mock) => {
+      const analysis = await analyze(client);
+      expect(analysis.explanation === 'They conflict.', `parsed ${JSON.stringify(analysis)}`);
+      expect(mock.requests.map(request => request.endpoint).join() === 'generate,chat', 'expected one repair turn');
+
+      const messages = mock.requests[1].messages ?? [];
+      expect(messages[1]?.role === 'assistant' && messages[1].content === 'Sure! The answers contradict.',
+        'the invalid reply was not sent back');
+      expect(messages[2]?.role === 'user' && messages[2].content.includes('contradiction analysis'),
+        'the repair prompt does not name the response');
+      expect(mock.requests[1].format !== undefined, 'the repair turn was not constrained to the schema');
+    }),
+
+  'repairs output that parses but breaks the schema': () =>
+    withMock(replies(JSON.stringify({ isContradiction: true, confidence: 1.5, explanation: 'x' }), validAnalysis),
+      async (client, mock) => {
+        await analyze(client);
+        const repairPrompt = mock.requests[1]?.messages?.at(-1)?.content ?? '';
+        expect(repairPrompt.includes('$.confidence'), 'the repair prompt does not list the issue');
+      }),
+
+  'gives up after MAX_REPAIR_ATTEMPTS with the raw text': () =>
+    withMock(replies('first', 'second', 'third', 'fourth'), async (client, mock) => {
+      const error = await expectLLMError(analyze(client), 'INVALID_RESPONSE');
+      const attempts = 1 + Constants.MAX_REPAIR_ATTEMPTS;
+      expect(mock.requests.length === attempts, `expected ${attempts} requests, got ${mock.requests.length}`);
+
+      const details = error.details as { raw?: string; issues?: unknown[] } | undefined;
+      const lastReply = ['first', 'second', 'third', 'fourth'][attempts - 1];
+      expect(details?.raw === lastReply, `raw is ${JSON.stringify(details?.raw)}, expected the last reply`);
+      expect((details?.issues?.length ?? 0) > 0, 'issues are missing');
+      expect(error.errorCode === ErrorCode.LLM_RESPONSE_ERROR, `mapped to ${error.errorCode}`);
+    }),
+};
+
+async function main() {
+  let failures = 0;
+  const { warn } = console;
+  console.log('LLM clients');
+
+  for (const [label, check] of Object.entries(checks)) {
+    console.warn = () => undefined;
+    try {
+      await check();
+      console.log(`  ✓ ${label}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${label}: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+    } finally {
+      console.warn = warn;
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} LLM check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll LLM checks passed');
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('LLM checks failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,145 @@
+// scripts/test-neo4j.ts
+
+import { Result } from 'neo4j-driver';
+import { neo4jClient } from '../src/lib/graph/neo4j-client';
+import { answerRepository } from '../src/lib/graph/nodes/answer';
+import { frameworkRepository } from '../src/lib/graph/nodes/framework';
+import { principleRepository } from '../src/lib/graph/nodes/principle';
+import { questionRepository } from '../src/lib/graph/nodes/question';
+import { stageRepository } from '../src/lib/graph/nodes/stage';
+import { loadSeedData } from '../src/lib/graph/seed';
+
+interface Check {
+  name: string;
+  run: () => Promise<string | null>; // Returns a failure message, or null on success
+}
+
+/**
+ * Read-only checks that the database is reachable and holds the seed data intact
+ */
+async function testDatabase() {
+  console.log('Testing Neo4j database...');
+  const seed = loadSeedData();
+
+  const checks: Check[] = [
+    {
+      name: 'Database responds to queries',
+      run: async () => {
+        const result = await neo4jClient.query<Result>('RETURN 1 AS ok', {}, { accessMode: 'READ' });
+        return result.records[0]?.get('ok').toNumber() === 1 ? null : 'unexpected result from RETURN 1';
+      },
+    },
+    {
+      name: 'No duplicate ids',
+      run: async () => {
+        const result = await neo4jClient.query<Result>(
+          `
+            MATCH (n)
+            WHERE n.id IS NOT NULL
+            WITH labels(n)[0] AS label, n.id AS id, count(*) AS copies
+            WHERE copies > 1
+            RETURN label, id, copies
+            LIMIT 10
+          `,
+          {},
+          { accessMode: 'READ' }
+        );
+        return result.records.length === 0
+          ? null
+          : result.records.map(record => `${record.get('label')} ${record.get('id')}`).join(', ');
+      },
+    },
+    {
+      name: 'Stages form a single FOLLOWS chain in stage order',
+      run: async () => {
+        const result = await neo4jClient.query<Result>(
+          `
+            MATCH (first:Stage)
+            WHERE NOT ()-[:FOLLOWS]->(first)
+            MATCH path = (first)-[:FOLLOWS*0..]->(last:Stage)
+            WHERE NOT (last)-[:FOLLOWS]->()
+            RETURN [stage IN nodes(path) | stage.id] AS chain
+          `,
+          {},
+          { accessMode: 'READ' }
+        );
+        const expected = [...seed.stages].sort((a, b) => a.stageNumber - b.stageNumber).map(stage => stage.id);
+        const chains = result.records.map(record => record.get('chain') as string[]);
+        if (chains.length !== 1) {
+          return `expected one chain, found ${chains.length}`;
+        }
+        return chains[0].join(',') === expected.join(',')
+          ? null
+          : `expected ${expected.join(' -> ')}, found ${chains[0].join(' -> ')}`;
+      },
+    },
+    {
+      name: 'Seed frameworks exist',
+      run: async () => {
+        const result = await neo4jClient.query<Result>(
+          'MATCH (f:Framework) WHERE f.id IN $ids RETURN collect(f.id) AS found',
+          { ids: seed.frameworks.map(framework => framework.id) },
+          { accessMode: 'READ' }
+        );
+        const found = new Set(result.records[0].get('found') as string[]);
+        const missing = seed.frameworks.filter(framework => !found.has(framework.id)).map(framework => framework.id);
+        return missing.length === 0 ? null : `missing ${missing.join(', ')}`;
+      },
+    },
+    {
+      name: 'Seed questions belong to their stages',
+      run: async () => {
+        const result = await neo4jClient.query<Result>(
+          `
+            MATCH (q:Question)-[:BELONGS_TO]->(s:Stage)
+            WHERE q.id IN $ids
+            RETURN q.id AS id, s.stageNumber AS stage
+          `,
+          { ids: seed.questions.map(question => question.id) },
+          { accessMode: 'READ' }
+        );
+        const linked = new Map(result.records.map(record => [record.get('id') as string, Number(record.get('stage'))]));
+        const wrong = seed.questions.filter(question => linked.get(question.id) !== question.stage);
+        return wrong.length === 0 ? null : `not linked to their stage: ${wrong.map(question => question.id).join(', ')}`;
+      },
+    },
+    {
+      name: 'Stored nodes pass validation',
+      run: async () => {
+        const repositories = [stageRepository, frameworkRepository, questionRepository, answerRepository, principleRepository];
+        const invalid = (await Promise.all(repositories.map(repository => repository.audit()))).flat();
+        return invalid.length === 0
+          ? null
+          : invalid.slice(0, 10).map(record => `${record.label} ${record.id} (${record.issues[0].path} ${record.issues[0].message})`).join(', ')
+            + (invalid.length > 10 ? ` and ${invalid.length - 10} more` : '');
+      },
+    },
+  ];
+
+  let failures = 0;
+  try {
+    await neo4jClient.connect();
+
+    for (const check of checks) {
+      const failure = await check.run();
+      if (failure) {
+        failures++;
+        console.log(`✗ ${check.name}: ${failure}`);
+      } else {
+        console.log(`✓ ${check.name}`);
+      }
+    }
+  } catch (error) {
+    console.error('Database test failed:', error);
+    failures++;
+  } finally {
+    await neo4jClient.close();
+  }
+
+  console.log(failures === 0 ? '\nAll database checks passed' : `\n${failures} database check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+if (require.main === module) {
+  testDatabase();
+}
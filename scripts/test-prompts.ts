@@ -0,0 +1,169 @@
+// scripts/test-prompts.ts
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promptRegistry } from '../src/lib/llm/prompts';
+import { OllamaClient, ollamaClient } from '../src/lib/llm/ollama-client';
+import { startMockOllamaServer } from '../src/lib/llm/mock-ollama-server';
+
+/**
+ * Runs every prompt template's metadata.examples as regression fixtures.
+ *
+ * By default responses are replayed from data/fixtures/prompt-responses.json through
+ * the mock Ollama server. Fixtures are keyed by the rendered prompt text, so editing a
+ * template invalidates its fixtures until they are re-recorded against a real model
+ * with --record and re-checked against the examples.
+ *
+ * Synthetic fixtures were written by hand from the examples rather than produced by a
+ * model, so replaying them only checks rendering, the fixture keys and the comparison;
+ * the summary counts them so they are not mistaken for model behaviour.
+ */
+
+const FIXTURES_PATH = path.join(__dirname, '../data/fixtures/prompt-responses.json');
+const NUMBER_TOLERANCE = 0.15;
+
+type ResponseFixture = {
+  templateId: string;
+  version: string;
+  response: string;
+} & ({ source: 'synthetic' } | { source: 'recorded'; model: string; recordedAt: string });
+
+function promptKey(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+function loadFixtures(): Record<string, ResponseFixture> {
+  if (!fs.existsSync(FIXTURES_PATH)) return {};
+  return JSON.parse(fs.readFileSync(FIXTURES_PATH, 'utf8'));
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compare a model output with the expected output.
+ * Booleans must match, numbers must be within tolerance, arrays must have the
+ * same length, and free-text strings only need to be present.
+ */
+function findMismatches(actual: unknown, expected: unknown, at = '$'): string[] {
+  if (typeof expected === 'string') {
+    return typeof actual === 'string' ? [] : [`${at}: expected a string`];
+  }
+  if (typeof expected === 'number') {
+    return typeof actual === 'number' && Math.abs(actual - expected) <= NUMBER_TOLERANCE
+      ? []
+      : [`${at}: expected ${expected} ± ${NUMBER_TOLERANCE}, got ${JSON.stringify(actual)}`];
+  }
+  if (typeof expected === 'boolean') {
+    return actual === expected ? [] : [`${at}: expected ${expected}, got ${JSON.stringify(actual)}`];
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [`${at}: expected an array of length ${expected.length}`];
+    }
+    return expected.flatMap((item, index) => findMismatches(actual[index], item, `${at}[${index}]`));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') {
+      return [`${at}: expected an object`];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      findMismatches((actual as Record<string, unknown>)[key], value, `${at}.${key}`)
+    );
+  }
+  return actual === expected ? [] : [`${at}: expected ${JSON.stringify(expected)}`];
+}
+
+async function testPrompts() {
+  const record = process.argv.includes('--record');
+  const fixtures = loadFixtures();
+  const mock = record ? null : await startMockOllamaServer({
+    responder: input => fixtures[promptKey(input.prompt)]?.response ?? '',
+  });
+  const client = mock
+    ? new OllamaClient({ ...ollamaClient.getConfig(), baseUrl: mock.url, retryAttempts: 0 })
+    : new OllamaClient(ollamaClient.getConfig());
+
+  let failures = 0;
+  let synthetic = 0;
+
+  try {
+    for (const template of promptRegistry.list()) {
+      const examples = template.metadata?.examples || [];
+      console.log(`\n${template.id}@${template.version} (${examples.length} examples)`);
+
+      for (const [index, example] of examples.entries()) {
+        const label = `example ${index + 1}`;
+        const rendered = promptRegistry.render(template.id, example.variables);
+        const key = promptKey(rendered.prompt);
+
+        if (!record && !fixtures[key]) {
+          console.log(`  ✗ ${label}: no fixture for the current prompt text; re-record with --record`);
+          failures++;
+          continue;
+        }
+        const source = record ? 'recorded' : fixtures[key].source;
+        if (source === 'synthetic') {
+          synthetic++;
+        }
+
+        const response = await client.generate({ prompt: rendered.prompt, options: { temperature: 0 } });
+        if (record) {
+          fixtures[key] = {
+            templateId: template.id,
+            version: template.version,
+            source: 'recorded',
+            model: response.model,
+            response: response.response,
+            recordedAt: new Date().toISOString(),
+          };
+        }
+
+        const expected = parseJson(example.expectedOutput);
+        const mismatches = expected === undefined
+          ? (response.response.trim() === example.expectedOutput.trim() ? [] : ['$: output differs'])
+          : findMismatches(parseJson(response.response), expected);
+
+        if (mismatches.length > 0) {
+          console.log(`  ✗ ${label} (${source})`);
+          mismatches.forEach(mismatch => console.log(`      ${mismatch}`));
+          failures++;
+        } else {
+          console.log(`  ✓ ${label} (${source})`);
+        }
+      }
+    }
+
+    if (record) {
+      fs.mkdirSync(path.dirname(FIXTURES_PATH), { recursive: true });
+      fs.writeFileSync(FIXTURES_PATH, JSON.stringify(fixtures, null, 2) + '\n');
+      console.log(`\nRecorded responses written to ${FIXTURES_PATH}`);
+    }
+    if (synthetic > 0) {
+      console.log(`\n${synthetic} example(s) replayed synthetic responses, not model output; run --record against a model to test the prompts themselves`);
+    }
+  } finally {
+    await mock?.close();
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} prompt example(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll prompt examples passed');
+  process.exit(0);
+}
+
+// Run prompt regression tests
+if (require.main === module) {
+  testPrompts().catch(error => {
+    console.error('Prompt tests failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,186 @@
+// scripts/test-queries.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { contradictionResolver } from '../src/lib/core/contradiction-resolver';
+import { analysisEngine } from '../src/lib/core/analysis-engine';
+import { LogicEngine } from '../src/lib/core/logic-engine';
+import { PrincipleExtractor } from '../src/lib/core/principle-extractor';
+import { SessionManager } from '../src/lib/core/session-manager';
+import { sessionEvents } from '../src/lib/core/session-events';
+import { stageProgression } from '../src/lib/core/stage-progression';
+import { getGraphStore } from '../src/lib/graph/graph-store';
+import { MemoryGraphStore } from '../src/lib/graph/memory-store';
+import { createAnswerRevision, findRevisionChain, isAnswerSuperseded } from '../src/lib/graph/queries/answer';
+import { findUserOpenContradictionIds } from '../src/lib/graph/queries/contradiction';
+import { findAlignmentEdges, findFrameworks, findUnscoredStatements, saveAlignments } from '../src/lib/graph/queries/framework';
+import { findFirstStage, findNextStage, findPrecedingStageNumbers, findStageActivity } from '../src/lib/graph/queries/stage';
+import { loadSeedData } from '../src/lib/graph/seed';
+import { ContradictionAnalyzer } from '../src/lib/llm/contradiction-analyzer';
+import { FrameworkAnalyzer } from '../src/lib/llm/framework-analyzer';
+import { SessionAnswer } from '../src/lib/types';
+
+/**
+ * Checks for the graph queries and the session manager on GRAPH_STORE=memory,
+ * so neither Neo4j nor a model is needed. Background detection after each answer
+ * is replaced with no-ops, since it calls the LLM.
+ */
+
+type Check = (userId: string) => Promise<void>;
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+const idle = {
+  extractForAnswer: async () => [],
+  scoreUnscored: async () => [],
+  detectForAnswer: async () => [],
+  checkAnswer: async () => [],
+};
+
+const sessions = new SessionManager(
+  contradictionResolver,
+  stageProgression,
+  analysisEngine,
+  idle as unknown as ContradictionAnalyzer,
+  idle as unknown as LogicEngine,
+  idle as unknown as PrincipleExtractor,
+  idle as unknown as FrameworkAnalyzer
+);
+
+function answer(questionId: string, text: string): SessionAnswer {
+  return { questionId, answerId: uuidv4(), text, timestamp: new Date().toISOString(), stage: 0, modified: false };
+}
+
+const checks: Record<string, Check> = {
+  'seeds stages and frameworks on connect': async () => {
+    const seed = loadSeedData();
+    const first = await findFirstStage();
+    expect(first?.stageNumber === 1, `first stage is ${first?.stageNumber}`);
+    expect((await findNextStage(1))?.stageNumber === 2, 'stage 2 does not follow stage 1');
+    const preceding = await findPrecedingStageNumbers(3);
+    expect(preceding.join() === '1,2', `stages before 3 are ${preceding.join()}`);
+    expect((await findFrameworks()).length === seed.frameworks.length, 'frameworks missing');
+  },
+
+  'keeps one session per user': async userId => {
+    const session = await sessions.create(userId);
+    const again = await sessions.create(userId);
+    expect(again.sessionId === session.sessionId, 'a second session was created');
+    expect(session.currentStage === 1, `session starts at stage ${session.currentStage}`);
+  },
+
+  'records answers with their question and stage': async userId => {
+    const { sessionId } = await sessions.create(userId);
+    const added = answer('seed-question-1-1', 'Keep promises.');
+    const session = await sessions.addAnswer(sessionId, added);
+    const stored = session.answers.find(item => item.answerId === added.answerId);
+    expect(stored?.stage === 1 && stored.questionId === 'seed-question-1-1', `stored as ${JSON.stringify(stored)}`);
+
+    const [activity] = await findStageActivity(userId);
+    expect(activity.stage === 1 && activity.questionsAnswered === 1, `activity was ${JSON.stringify(activity)}`);
+  },
+
+  'counts contradictions until they are resolved': async userId => {
+    const { sessionId } = await sessions.create(userId);
+    const first = answer('seed-question-1-1', 'Always tell the truth.');
+    const second = answer('seed-question-1-2', 'Lying is fine to spare feelings.');
+    await sessions.addAnswer(sessionId, first);
+    await sessions.addAnswer(sessionId, second);
+
+    const id = uuidv4();
+    const session = await sessions.addContradiction(sessionId, {
+      id,
+      questionIds: ['seed-question-1-1', 'seed-question-1-2'],
+      answerIds: [first.answerId, second.answerId],
+      explanation: 'Truth against kindness.',
+      detectedAt: new Date().toISOString(),
+      resolved: false,
+    });
+    expect(session.contradictions.some(item => item.id === id), 'contradiction missing from the session');
+    expect((await findUserOpenContradictionIds(userId)).join() === id, 'contradiction is not open');
+
+    await sessions.resolveContradiction(sessionId, id, { explanation: 'Kindness can come first.', timestamp: '' });
+    expect((await findUserOpenContradictionIds(userId)).length === 0, 'contradiction still open');
+    const [activity] = await findStageActivity(userId);
+    expect(activity.contradictionsFound === 1 && activity.contradictionsResolved === 1,
+      `activity was ${JSON.stringify(activity)}`);
+  },
+
+  'links revisions into a chain': async userId => {
+    const { sessionId } = await sessions.create(userId);
+    const original = answer('seed-question-1-1', 'First thought.');
+    await sessions.addAnswer(sessionId, original);
+
+    const now = new Date().toISOString();
+    const revisionId = uuidv4();
+    await createAnswerRevision(original.answerId, {
+      id: revisionId, text: 'Second thought.', userId, timestamp: now, modified: true,
+      previousVersion: original.answerId, createdAt: now, updatedAt: now,
+    }, { reason: 'Changed my mind', timestamp: now });
+
+    expect(await isAnswerSuperseded(original.answerId), 'original is not superseded');
+    const chain = await findRevisionChain(original.answerId);
+    expect(chain.map(version => version.answer.id).join() === `${original.answerId},${revisionId}`, 'chain out of order');
+    expect(chain[1].modification?.reason === 'Changed my mind', 'modification missing from the revision');
+
+    const [activity] = await findStageActivity(userId);
+    expect(activity.questionsAnswered === 1, `superseded version counted: ${JSON.stringify(activity)}`);
+  },
+
+  'replaces alignments rather than adding them': async userId => {
+    const { sessionId } = await sessions.create(userId);
+    const added = answer('seed-question-1-1', 'Outcomes matter most.');
+    await sessions.addAnswer(sessionId, added);
+    expect((await findUnscoredStatements(userId)).some(item => item.id === added.answerId), 'answer not listed as unscored');
+
+    await saveAlignments('answer', added.answerId, [{ frameworkId: 'framework-utilitarianism', strength: 0.4 }]);
+    await saveAlignments('answer', added.answerId, [{ frameworkId: 'framework-utilitarianism', strength: 0.9 }]);
+    const edges = await findAlignmentEdges(userId);
+    expect(edges.length === 1 && edges[0].strength === 0.9, `edges were ${JSON.stringify(edges)}`);
+    expect((await findUnscoredStatements(userId)).length === 0, 'scored answer still listed as unscored');
+  },
+
+  'numbers session events in order': async userId => {
+    const { sessionId } = await sessions.create(userId);
+    await Promise.all(['a', 'b', 'c'].map(text => sessions.addAnswer(sessionId, answer('seed-question-1-1', text))));
+    const seqs = (await sessionEvents.replay(sessionId)).map(event => event.seq);
+    expect(seqs.join() === '1,2,3', `event numbers were ${seqs.join()}`);
+  },
+};
+
+async function main() {
+  process.env.GRAPH_STORE = 'memory';
+  const store = getGraphStore();
+  expect(store instanceof MemoryGraphStore, 'GRAPH_STORE=memory did not give the in-memory store');
+  await store.connect();
+
+  let failures = 0;
+  console.log('Graph queries on the in-memory store');
+
+  for (const [label, check] of Object.entries(checks)) {
+    try {
+      await check(`queries-${uuidv4()}`);
+      console.log(`  ✓ ${label}`);
+    } catch (error) {
+      failures++;
+      console.log(`  ✗ ${label}: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} query check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\nAll query checks passed');
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Query checks failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,62 @@
+// scripts/user-data.ts
+
+import { promises as fs } from 'fs';
+import { graphStore } from '../src/lib/graph/graph-store';
+import { UserDataSummary, userDataManager } from '../src/lib/core/user-data';
+
+const USAGE = [
+  'Usage:',
+  '  ts-node scripts/user-data.ts export <userId> [file]   Write the user\'s bundle to file (default stdout)',
+  '  ts-node scripts/user-data.ts import <file>            Restore a bundle',
+  '  ts-node scripts/user-data.ts delete <userId> --yes    Delete the user\'s data and cached LLM responses',
+].join('\n');
+
+function describe(summary: UserDataSummary): string {
+  const nodes = Object.entries(summary.nodes).map(([label, count]) => `${count} ${label}`).join(', ') || 'no nodes';
+  const cache = summary.cacheEntries !== undefined ? `, ${summary.cacheEntries} cached LLM response(s)` : '';
+  return `${nodes}; ${summary.relationships} relationship(s)${cache}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [command, target, output] = args.filter(arg => !arg.startsWith('--'));
+
+  if (!target || !['export', 'import', 'delete'].includes(command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (command === 'delete' && !args.includes('--yes')) {
+    console.error(`Refusing to delete ${target}'s data without --yes`);
+    process.exit(1);
+  }
+
+  try {
+    await graphStore.connect();
+
+    if (command === 'export') {
+      const bundle = await userDataManager.export(target);
+      const json = `${JSON.stringify(bundle, null, 2)}\n`;
+      if (output) {
+        await fs.writeFile(output, json, 'utf8');
+        console.error(`✓ Exported ${bundle.nodes.length} node(s) and ${bundle.relationships.length} relationship(s) to ${output}`);
+      } else {
+        process.stdout.write(json);
+      }
+    } else if (command === 'import') {
+      const bundle = JSON.parse(await fs.readFile(target, 'utf8'));
+      console.log(`✓ Imported ${describe(await userDataManager.import(bundle))}`);
+    } else {
+      console.log(`✓ Deleted ${describe(await userDataManager.delete(target))}`);
+    }
+
+    await graphStore.close();
+    process.exit(0);
+  } catch (error) {
+    console.error(`User data ${command} failed:`, error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,54 @@
+// src/app/api/admin/statistics/route.ts
+
+import { NextRequest } from 'next/server';
+import { Constants, ErrorCode } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { findSessionStatistics } from '@/lib/graph/queries/analytics';
+import { handleApiError, requireAdmin, successResponse } from '@/lib/utils/error-handlers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Aggregate statistics across all sessions started in an optional date range.
+ * Query: from, to (dates or ISO timestamps; to is exclusive) and minCohortSize
+ * (at least Constants.MIN_COHORT_SIZE). Requires the admin bearer token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = parseDate(searchParams.get('from'), 'from');
+    const to = parseDate(searchParams.get('to'), 'to');
+    if (from && to && from >= to) {
+      throw { code: ErrorCode.INVALID_INPUT, message: 'from must be before to' };
+    }
+
+    const minCohortSize = Number(searchParams.get('minCohortSize') ?? Constants.MIN_COHORT_SIZE);
+    if (!Number.isInteger(minCohortSize) || minCohortSize < Constants.MIN_COHORT_SIZE) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `minCohortSize must be an integer of at least ${Constants.MIN_COHORT_SIZE}`,
+      };
+    }
+
+    await graphStore.ensureConnected();
+    return successResponse(await findSessionStatistics({ from, to, minCohortSize }));
+  } catch (error) {
+    return handleApiError(error, 'Statistics request');
+  }
+}
+
+/**
+ * Normalize a date parameter to an ISO timestamp, which compares correctly as a string
+ */
+function parseDate(value: string | null, name: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw { code: ErrorCode.INVALID_INPUT, message: `${name} must be a date or ISO timestamp` };
+  }
+  return new Date(time).toISOString();
+}
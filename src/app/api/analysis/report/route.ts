@@ -0,0 +1,39 @@
+// src/app/api/analysis/report/route.ts
+
+import { NextRequest } from 'next/server';
+import { graphStore } from '@/lib/graph/graph-store';
+import { reportGenerator } from '@/lib/core/report-generator';
+import { handleApiError, requireParam } from '@/lib/utils/error-handlers';
+import { formatReport, REPORT_FORMATS } from '@/lib/utils/formatters';
+import { assertValid, schema } from '@/lib/utils/validators';
+
+/**
+ * Export a session's report as Markdown (the default), printable HTML or versioned JSON.
+ * The report itself is the response body; add ?download=true to save it as a file.
+ * Errors still use the ApiResponse envelope.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = requireParam(request, 'sessionId');
+    const format = assertValid(
+      request.nextUrl.searchParams.get('format') ?? 'markdown',
+      schema.oneOf(REPORT_FORMATS),
+      'format'
+    );
+
+    await graphStore.ensureConnected();
+    const report = await reportGenerator.generate(sessionId);
+    const { body, contentType, extension } = formatReport(report, format);
+
+    const disposition = request.nextUrl.searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+    return new Response(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${disposition}; filename="moral-framework-report-${report.generatedAt.slice(0, 10)}.${extension}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Report request');
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/analysis/route.ts
+
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { sessionManager } from '@/lib/core/session-manager';
+import { handleApiError, parseBody, requireParam, successResponse } from '@/lib/utils/error-handlers';
+import { schema } from '@/lib/utils/validators';
+
+const analysisRequestSchema = schema.object({
+  sessionId: schema.string({ minLength: 1 }),
+});
+
+/**
+ * Get a session's last stored analysis, or null if none has been generated
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = requireParam(request, 'sessionId');
+
+    await graphStore.ensureConnected();
+    const session = await sessionManager.get(sessionId);
+    if (!session) {
+      throw { code: ErrorCode.SESSION_NOT_FOUND, message: `Session ${sessionId} not found` };
+    }
+    return successResponse(session.analysis ?? null);
+  } catch (error) {
+    return handleApiError(error, 'Analysis request');
+  }
+}
+
+/**
+ * Analyze a session and store the result on it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, analysisRequestSchema);
+
+    await graphStore.ensureConnected();
+    return successResponse(await sessionManager.generateAnalysis(body.sessionId));
+  } catch (error) {
+    return handleApiError(error, 'Analysis request');
+  }
+}
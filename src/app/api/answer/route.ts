@@ -0,0 +1,45 @@
+// src/app/api/answer/route.ts
+
+import { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { ErrorCode } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { timestampSchema } from '@/lib/graph/nodes/repository';
+import { sessionManager } from '@/lib/core/session-manager';
+import { handleApiError, parseBody, successResponse } from '@/lib/utils/error-handlers';
+import { schema } from '@/lib/utils/validators';
+
+const answerRequestSchema = schema.object({
+  sessionId: schema.string({ minLength: 1 }),
+  questionId: schema.string({ minLength: 1 }),
+  text: schema.string({ minLength: 1 }),
+  timestamp: schema.optional(timestampSchema),
+});
+
+/**
+ * Submit an answer to a question.
+ * Contradiction checks run in the background; results arrive on the session's event stream.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, answerRequestSchema);
+
+    await graphStore.ensureConnected();
+    const session = await sessionManager.get(body.sessionId);
+    if (!session) {
+      throw { code: ErrorCode.SESSION_NOT_FOUND, message: `Session ${body.sessionId} not found` };
+    }
+
+    const updated = await sessionManager.addAnswer(body.sessionId, {
+      questionId: body.questionId,
+      answerId: uuidv4(),
+      text: body.text,
+      timestamp: body.timestamp ?? new Date().toISOString(),
+      stage: session.currentStage,
+      modified: false,
+    });
+    return successResponse(updated, 201);
+  } catch (error) {
+    return handleApiError(error, 'Answer request');
+  }
+}
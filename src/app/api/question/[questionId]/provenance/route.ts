@@ -0,0 +1,26 @@
+// src/app/api/question/[questionId]/provenance/route.ts
+
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { findQuestionProvenance } from '@/lib/graph/queries/traversal';
+import { handleApiError, successResponse } from '@/lib/utils/error-handlers';
+
+/**
+ * Explain why a question was asked: the answers that led to it and the principles
+ * and contradictions those answers touched
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ questionId: string }> }) {
+  try {
+    const { questionId } = await params;
+
+    await graphStore.ensureConnected();
+    const provenance = await findQuestionProvenance(questionId);
+    if (!provenance) {
+      throw { code: ErrorCode.QUESTION_NOT_FOUND, message: `Question ${questionId} not found` };
+    }
+    return successResponse(provenance);
+  } catch (error) {
+    return handleApiError(error, 'Provenance request');
+  }
+}
@@ -0,0 +1,70 @@
+// src/app/api/question/route.ts
+
+import { NextRequest } from 'next/server';
+import { ErrorCode, SessionAnswer } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { questionRepository } from '@/lib/graph/nodes/question';
+import { principleRepository } from '@/lib/graph/nodes/principle';
+import { sessionManager } from '@/lib/core/session-manager';
+import { questionGenerator } from '@/lib/llm/question-generator';
+import { handleApiError, parseBody, successResponse } from '@/lib/utils/error-handlers';
+import { schema } from '@/lib/utils/validators';
+
+const questionRequestSchema = schema.object({
+  sessionId: schema.string({ minLength: 1 }),
+  contextNotes: schema.optional(schema.string()),
+  temperature: schema.optional(schema.number({ min: 0, max: 2 })),
+});
+
+/**
+ * Generate the next question for a session's current stage.
+ * The prompt sees the latest version of each answer given in this stage and the user's principles.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, questionRequestSchema);
+
+    await graphStore.ensureConnected();
+    const session = await sessionManager.get(body.sessionId);
+    if (!session) {
+      throw { code: ErrorCode.SESSION_NOT_FOUND, message: `Session ${body.sessionId} not found` };
+    }
+
+    const answers = currentAnswers(session.answers).filter(answer => answer.stage === session.currentStage);
+    const [questions, principles] = await Promise.all([
+      Promise.all(answers.map(answer => questionRepository.findById(answer.questionId))),
+      principleRepository.findByUser(session.userId),
+    ]);
+
+    const previous = answers
+      .map((answer, index) => ({ answer, question: questions[index] }))
+      .filter(pair => pair.question);
+
+    const generated = await questionGenerator.generate(
+      {
+        stage: session.currentStage,
+        previousAnswers: previous.map(({ answer, question }) => ({ question: question!.text, answer: answer.text })),
+        userPrinciples: principles.map(principle => principle.text),
+        contextNotes: body.contextNotes,
+        temperature: body.temperature,
+      },
+      { userId: session.userId, answerIds: previous.map(({ answer }) => answer.answerId) }
+    );
+
+    return successResponse({
+      question: generated.question,
+      reasoning: generated.response.reasoning,
+      targetedPrinciples: generated.response.targetedPrinciples ?? [],
+    }, 201);
+  } catch (error) {
+    return handleApiError(error, 'Question request');
+  }
+}
+
+/**
+ * Drop answer versions that have since been revised
+ */
+function currentAnswers(answers: SessionAnswer[]): SessionAnswer[] {
+  const superseded = new Set(answers.map(answer => answer.previousVersionId).filter(Boolean));
+  return answers.filter(answer => !superseded.has(answer.answerId));
+}
@@ -0,0 +1,63 @@
+// src/app/api/resolution/route.ts
+
+import { NextRequest } from 'next/server';
+import { graphStore } from '@/lib/graph/graph-store';
+import { contradictionResolver, ResolutionRequest } from '@/lib/core/contradiction-resolver';
+import { handleApiError, parseBody, requireParam, successResponse } from '@/lib/utils/error-handlers';
+import { Schema, schema } from '@/lib/utils/validators';
+
+const text = () => schema.string({ minLength: 1 });
+
+const explanationSchema = schema.object({
+  type: schema.oneOf(['explanation'] as const),
+  contradictionId: text(),
+  explanation: text(),
+});
+
+const revisionSchema = schema.object({
+  type: schema.oneOf(['revision'] as const),
+  contradictionId: text(),
+  answerId: text(),
+  text: text(),
+  reason: text(),
+});
+
+/**
+ * Picks the variant schema by `type`, so issues are reported against the variant the client meant
+ */
+const resolutionSchema: Schema<ResolutionRequest> = {
+  validate(value, path = '$') {
+    const type = (value as { type?: unknown } | null)?.type;
+    if (type === 'explanation') return explanationSchema.validate(value, path);
+    if (type === 'revision') return revisionSchema.validate(value, path);
+    return schema.object({ type: schema.oneOf(['explanation', 'revision'] as const) }).validate({ type }, path);
+  },
+};
+
+/**
+ * Resolve a contradiction by explanation or by revising one of its answers
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, resolutionSchema);
+
+    await graphStore.ensureConnected();
+    return successResponse(await contradictionResolver.resolve(body));
+  } catch (error) {
+    return handleApiError(error, 'Resolution request');
+  }
+}
+
+/**
+ * Get the revision history of an answer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const answerId = requireParam(request, 'answerId');
+
+    await graphStore.ensureConnected();
+    return successResponse(await contradictionResolver.getRevisionHistory(answerId));
+  } catch (error) {
+    return handleApiError(error, 'Resolution request');
+  }
+}
@@ -0,0 +1,116 @@
+// src/app/api/session/[sessionId]/events/route.ts
+
+import { NextRequest } from 'next/server';
+import { ErrorCode, SessionEvent } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { findSession } from '@/lib/graph/queries/session';
+import { sessionEvents } from '@/lib/core/session-events';
+import { errorResponse, handleApiError } from '@/lib/utils/error-handlers';
+
+// Event streams are long-lived and must never be cached or statically rendered
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Stream a session's events as Server-Sent Events.
+ * Logged events after the Last-Event-ID header (or ?after=<seq>) are replayed
+ * first, then new events are sent as they are published.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+
+  try {
+    await graphStore.ensureConnected();
+    if (!await findSession(sessionId)) {
+      return errorResponse({ code: ErrorCode.SESSION_NOT_FOUND, message: `Session ${sessionId} not found` });
+    }
+  } catch (error) {
+    return handleApiError(error, 'Event stream request');
+  }
+
+  const afterSeq = Number(request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('after')) || 0;
+  const encoder = new TextEncoder();
+  // Set once the client goes away, by abort or cancel(), whichever comes first
+  let closed = false;
+  let cleanup = () => {
+    closed = true;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      if (request.signal.aborted) {
+        closed = true;
+        controller.close();
+        return;
+      }
+
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      // Events can arrive both from the replay and live while it runs; send each once
+      const sent = new Set<number>();
+      const send = (event: SessionEvent) => {
+        if (event.seq <= afterSeq || sent.has(event.seq)) {
+          return;
+        }
+        sent.add(event.seq);
+        write(formatEvent(event));
+      };
+
+      // Subscribe before replaying so nothing published in between is missed
+      let replaying = true;
+      const pending: SessionEvent[] = [];
+      const unsubscribe = sessionEvents.subscribe(sessionId, event => {
+        if (replaying) {
+          pending.push(event);
+        } else {
+          send(event);
+        }
+      });
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        // cancel() has already closed the stream if the client went away first
+        if (closed) return;
+        cleanup();
+        controller.close();
+      }, { once: true });
+
+      try {
+        (await sessionEvents.replay(sessionId, afterSeq)).forEach(send);
+      } catch (error) {
+        console.error(`Failed to replay events for session ${sessionId}:`, error);
+        write(`event: error\ndata: ${JSON.stringify({ code: ErrorCode.DB_QUERY_ERROR, message: 'Failed to replay events' })}\n\n`);
+      }
+
+      replaying = false;
+      pending.sort((a, b) => a.seq - b.seq).forEach(send);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+function formatEvent(event: SessionEvent): string {
+  return `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,25 @@
+// src/app/api/session/route.ts
+
+import { NextRequest } from 'next/server';
+import { graphStore } from '@/lib/graph/graph-store';
+import { sessionManager } from '@/lib/core/session-manager';
+import { handleApiError, parseBody, successResponse } from '@/lib/utils/error-handlers';
+import { schema } from '@/lib/utils/validators';
+
+const sessionRequestSchema = schema.object({
+  userId: schema.string({ minLength: 1 }),
+});
+
+/**
+ * Start a session at the first stage, or return the user's existing session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, sessionRequestSchema);
+
+    await graphStore.ensureConnected();
+    return successResponse(await sessionManager.create(body.userId));
+  } catch (error) {
+    return handleApiError(error, 'Session request');
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/stage/route.ts
+
+import { NextRequest } from 'next/server';
+import { ErrorCode, StageProgress, StageProgressionCheck } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { sessionManager } from '@/lib/core/session-manager';
+import { stageProgression } from '@/lib/core/stage-progression';
+import { handleApiError, parseBody, requireParam, successResponse } from '@/lib/utils/error-handlers';
+import { schema } from '@/lib/utils/validators';
+
+const advanceSchema = schema.object({
+  sessionId: schema.string({ minLength: 1 }),
+  targetStage: schema.optional(schema.number({ integer: true, min: 1 })),
+});
+
+/**
+ * Get a session's progress through every stage and whether it can advance
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = requireParam(request, 'sessionId');
+
+    await graphStore.ensureConnected();
+    const session = await sessionManager.get(sessionId);
+    if (!session) {
+      throw { code: ErrorCode.SESSION_NOT_FOUND, message: `Session ${sessionId} not found` };
+    }
+
+    const [progress, check] = await Promise.all([
+      stageProgression.getProgress(session.userId, session.currentStage),
+      stageProgression.evaluate(session.userId, session.currentStage),
+    ]);
+
+    return successResponse<{ progress: StageProgress[]; check: StageProgressionCheck }>({ progress, check });
+  } catch (error) {
+    return handleApiError(error, 'Stage request');
+  }
+}
+
+/**
+ * Advance a session from its stored stage to the next one, saving the new stage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseBody(request, advanceSchema);
+
+    await graphStore.ensureConnected();
+    return successResponse(await sessionManager.advanceStage(body.sessionId, body.targetStage));
+  } catch (error) {
+    return handleApiError(error, 'Stage request');
+  }
+}
@@ -0,0 +1,67 @@
+// src/app/api/user/[userId]/data/route.ts
+
+import { NextRequest } from 'next/server';
+import { ErrorCode } from '@/lib/types';
+import { graphStore } from '@/lib/graph/graph-store';
+import { userDataBundleSchema, userDataManager } from '@/lib/core/user-data';
+import { handleApiError, parseBody, requireAdmin, successResponse } from '@/lib/utils/error-handlers';
+
+type Params = { params: Promise<{ userId: string }> };
+
+// Users have no credentials of their own, so every handler requires the admin bearer token
+
+/**
+ * Download everything stored for a user as a JSON bundle that POST accepts back
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    requireAdmin(request);
+    const { userId } = await params;
+
+    await graphStore.ensureConnected();
+    const bundle = await userDataManager.export(userId);
+    return new Response(`${JSON.stringify(bundle, null, 2)}\n`, {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="user-data-${bundle.exportedAt.slice(0, 10)}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'User data export');
+  }
+}
+
+/**
+ * Restore a user's data from an exported bundle
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    requireAdmin(request);
+    const { userId } = await params;
+    const bundle = await parseBody(request, userDataBundleSchema, 'user data bundle');
+    if (bundle.userId !== userId) {
+      throw { code: ErrorCode.INVALID_INPUT, message: `Bundle belongs to ${bundle.userId}, not ${userId}` };
+    }
+
+    await graphStore.ensureConnected();
+    return successResponse(await userDataManager.import(bundle), 201);
+  } catch (error) {
+    return handleApiError(error, 'User data import');
+  }
+}
+
+/**
+ * Delete everything stored for a user, including cached LLM responses; shared data is kept
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    requireAdmin(request);
+    const { userId } = await params;
+
+    await graphStore.ensureConnected();
+    return successResponse(await userDataManager.delete(userId));
+  } catch (error) {
+    return handleApiError(error, 'User data deletion');
+  }
+}
@@ -0,0 +1,35 @@
+// src/instrumentation.ts
+
+/**
+ * Runs once when the server starts. Refuses to start against a database
+ * whose schema is behind the code; set SKIP_SCHEMA_CHECK=true to bypass.
+ * The in-memory graph store has no schema and is seeded instead.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getGraphStore } = await import('./lib/graph/graph-store');
+  const { neo4jClient } = await import('./lib/graph/neo4j-client');
+
+  const store = getGraphStore();
+  if (store !== neo4jClient) {
+    await store.ensureConnected();
+    console.log('✓ In-memory graph store seeded from data/seed');
+    return;
+  }
+  if (process.env.SKIP_SCHEMA_CHECK === 'true') {
+    return;
+  }
+
+  const { migrationRunner } = await import('./lib/graph/migrations');
+  try {
+    await neo4jClient.ensureConnected();
+    await migrationRunner.assertUpToDate();
+  } catch (error) {
+    console.error(`Startup schema check failed: ${(error as { message?: string }).message ?? error}`);
+    throw error;
+  }
+  console.log('✓ Database schema is up to date');
+}
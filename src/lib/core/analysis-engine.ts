@@ -0,0 +1,188 @@
+// src/lib/core/analysis-engine.ts
+
+import {
+  Constants,
+  ExtractedPrinciple,
+  FrameworkAlignment,
+  GrowthArea,
+  PrincipleNode,
+  RecommendedPhilosopher,
+  SessionAnalysis,
+  Strength,
+  UserSession,
+} from '../types';
+import { findUserPrinciples } from '../graph/queries/principle';
+import { FrameworkAnalyzer, frameworkAnalyzer, FrameworkScore } from '../llm/framework-analyzer';
+import { StageProgressionEngine, stageProgression } from './stage-progression';
+
+/**
+ * Builds a session's analysis from what is already in the graph: stage activity,
+ * contradictions, derived principles and ALIGNS_WITH edges. No LLM calls are made here.
+ */
+export class AnalysisEngine {
+  private stages: StageProgressionEngine;
+  private frameworks: FrameworkAnalyzer;
+
+  constructor(stages: StageProgressionEngine = stageProgression, frameworks: FrameworkAnalyzer = frameworkAnalyzer) {
+    this.stages = stages;
+    this.frameworks = frameworks;
+  }
+
+  /**
+   * Analyze a session's current answers
+   */
+  async analyze(session: UserSession): Promise<SessionAnalysis> {
+    const supersededIds = new Set(session.answers.map(answer => answer.previousVersionId).filter(Boolean));
+    const currentAnswers = session.answers.filter(answer => !supersededIds.has(answer.answerId));
+    const answerText = new Map(session.answers.map(answer => [answer.answerId, answer.text]));
+    // Examples carry their answer IDs, since several answers can share a text
+    const examplesOf = (ids: string[]) => {
+      const exampleAnswerIds = ids.filter(id => answerText.has(id));
+      return { examples: exampleAnswerIds.map(id => answerText.get(id) as string), exampleAnswerIds };
+    };
+
+    const [stageProgress, principleNodes, { scores }] = await Promise.all([
+      this.stages.getProgress(session.userId, session.currentStage),
+      findUserPrinciples(session.userId),
+      this.frameworks.aggregate(session.userId),
+    ]);
+
+    const principles = this.toPrinciples(principleNodes, new Set(currentAnswers.map(answer => answer.answerId)));
+    const frameworkAlignment = scores
+      .filter(score => score.answerScore !== null || score.principleScore !== null)
+      .map(score => this.toFrameworkAlignment(score, principles));
+
+    // Answers caught up in an open contradiction count against consistency
+    const open = session.contradictions.filter(contradiction => !contradiction.resolved);
+    const conflicted = new Set(open.flatMap(contradiction => contradiction.relatedAnswerIds || contradiction.answerIds));
+    const consistent = currentAnswers.filter(answer => !conflicted.has(answer.answerId)).length;
+    const consistencyScore = currentAnswers.length > 0
+      ? Math.round((consistent / currentAnswers.length) * 100)
+      : 100;
+
+    const growthAreas: GrowthArea[] = [];
+    if (open.length > 0) {
+      growthAreas.push({
+        area: 'Consistency',
+        description: `${open.length} contradiction(s) between your answers are still unresolved.`,
+        ...examplesOf(Array.from(conflicted)),
+        suggestions: [
+          'Explain why the answers are compatible, or revise the one you no longer hold.',
+        ],
+      });
+    }
+    stageProgress
+      .filter(progress => progress.questionsAnswered > 0 && progress.averageConsistency < Constants.MIN_STAGE_CONSISTENCY)
+      .forEach(progress => {
+        growthAreas.push({
+          area: `Stage ${progress.stage} reasoning`,
+          description: `Answers in stage ${progress.stage} contradicted each other `
+            + `${progress.contradictionsFound} time(s) across ${progress.questionsAnswered} answer(s).`,
+          ...examplesOf(currentAnswers
+            .filter(answer => answer.stage === progress.stage && conflicted.has(answer.answerId))
+            .map(answer => answer.answerId)),
+          suggestions: [`Revisit the principles behind your stage ${progress.stage} answers.`],
+        });
+      });
+
+    const strengths: Strength[] = principles
+      .filter(principle => principle.consistency >= 0.8 && principle.frequency > 1)
+      .map(principle => ({
+        area: principle.text,
+        description: `Applied consistently across ${principle.frequency} answers.`,
+        ...examplesOf(principle.derivedFrom),
+        relatedPrinciples: [principle.id],
+      }));
+    if (session.resolvedContradictions > 0) {
+      strengths.push({
+        area: 'Reflection',
+        description: `Worked through ${session.resolvedContradictions} contradiction(s) in your reasoning.`,
+        examples: [],
+        exampleAnswerIds: [],
+        relatedPrinciples: [],
+      });
+    }
+
+    return {
+      frameworkAlignment,
+      principleExtraction: principles,
+      consistencyScore,
+      growthAreas,
+      strengths,
+      overallSummary: this.summarize(session, currentAnswers.length, consistencyScore, frameworkAlignment, principles),
+      stageProgress,
+      recommendedPhilosophers: this.recommendPhilosophers(scores),
+    };
+  }
+
+  private toPrinciples(nodes: PrincipleNode[], currentIds: Set<string>): ExtractedPrinciple[] {
+    return nodes.slice(0, Constants.MAX_PRINCIPLE_EXTRACTION).map(node => {
+      const derivedFrom = node.derivedFrom.filter(id => currentIds.has(id));
+      return {
+        id: node.id,
+        text: node.text,
+        description: node.description,
+        derivedFrom,
+        frequency: node.frequency ?? derivedFrom.length,
+        consistency: node.consistency ?? node.confidence,
+      };
+    });
+  }
+
+  private toFrameworkAlignment(score: FrameworkScore, principles: ExtractedPrinciple[]): FrameworkAlignment {
+    const alignedPrinciples = new Set(score.alignedPrincipleIds);
+    const alignedAnswers = new Set(score.alignedAnswerIds);
+    return {
+      frameworkId: score.frameworkId,
+      frameworkName: score.name,
+      alignmentScore: score.alignmentScore,
+      keyPrinciples: principles
+        .filter(principle => alignedPrinciples.has(principle.id)
+          || principle.derivedFrom.some(id => alignedAnswers.has(id)))
+        .slice(0, 3)
+        .map(principle => principle.text),
+      reasoning: score.reasoning[0]
+        || `${score.alignedAnswerIds.length} answer(s) align with ${score.name}.`,
+    };
+  }
+
+  private recommendPhilosophers(scores: FrameworkScore[]): RecommendedPhilosopher[] {
+    return scores
+      .filter(score => score.alignmentScore >= Constants.FRAMEWORK_ALIGNMENT_THRESHOLD * 100)
+      .flatMap(score => score.keyThinkers.map(name => ({
+        name,
+        alignmentScore: score.alignmentScore,
+        keyIdeas: [score.name],
+        recommendedReading: [],
+        reasonForRecommendation: `A key thinker of ${score.name}, which your reasoning aligns with.`,
+      })))
+      .slice(0, 3);
+  }
+
+  private summarize(
+    session: UserSession,
+    answered: number,
+    consistencyScore: number,
+    frameworks: FrameworkAlignment[],
+    principles: ExtractedPrinciple[]
+  ): string {
+    if (answered === 0) {
+      return 'No answers yet. Answer a few questions to see an analysis of your reasoning.';
+    }
+
+    const sentences = [
+      `You have answered ${answered} question(s) and reached stage ${session.currentStage}.`,
+      `Your answers are ${consistencyScore}% consistent.`,
+    ];
+    if (frameworks.length > 0) {
+      sentences.push(`Your reasoning aligns most with ${frameworks[0].frameworkName} (${frameworks[0].alignmentScore}%).`);
+    }
+    if (principles.length > 0) {
+      sentences.push(`Your most prominent principle: "${principles[0].text}".`);
+    }
+    return sentences.join(' ');
+  }
+}
+
+// Export a singleton instance
+export const analysisEngine = new AnalysisEngine();
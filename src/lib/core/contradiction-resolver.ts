@@ -0,0 +1,214 @@
+// src/lib/core/contradiction-resolver.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { AnswerNode, ErrorCode, SessionContradiction } from '../types';
+import {
+  AnswerVersion,
+  createAnswerRevision,
+  findAnswer,
+  findRevisionChain,
+  isAnswerSuperseded,
+} from '../graph/queries/answer';
+import {
+  findContradiction,
+  findOpenContradictionIds,
+  markContradictionResolved,
+  StoredContradiction,
+} from '../graph/queries/contradiction';
+import {
+  ContradictionAnalyzer,
+  contradictionAnalyzer,
+  DetectedContradiction,
+} from '../llm/contradiction-analyzer';
+import { FrameworkAnalyzer, frameworkAnalyzer } from '../llm/framework-analyzer';
+import { ImpliedContradiction, LogicEngine, logicEngine } from './logic-engine';
+import { PrincipleExtractor, principleExtractor } from './principle-extractor';
+import { SessionEventBus, sessionEvents } from './session-events';
+
+/**
+ * The two ways a user can resolve a contradiction
+ */
+export type ResolutionRequest =
+  | {
+      type: 'explanation'; // The answers are compatible; explain why
+      contradictionId: string;
+      explanation: string;
+    }
+  | {
+      type: 'revision'; // Replace one of the answers with a new version
+      contradictionId: string;
+      answerId: string;
+      text: string;
+      reason: string;
+    };
+
+export interface ResolutionResult {
+  contradictionId: string;
+  resolution: NonNullable<SessionContradiction['resolution']>;
+  revisedAnswer?: AnswerNode;
+  newContradictions: DetectedContradiction[];
+  impliedContradictions: ImpliedContradiction[];
+}
+
+/**
+ * Resolves contradictions by explanation or by revising an answer
+ */
+export class ContradictionResolver {
+  private analyzer: ContradictionAnalyzer;
+  private logic: LogicEngine;
+  private extractor: PrincipleExtractor;
+  private frameworks: FrameworkAnalyzer;
+  private events: SessionEventBus;
+
+  constructor(
+    analyzer: ContradictionAnalyzer = contradictionAnalyzer,
+    logic: LogicEngine = logicEngine,
+    extractor: PrincipleExtractor = principleExtractor,
+    frameworks: FrameworkAnalyzer = frameworkAnalyzer,
+    events: SessionEventBus = sessionEvents
+  ) {
+    this.analyzer = analyzer;
+    this.logic = logic;
+    this.extractor = extractor;
+    this.frameworks = frameworks;
+    this.events = events;
+  }
+
+  /**
+   * Resolve a contradiction.
+   * A revision creates a new answer version, resolves the contradiction and the
+   * old answer's other open contradictions, then re-runs principle extraction,
+   * framework scoring and detection for the new answer.
+   */
+  async resolve(request: ResolutionRequest): Promise<ResolutionResult> {
+    const contradiction = await findContradiction(request.contradictionId);
+    if (!contradiction) {
+      throw {
+        code: ErrorCode.CONTRADICTION_NOT_FOUND,
+        message: `Contradiction ${request.contradictionId} not found`,
+      };
+    }
+    if (contradiction.properties.resolved) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Contradiction ${request.contradictionId} is already resolved`,
+      };
+    }
+
+    if (request.type === 'explanation') {
+      const timestamp = new Date().toISOString();
+      await markContradictionResolved(contradiction.id, {
+        resolutionType: 'explanation',
+        resolutionExplanation: request.explanation,
+        resolutionTimestamp: timestamp,
+      });
+      // An open contradiction counts against its answers' principles until resolved
+      await this.extractor.rescore(contradiction.userId);
+
+      const resolution = { explanation: request.explanation, timestamp };
+      await this.events.publishForUser(contradiction.userId, 'CONTRADICTION_RESOLVED', {
+        contradictionId: contradiction.id,
+        resolution,
+      });
+
+      return {
+        contradictionId: contradiction.id,
+        resolution,
+        newContradictions: [],
+        impliedContradictions: [],
+      };
+    }
+
+    return this.resolveByRevision(contradiction, request);
+  }
+
+  /**
+   * Get every version of an answer, oldest first, with the reason for each change
+   */
+  async getRevisionHistory(answerId: string): Promise<AnswerVersion[]> {
+    return findRevisionChain(answerId);
+  }
+
+  private async resolveByRevision(
+    contradiction: StoredContradiction,
+    request: Extract<ResolutionRequest, { type: 'revision' }>
+  ): Promise<ResolutionResult> {
+    if (!contradiction.answerIds.includes(request.answerId)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Answer ${request.answerId} is not part of contradiction ${contradiction.id}`,
+      };
+    }
+
+    const previous = await findAnswer(request.answerId);
+    if (!previous || await isAnswerSuperseded(request.answerId)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Answer ${request.answerId} is not the current version and cannot be revised`,
+      };
+    }
+
+    const timestamp = new Date().toISOString();
+    const revisedAnswer: AnswerNode = {
+      id: uuidv4(),
+      text: request.text,
+      userId: previous.userId,
+      timestamp,
+      modified: true,
+      previousVersion: previous.id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await createAnswerRevision(previous.id, revisedAnswer, { reason: request.reason, timestamp });
+
+    const resolution = {
+      explanation: request.reason,
+      overwrittenAnswerId: previous.id,
+      newAnswerId: revisedAnswer.id,
+      timestamp,
+    };
+    await markContradictionResolved(contradiction.id, {
+      resolutionType: 'revision',
+      resolutionExplanation: request.reason,
+      resolutionTimestamp: timestamp,
+      overwrittenAnswerId: previous.id,
+      newAnswerId: revisedAnswer.id,
+    });
+
+    // The old version no longer stands, so its other open contradictions are
+    // closed and re-detection decides whether they still apply to the new version
+    for (const openId of await findOpenContradictionIds(previous.id)) {
+      await markContradictionResolved(openId, {
+        resolutionType: 'superseded',
+        resolutionExplanation: `Answer revised: ${request.reason}`,
+        resolutionTimestamp: timestamp,
+        overwrittenAnswerId: previous.id,
+        newAnswerId: revisedAnswer.id,
+      });
+    }
+
+    await this.events.publishForUser(previous.userId, 'CONTRADICTION_RESOLVED', {
+      contradictionId: contradiction.id,
+      resolution,
+      revisedAnswer,
+    });
+
+    // Principles and framework alignments first, as both detectors use them
+    await this.extractor.extractForAnswer(revisedAnswer.id, revisedAnswer.userId);
+    await this.frameworks.scoreUnscored(revisedAnswer.userId);
+    const newContradictions = await this.analyzer.detectForAnswer(revisedAnswer.id, revisedAnswer.userId);
+    const impliedContradictions = await this.logic.checkAnswer(revisedAnswer.id, revisedAnswer.userId);
+
+    return {
+      contradictionId: contradiction.id,
+      resolution,
+      revisedAnswer,
+      newContradictions,
+      impliedContradictions,
+    };
+  }
+}
+
+// Export a singleton instance
+export const contradictionResolver = new ContradictionResolver();
@@ -0,0 +1,258 @@
+// src/lib/core/logic-engine.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  createContradiction,
+  findAnsweredQuestion,
+  findImpliedContradictionGroups,
+  findKnowledgeSources,
+  KnowledgeSource,
+  updateAnswerLogicalForm,
+} from '../graph/queries/contradiction';
+import { llmRouter } from '../llm/llm-router';
+import { LLMProvider } from '../llm/provider';
+import { PromptRegistry, promptRegistry } from '../llm/prompts';
+import { generateStructured, StructuredOutput } from '../llm/structured-output';
+import {
+  findMinimalConflicts,
+  Formula,
+  formatFormula,
+  isSatisfiable,
+  LogicalForm,
+  parseLogicalForm,
+  toFormula,
+} from '../utils/propositional-logic';
+import { schema } from '../utils/validators';
+import { SessionEventBus, sessionEvents } from './session-events';
+
+export interface KnowledgeItem extends KnowledgeSource {
+  formula: Formula;
+}
+
+/**
+ * A set of answers (and principles) that cannot all be true at once
+ */
+export interface ImpliedContradiction {
+  groupId: string;
+  answerIds: string[];
+  principleIds: string[];
+  logicalForm: string;
+  explanation: string;
+}
+
+interface FormalizationResponse {
+  logicalForm: string;
+  propositions: Record<string, string>;
+}
+
+const formalizationOutput: StructuredOutput<FormalizationResponse> = {
+  name: 'answer formalization',
+  schema: schema.object({
+    logicalForm: schema.string({ minLength: 1 }),
+    propositions: schema.record(schema.string()),
+  }),
+};
+
+// Upper bound on conflicts reported per check, to keep the solver fast
+const MAX_CONFLICTS_PER_CHECK = 5;
+
+/**
+ * Propositional reasoning over a user's answers and principles.
+ * Answers are formalized into a shared per-user vocabulary of propositions,
+ * so inconsistencies spanning several answers (e.g. A->B, B->C, A, !C) are
+ * found even when no single pair of answers contradicts.
+ */
+export class LogicEngine {
+  private client: LLMProvider;
+  private registry: PromptRegistry;
+  private events: SessionEventBus;
+
+  constructor(
+    client: LLMProvider = llmRouter,
+    registry: PromptRegistry = promptRegistry,
+    events: SessionEventBus = sessionEvents
+  ) {
+    this.client = client;
+    this.registry = registry;
+    this.events = events;
+  }
+
+  /**
+   * Formalize an answer and find any new implied contradictions it creates
+   */
+  async checkAnswer(answerId: string, userId: string): Promise<ImpliedContradiction[]> {
+    await this.formalizeAnswer(answerId, userId);
+    return this.findImpliedContradictions(userId);
+  }
+
+  /**
+   * Translate an answer into a logical form, reusing the user's existing propositions
+   */
+  async formalizeAnswer(answerId: string, userId: string): Promise<string | null> {
+    const answered = await findAnsweredQuestion(answerId);
+    if (!answered) {
+      return null;
+    }
+
+    const knownPropositions = Array.from(new Set(
+      (await findKnowledgeSources(userId)).flatMap(source => source.propositions)
+    ));
+
+    const rendered = this.registry.render('answer-formalization', {
+      question: answered.questionText,
+      answer: answered.answerText,
+      knownPropositions: knownPropositions.length
+        ? knownPropositions.map(proposition => `- ${proposition}`).join('\n')
+        : 'None yet',
+    });
+
+    const response = await generateStructured(this.client, {
+      task: 'formalization',
+      prompt: rendered.prompt,
+      options: { temperature: rendered.temperature ?? 0 },
+      userId,
+    }, formalizationOutput, this.registry);
+
+    try {
+      parseLogicalForm(response.logicalForm);
+    } catch (error) {
+      console.warn(`Discarding unparsable logical form for answer ${answerId}:`, error);
+      return null;
+    }
+
+    const propositions = Object.entries(response.propositions)
+      .map(([name, meaning]) => `${name}: ${meaning}`);
+    await updateAnswerLogicalForm(answerId, response.logicalForm, propositions);
+
+    return response.logicalForm;
+  }
+
+  /**
+   * Build the user's knowledge base: one formula per answer or principle
+   */
+  async buildKnowledgeBase(userId: string): Promise<KnowledgeItem[]> {
+    const items: KnowledgeItem[] = [];
+
+    for (const source of await findKnowledgeSources(userId)) {
+      try {
+        const formula = toFormula(parseLogicalForm(source.logicalForm));
+        if (formula) {
+          items.push({ ...source, formula });
+        }
+      } catch (error) {
+        console.warn(`Skipping ${source.type} ${source.id} with invalid logical form:`, error);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Find minimal sets of answers and principles that are jointly unsatisfiable,
+   * recording and publishing each new set as an implied contradiction
+   */
+  async findImpliedContradictions(userId: string): Promise<ImpliedContradiction[]> {
+    const knowledgeBase = await this.buildKnowledgeBase(userId);
+    const conflicts = findMinimalConflicts(knowledgeBase, MAX_CONFLICTS_PER_CHECK);
+    if (conflicts.length === 0) {
+      return [];
+    }
+
+    const recorded = new Set((await findImpliedContradictionGroups(userId)).map(groupKey));
+    const found: ImpliedContradiction[] = [];
+
+    for (const conflict of conflicts) {
+      const answerIds = Array.from(new Set(conflict.flatMap(item => item.answerIds))).sort();
+      // A single self-contradictory answer has no pair to link
+      if (answerIds.length < 2 || recorded.has(groupKey(answerIds))) {
+        continue;
+      }
+
+      const contradiction: ImpliedContradiction = {
+        groupId: uuidv4(),
+        answerIds,
+        principleIds: conflict.filter(item => item.type === 'principle').map(item => item.id),
+        logicalForm: conflict.map(item => formatFormula(item.formula)).join(', '),
+        explanation: this.explain(conflict),
+      };
+
+      await this.record(contradiction);
+      recorded.add(groupKey(answerIds));
+      found.push(contradiction);
+      await this.events.publishForUser(userId, 'CONTRADICTION_DETECTED', { kind: 'implied', contradiction });
+    }
+
+    return found;
+  }
+
+  /**
+   * Link consecutive answers of the set with CONTRADICTS edges sharing one group ID
+   */
+  private async record(contradiction: ImpliedContradiction): Promise<void> {
+    const createdAt = new Date().toISOString();
+    const template = this.registry.get('answer-formalization');
+
+    for (let index = 0; index < contradiction.answerIds.length - 1; index++) {
+      await createContradiction(contradiction.answerIds[index], contradiction.answerIds[index + 1], {
+        id: contradiction.groupId,
+        explanation: contradiction.explanation,
+        resolved: false,
+        confidence: 1, // Logically entailed by the formalized answers
+        logicalForm: contradiction.logicalForm,
+        kind: 'implied',
+        groupId: contradiction.groupId,
+        answerIds: contradiction.answerIds,
+        promptId: template.id,
+        promptVersion: template.version,
+        createdAt,
+      });
+    }
+  }
+
+  private explain(conflict: KnowledgeItem[]): string {
+    const statements = conflict.map(item => {
+      const label = item.type === 'principle' ? 'the principle' : 'your answer';
+      return `${label} "${item.text}"`;
+    });
+    const summary = `These cannot all be true at once: ${statements.join('; ')}.`;
+    return conflict.length > 2
+      ? `${summary} Removing any one of them resolves the conflict, so it only appears when they are taken together.`
+      : summary;
+  }
+}
+
+/**
+ * Check the logicalForm of a pairwise contradiction analysis, returning it normalized
+ * if it parses and its parts are jointly unsatisfiable, or undefined otherwise.
+ * These forms name propositions with letters local to the pair (the L in "L->!P, L, P"
+ * means nothing outside it), not the user's shared vocabulary, so they are never added
+ * to the knowledge base; only the answers' own formalizations are.
+ */
+export function verifyPairwiseForm(logicalForm?: string): string | undefined {
+  if (!logicalForm?.trim()) {
+    return undefined;
+  }
+
+  let form: LogicalForm;
+  try {
+    form = parseLogicalForm(logicalForm);
+  } catch (error) {
+    console.warn(`Discarding unparsable contradiction logical form "${logicalForm}":`, error);
+    return undefined;
+  }
+
+  // "therefore" makes no difference to consistency: every part must hold
+  const parts = form.conclusion ? [...form.premises, form.conclusion] : form.premises;
+  if (isSatisfiable(parts)) {
+    console.warn(`Discarding contradiction logical form "${logicalForm}": its parts can all be true`);
+    return undefined;
+  }
+  return parts.map(formatFormula).join(', ');
+}
+
+function groupKey(answerIds: string[]): string {
+  return [...answerIds].sort().join('|');
+}
+
+// Export a singleton instance
+export const logicEngine = new LogicEngine();
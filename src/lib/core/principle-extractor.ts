@@ -0,0 +1,306 @@
+// src/lib/core/principle-extractor.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Constants,
+  PrincipleExtractionRequest,
+  PrincipleExtractionResponse,
+  PrincipleNode,
+  RenderedPrompt,
+} from '../types';
+import { findAnsweredQuestion } from '../graph/queries/contradiction';
+import {
+  createPrinciple,
+  findPrincipleEvidence,
+  findUserPrinciples,
+  PrincipleEvidence,
+  updatePrinciple,
+} from '../graph/queries/principle';
+import { llmRouter } from '../llm/llm-router';
+import { LLMProvider } from '../llm/provider';
+import { PromptRegistry, promptRegistry } from '../llm/prompts';
+import { generateStructured, principleExtractionOutput } from '../llm/structured-output';
+import { mostSimilar } from '../utils/text-similarity';
+
+export interface PrincipleExtractionResult {
+  created: PrincipleNode[];
+  merged: PrincipleNode[]; // Existing principles the answer also supports
+  weakened: PrincipleNode[]; // Existing principles the answer goes against
+  dropped: string[]; // Candidates that did not fit under Constants.MAX_PRINCIPLE_EXTRACTION
+  patterns: string[];
+  inconsistencies: string[];
+}
+
+type CandidatePrinciple = PrincipleExtractionResponse['principles'][number];
+
+/**
+ * Incrementally extracts a user's moral principles from their answers.
+ * Each new answer's principles are merged into the user's existing Principle
+ * nodes when they mean the same thing, so evidence accumulates on one node,
+ * and every principle is rescored from the current evidence for and against it.
+ */
+export class PrincipleExtractor {
+  private client: LLMProvider;
+  private registry: PromptRegistry;
+
+  constructor(client: LLMProvider = llmRouter, registry: PromptRegistry = promptRegistry) {
+    this.client = client;
+    this.registry = registry;
+  }
+
+  /**
+   * Ask the LLM for the principles behind a set of answers.
+   * userId tags the cached response with the user whose answers are sent.
+   */
+  async extract(
+    request: PrincipleExtractionRequest,
+    userId?: string
+  ): Promise<{ response: PrincipleExtractionResponse; rendered: RenderedPrompt }> {
+    const rendered = this.registry.render('principle-extraction', {
+      answers: request.answers
+        .map((answer, index) => `${index + 1}. Question: ${answer.question}\n   Answer: ${answer.answer}`)
+        .join('\n'),
+      existingPrinciples: request.existingPrinciples?.length
+        ? request.existingPrinciples.map((principle, index) => `P${index + 1}. ${principle}`).join('\n')
+        : 'None yet',
+      maxPrinciples: String(Constants.MAX_PRINCIPLE_EXTRACTION),
+    });
+
+    const response = await generateStructured(this.client, {
+      task: 'principleExtraction',
+      prompt: rendered.prompt,
+      options: { temperature: rendered.temperature ?? 0.2 },
+      userId,
+    }, principleExtractionOutput, this.registry);
+
+    return {
+      response: { ...response, weakenedPrinciples: response.weakenedPrinciples || [] },
+      rendered,
+    };
+  }
+
+  /**
+   * Extract principles from a new answer and merge them into the user's principles
+   */
+  async extractForAnswer(answerId: string, userId: string): Promise<PrincipleExtractionResult> {
+    const result: PrincipleExtractionResult = {
+      created: [],
+      merged: [],
+      weakened: [],
+      dropped: [],
+      patterns: [],
+      inconsistencies: [],
+    };
+
+    const answered = await findAnsweredQuestion(answerId);
+    if (!answered) {
+      return result;
+    }
+
+    const existing = await findUserPrinciples(userId);
+    const { response } = await this.extract({
+      answers: [{ question: answered.questionText, answer: answered.answerText }],
+      existingPrinciples: existing.map(principle => principle.text),
+    }, userId);
+    result.patterns = response.patterns;
+    result.inconsistencies = response.inconsistencies;
+
+    const principles = [...existing];
+    for (const candidate of this.dedupe(response.principles)) {
+      const match = this.findMatch(candidate.text, principles);
+
+      if (match) {
+        const merged = this.merge(match, candidate, answerId);
+        await updatePrinciple(match.id, merged);
+        Object.assign(match, merged);
+        result.merged.push(match);
+        continue;
+      }
+
+      const created = await this.create(candidate, answerId, userId, principles);
+      if (created) {
+        principles.push(created);
+        result.created.push(created);
+      } else {
+        result.dropped.push(candidate.text);
+      }
+    }
+
+    for (const reference of response.weakenedPrinciples || []) {
+      const principle = this.resolveReference(reference, existing);
+      if (
+        !principle
+        || principle.derivedFrom.includes(answerId)
+        || principle.weakenedBy?.includes(answerId)
+      ) {
+        continue;
+      }
+
+      const weakenedBy = [...(principle.weakenedBy || []), answerId];
+      await updatePrinciple(principle.id, { weakenedBy, updatedAt: new Date().toISOString() });
+      principle.weakenedBy = weakenedBy;
+      result.weakened.push(principle);
+    }
+
+    await this.rescore(userId);
+    return result;
+  }
+
+  /**
+   * Recompute frequency, consistency and confidence for all of a user's principles
+   * from the current answers and open contradictions.
+   * Call after anything that changes the evidence, such as resolving a contradiction.
+   */
+  async rescore(userId: string): Promise<void> {
+    const principles = new Map((await findUserPrinciples(userId)).map(principle => [principle.id, principle]));
+
+    for (const evidence of await findPrincipleEvidence(userId)) {
+      const principle = principles.get(evidence.principleId);
+      if (principle) {
+        await updatePrinciple(principle.id, {
+          ...this.score(principle.extractionConfidence ?? principle.confidence, evidence),
+          updatedAt: new Date().toISOString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Consistency is the share of relevant evidence that upholds the principle.
+   * Confidence starts from the LLM's mean confidence, scaled by consistency and
+   * growing with the number of supporting answers.
+   */
+  private score(
+    extractionConfidence: number,
+    evidence: PrincipleEvidence
+  ): Pick<PrincipleNode, 'frequency' | 'consistency' | 'confidence'> {
+    const against = evidence.weakening + evidence.openContradictions;
+    const consistency = evidence.supporting + against > 0
+      ? evidence.supporting / (evidence.supporting + against)
+      : 0;
+    const support = 0.5 + 0.5 * (evidence.supporting / (evidence.supporting + 1));
+
+    return {
+      frequency: evidence.supporting,
+      consistency: round(consistency),
+      confidence: round(extractionConfidence * consistency * support),
+    };
+  }
+
+  /**
+   * Collapse candidates that restate each other, keeping the most confident,
+   * and keep at most Constants.MAX_PRINCIPLE_EXTRACTION
+   */
+  private dedupe(candidates: CandidatePrinciple[]): CandidatePrinciple[] {
+    const kept: CandidatePrinciple[] = [];
+    const sorted = candidates
+      .filter(candidate => typeof candidate?.text === 'string' && candidate.text.trim())
+      .sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
+
+    for (const candidate of sorted) {
+      const similar = mostSimilar(candidate.text, kept.map(principle => principle.text));
+      if (!similar || similar.score < Constants.PRINCIPLE_SIMILARITY_THRESHOLD) {
+        kept.push(candidate);
+      }
+    }
+    return kept.slice(0, Constants.MAX_PRINCIPLE_EXTRACTION);
+  }
+
+  private findMatch(text: string, principles: PrincipleNode[]): PrincipleNode | null {
+    const exact = principles.find(principle => principle.text.trim().toLowerCase() === text.trim().toLowerCase());
+    if (exact) {
+      return exact;
+    }
+
+    const similar = mostSimilar(text, principles.map(principle => principle.text));
+    return similar && similar.score >= Constants.PRINCIPLE_SIMILARITY_THRESHOLD
+      ? principles.find(principle => principle.text === similar.text) || null
+      : null;
+  }
+
+  /**
+   * Add the answer to a principle's evidence, averaging in the new extraction confidence
+   */
+  private merge(
+    principle: PrincipleNode,
+    candidate: CandidatePrinciple,
+    answerId: string
+  ): Pick<PrincipleNode, 'derivedFrom' | 'extractionConfidence' | 'weakenedBy' | 'updatedAt'> {
+    if (principle.derivedFrom.includes(answerId)) {
+      return {
+        derivedFrom: principle.derivedFrom,
+        extractionConfidence: principle.extractionConfidence,
+        weakenedBy: principle.weakenedBy,
+        updatedAt: new Date().toISOString(),
+      };
+    }
+
+    const extractions = principle.derivedFrom.length;
+    const previous = principle.extractionConfidence ?? principle.confidence;
+    return {
+      derivedFrom: [...principle.derivedFrom, answerId],
+      extractionConfidence: round((previous * extractions + clamp(candidate.confidence)) / (extractions + 1)),
+      weakenedBy: (principle.weakenedBy || []).filter(id => id !== answerId),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create a principle, or return null once the user has Constants.MAX_PRINCIPLE_EXTRACTION.
+   * Existing principles are never replaced: their confidence is rescored from the evidence
+   * they have gathered, so it cannot be compared with a candidate's raw extraction score.
+   */
+  private async create(
+    candidate: CandidatePrinciple,
+    answerId: string,
+    userId: string,
+    principles: PrincipleNode[]
+  ): Promise<PrincipleNode | null> {
+    if (principles.length >= Constants.MAX_PRINCIPLE_EXTRACTION) {
+      return null;
+    }
+
+    const confidence = clamp(candidate.confidence);
+
+    const now = new Date().toISOString();
+    const principle: PrincipleNode = {
+      id: uuidv4(),
+      text: candidate.text.trim(),
+      description: candidate.description || '',
+      derivedFrom: [answerId],
+      confidence,
+      userId,
+      frequency: 1,
+      consistency: 1,
+      extractionConfidence: confidence,
+      weakenedBy: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await createPrinciple(principle);
+    return principle;
+  }
+
+  /**
+   * Map a weakened-principle reference ("P2", or the principle's text) to a principle
+   */
+  private resolveReference(reference: string, principles: PrincipleNode[]): PrincipleNode | null {
+    const numbered = /^P(\d+)$/i.exec(reference.trim());
+    if (numbered) {
+      return principles[Number(numbered[1]) - 1] || null;
+    }
+    return this.findMatch(reference, principles);
+  }
+}
+
+function clamp(confidence: unknown): number {
+  const value = Number(confidence);
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0.5;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export a singleton instance
+export const principleExtractor = new PrincipleExtractor();
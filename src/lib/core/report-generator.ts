@@ -0,0 +1,130 @@
+// src/lib/core/report-generator.ts
+
+import {
+  ErrorCode,
+  QuotedAnswer,
+  ReportContradiction,
+  SessionAnswer,
+  SessionContradiction,
+  SessionReport,
+  UserSession,
+} from '../types';
+import { QuestionRepository, questionRepository } from '../graph/nodes/question';
+import { PromptRegistry, promptRegistry } from '../llm/prompts';
+import { AnalysisEngine, analysisEngine } from './analysis-engine';
+import { SessionManager, sessionManager } from './session-manager';
+
+// Bump when SessionReport changes shape so diffs across versions are not misread
+export const REPORT_VERSION = 2;
+
+/**
+ * Builds an exportable report of a session: a fresh analysis with the answers behind each
+ * strength and growth area quoted, and the full contradiction and resolution history.
+ * Rendering is left to utils/formatters.
+ */
+export class ReportGenerator {
+  private sessions: SessionManager;
+  private analysis: AnalysisEngine;
+  private questions: QuestionRepository;
+  private registry: PromptRegistry;
+
+  constructor(
+    sessions: SessionManager = sessionManager,
+    analysis: AnalysisEngine = analysisEngine,
+    questions: QuestionRepository = questionRepository,
+    registry: PromptRegistry = promptRegistry
+  ) {
+    this.sessions = sessions;
+    this.analysis = analysis;
+    this.questions = questions;
+    this.registry = registry;
+  }
+
+  async generate(sessionId: string): Promise<SessionReport> {
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      throw {
+        code: ErrorCode.SESSION_NOT_FOUND,
+        message: `Session ${sessionId} not found`,
+      };
+    }
+
+    const [analysis, quotes] = await Promise.all([
+      this.analysis.analyze(session),
+      this.quoteAnswers(session.answers),
+    ]);
+
+    const quote = (answerIds: string[]) => answerIds
+      .map(id => quotes.get(id))
+      .filter((quoted): quoted is QuotedAnswer => !!quoted);
+
+    return {
+      reportVersion: REPORT_VERSION,
+      generatedAt: new Date().toISOString(),
+      session: {
+        sessionId: session.sessionId,
+        userId: session.userId,
+        currentStage: session.currentStage,
+        startedAt: session.startedAt,
+        lastActiveAt: session.lastActiveAt,
+        completedStages: session.completedStages,
+      },
+      prompts: this.registry.list()
+        .map(template => ({ id: template.id, version: template.version }))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+      analysis: {
+        ...analysis,
+        strengths: analysis.strengths.map(strength => ({ ...strength, quotes: quote(strength.exampleAnswerIds) })),
+        growthAreas: analysis.growthAreas.map(area => ({ ...area, quotes: quote(area.exampleAnswerIds) })),
+      },
+      contradictions: this.history(session, quotes),
+    };
+  }
+
+  /**
+   * Pair every answer version with the text of the question it answers
+   */
+  private async quoteAnswers(answers: SessionAnswer[]): Promise<Map<string, QuotedAnswer>> {
+    const questionIds = Array.from(new Set(answers.map(answer => answer.questionId)));
+    const questions = await Promise.all(questionIds.map(id => this.questions.findById(id)));
+    const questionText = new Map(questionIds.map((id, index) => [id, questions[index]?.text ?? '']));
+
+    return new Map(answers.map(answer => [answer.answerId, {
+      answerId: answer.answerId,
+      questionId: answer.questionId,
+      question: questionText.get(answer.questionId) ?? '',
+      text: answer.text,
+      stage: answer.stage,
+      timestamp: answer.timestamp,
+    }]));
+  }
+
+  private history(session: UserSession, quotes: Map<string, QuotedAnswer>): ReportContradiction[] {
+    const quoted = (ids: Array<string | undefined>) => ids
+      .map(id => (id ? quotes.get(id) : undefined))
+      .filter((quote): quote is QuotedAnswer => !!quote);
+
+    return [...session.contradictions]
+      .sort((a, b) => a.detectedAt.localeCompare(b.detectedAt))
+      .map((contradiction: SessionContradiction): ReportContradiction => {
+        const { resolution } = contradiction;
+        return {
+          id: contradiction.id,
+          explanation: contradiction.explanation,
+          detectedAt: contradiction.detectedAt,
+          answers: quoted(contradiction.relatedAnswerIds ?? contradiction.answerIds),
+          resolved: contradiction.resolved,
+          resolution: resolution && {
+            type: resolution.newAnswerId ? 'revision' : 'explanation',
+            explanation: resolution.explanation,
+            timestamp: resolution.timestamp,
+            revisedFrom: quoted([resolution.overwrittenAnswerId])[0],
+            revisedTo: quoted([resolution.newAnswerId])[0],
+          },
+        };
+      });
+  }
+}
+
+// Export a singleton instance
+export const reportGenerator = new ReportGenerator();
@@ -0,0 +1,79 @@
+// src/lib/core/session-events.ts
+
+import { EventEmitter } from 'events';
+import { SessionEvent } from '../types';
+import { appendSessionEvent, findSessionEvents, findSessionIdForUser } from '../graph/queries/session';
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+/**
+ * In-process publish/subscribe for session events.
+ * Every event is first appended to the session's log in the graph, which assigns
+ * its sequence number, then delivered to live subscribers in this process.
+ * Subscribers that connect late (or reconnect) replay the log from a sequence number.
+ */
+export class SessionEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open event stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Log and deliver an event.
+   * Publishing is best-effort: the change the event describes has already been
+   * made, so a failure to log it is reported and null is returned.
+   */
+  async publish(sessionId: string, type: SessionEvent['type'], data: unknown): Promise<SessionEvent | null> {
+    try {
+      const event = await appendSessionEvent({
+        type,
+        sessionId,
+        timestamp: new Date().toISOString(),
+        data,
+      });
+      if (event) {
+        this.emitter.emit(sessionId, event);
+      }
+      return event;
+    } catch (error) {
+      console.error(`Failed to publish ${type} for session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Publish to a user's session, for callers that only know the user.
+   * Does nothing if the user has no session.
+   */
+  async publishForUser(userId: string, type: SessionEvent['type'], data: unknown): Promise<SessionEvent | null> {
+    try {
+      const sessionId = await findSessionIdForUser(userId);
+      return sessionId ? this.publish(sessionId, type, data) : null;
+    } catch (error) {
+      console.error(`Failed to publish ${type} for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Receive a session's events as they are published. Returns an unsubscribe function.
+   */
+  subscribe(sessionId: string, listener: SessionEventListener): () => void {
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+
+  /**
+   * Get a session's logged events after a sequence number, in order
+   */
+  async replay(sessionId: string, afterSeq = 0): Promise<SessionEvent[]> {
+    return findSessionEvents(sessionId, afterSeq);
+  }
+}
+
+// Export a singleton instance
+export const sessionEvents = new SessionEventBus();
@@ -0,0 +1,409 @@
+// src/lib/core/session-manager.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AnswerNode,
+  ErrorCode,
+  SessionAnalysis,
+  SessionAnswer,
+  SessionContradiction,
+  SessionNode,
+  SessionOperations,
+  UserSession,
+} from '../types';
+import { createAnswer, findAnswer } from '../graph/queries/answer';
+import { createContradiction, findContradiction, markContradictionResolved } from '../graph/queries/contradiction';
+import {
+  ContradictionEdge,
+  createSession,
+  findContradictionEdges,
+  findSession,
+  findSessionAnswers,
+  updateSession,
+} from '../graph/queries/session';
+import { findFirstStage, findPrecedingStageNumbers } from '../graph/queries/stage';
+import { ContradictionAnalyzer, contradictionAnalyzer } from '../llm/contradiction-analyzer';
+import { FrameworkAnalyzer, frameworkAnalyzer } from '../llm/framework-analyzer';
+import { AnalysisEngine, analysisEngine } from './analysis-engine';
+import { ContradictionResolver, contradictionResolver } from './contradiction-resolver';
+import { LogicEngine, logicEngine } from './logic-engine';
+import { PrincipleExtractor, principleExtractor } from './principle-extractor';
+import { SessionEventBus, sessionEvents } from './session-events';
+import { StageProgressionEngine, stageProgression } from './stage-progression';
+
+/**
+ * Session fields that update() may set directly; everything else is rebuilt from the graph
+ */
+const UPDATABLE_FIELDS: Array<keyof UserSession> = ['lastActiveAt', 'analysis'];
+
+/**
+ * Manages user sessions stored in the graph.
+ * Only the stage, timestamps and last analysis live on the Session node; answers,
+ * contradictions and completed stages are rebuilt from Answer, CONTRADICTS and Stage
+ * nodes on every read, so the graph stays the single source of truth.
+ * Every change is published to the session's event stream.
+ */
+export class SessionManager implements SessionOperations {
+  private resolver: ContradictionResolver;
+  private stages: StageProgressionEngine;
+  private analysis: AnalysisEngine;
+  private analyzer: ContradictionAnalyzer;
+  private logic: LogicEngine;
+  private extractor: PrincipleExtractor;
+  private frameworks: FrameworkAnalyzer;
+  private events: SessionEventBus;
+
+  constructor(
+    resolver: ContradictionResolver = contradictionResolver,
+    stages: StageProgressionEngine = stageProgression,
+    analysis: AnalysisEngine = analysisEngine,
+    analyzer: ContradictionAnalyzer = contradictionAnalyzer,
+    logic: LogicEngine = logicEngine,
+    extractor: PrincipleExtractor = principleExtractor,
+    frameworks: FrameworkAnalyzer = frameworkAnalyzer,
+    events: SessionEventBus = sessionEvents
+  ) {
+    this.resolver = resolver;
+    this.stages = stages;
+    this.analysis = analysis;
+    this.analyzer = analyzer;
+    this.logic = logic;
+    this.extractor = extractor;
+    this.frameworks = frameworks;
+    this.events = events;
+  }
+
+  /**
+   * Start a session at the first stage, or return the user's existing session
+   */
+  async create(userId: string): Promise<UserSession> {
+    const firstStage = await findFirstStage();
+    if (!firstStage) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: 'No stages found; run npm run db:init before creating sessions',
+      };
+    }
+
+    const now = new Date().toISOString();
+    const node = await createSession({
+      id: uuidv4(),
+      userId,
+      currentStage: firstStage.stageNumber,
+      startedAt: now,
+      lastActiveAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return this.load(node);
+  }
+
+  /**
+   * Get a session, or null if it does not exist
+   */
+  async get(sessionId: string): Promise<UserSession | null> {
+    const node = await findSession(sessionId);
+    return node ? this.load(node) : null;
+  }
+
+  /**
+   * Update the fields stored on the session itself.
+   * Answers, contradictions and stages change through their own operations.
+   */
+  async update(sessionId: string, data: Partial<UserSession>): Promise<UserSession> {
+    const derived = (Object.keys(data) as Array<keyof UserSession>)
+      .filter(field => !UPDATABLE_FIELDS.includes(field) && field !== 'sessionId' && field !== 'userId');
+    if (derived.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `${derived.join(', ')} cannot be updated directly; they are derived from the graph`,
+        details: { fields: derived },
+      };
+    }
+
+    await this.requireSession(sessionId);
+    return this.load(await this.touch(sessionId, {
+      lastActiveAt: data.lastActiveAt,
+      analysis: data.analysis ? JSON.stringify(data.analysis) : undefined,
+    }));
+  }
+
+  /**
+   * Record a new answer to a question.
+   * Contradiction detection runs in the background; its results arrive as
+   * CONTRADICTION_DETECTED events. Answers are revised through resolveContradiction,
+   * not added as modified.
+   */
+  async addAnswer(sessionId: string, answer: SessionAnswer): Promise<UserSession> {
+    const session = await this.requireSession(sessionId);
+    if (answer.modified || answer.previousVersionId) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: 'Revised answers are created by resolving a contradiction',
+      };
+    }
+
+    const now = new Date().toISOString();
+    const node: AnswerNode = {
+      id: answer.answerId || uuidv4(),
+      text: answer.text,
+      userId: session.userId,
+      timestamp: answer.timestamp || now,
+      modified: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (!await createAnswer(node, answer.questionId)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Question ${answer.questionId} not found`,
+      };
+    }
+
+    const updated = await this.load(await this.touch(sessionId));
+    await this.events.publish(sessionId, 'ANSWER_ADDED', {
+      answer: updated.answers.find(added => added.answerId === node.id),
+    });
+    this.detectInBackground(node.id, session.userId);
+    return updated;
+  }
+
+  /**
+   * Record a contradiction between two of the session's answers
+   */
+  async addContradiction(sessionId: string, contradiction: SessionContradiction): Promise<UserSession> {
+    const session = await this.requireSession(sessionId);
+
+    const answers = await Promise.all(contradiction.answerIds.map(id => findAnswer(id)));
+    if (answers.some(answer => !answer || answer.userId !== session.userId)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: 'Both answers must belong to the session',
+        details: { answerIds: contradiction.answerIds },
+      };
+    }
+    if (contradiction.id && await findContradiction(contradiction.id)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Contradiction ${contradiction.id} already exists`,
+      };
+    }
+
+    const id = contradiction.id || uuidv4();
+    await createContradiction(contradiction.answerIds[0], contradiction.answerIds[1], {
+      id,
+      explanation: contradiction.explanation,
+      resolved: false,
+      confidence: 1,
+      kind: 'pairwise',
+      createdAt: contradiction.detectedAt || new Date().toISOString(),
+    });
+
+    const updated = await this.load(await this.touch(sessionId));
+    await this.events.publish(sessionId, 'CONTRADICTION_DETECTED', {
+      kind: 'pairwise',
+      contradiction: updated.contradictions.find(added => added.id === id),
+    });
+    return updated;
+  }
+
+  /**
+   * Resolve one of the session's contradictions.
+   * A resolution naming a new answer must refer to an existing revision of one of
+   * the contradicting answers; anything else is resolved by explanation.
+   */
+  async resolveContradiction(
+    sessionId: string,
+    contradictionId: string,
+    resolution: SessionContradiction['resolution']
+  ): Promise<UserSession> {
+    const session = await this.requireSession(sessionId);
+
+    const contradiction = await findContradiction(contradictionId);
+    if (!contradiction || contradiction.userId !== session.userId) {
+      throw {
+        code: ErrorCode.CONTRADICTION_NOT_FOUND,
+        message: `Contradiction ${contradictionId} not found in session ${sessionId}`,
+      };
+    }
+    if (!resolution?.explanation?.trim()) {
+      throw {
+        code: ErrorCode.MISSING_REQUIRED_FIELD,
+        message: 'A resolution explanation is required',
+      };
+    }
+
+    if (resolution.newAnswerId) {
+      const revision = await findAnswer(resolution.newAnswerId);
+      const overwritten = resolution.overwrittenAnswerId;
+      if (!overwritten || !contradiction.answerIds.includes(overwritten) || revision?.previousVersion !== overwritten) {
+        throw {
+          code: ErrorCode.INVALID_INPUT,
+          message: `Answer ${resolution.newAnswerId} is not a revision of an answer in contradiction ${contradictionId}`,
+        };
+      }
+      if (contradiction.properties.resolved) {
+        throw {
+          code: ErrorCode.INVALID_INPUT,
+          message: `Contradiction ${contradictionId} is already resolved`,
+        };
+      }
+
+      const recorded = { ...resolution, timestamp: resolution.timestamp || new Date().toISOString() };
+      await markContradictionResolved(contradictionId, {
+        resolutionType: 'revision',
+        resolutionExplanation: recorded.explanation,
+        resolutionTimestamp: recorded.timestamp,
+        overwrittenAnswerId: overwritten,
+        newAnswerId: recorded.newAnswerId,
+      });
+      await this.events.publish(sessionId, 'CONTRADICTION_RESOLVED', { contradictionId, resolution: recorded });
+    } else {
+      // The resolver publishes CONTRADICTION_RESOLVED itself
+      await this.resolver.resolve({
+        type: 'explanation',
+        contradictionId,
+        explanation: resolution.explanation,
+      });
+    }
+
+    return this.load(await this.touch(sessionId));
+  }
+
+  /**
+   * Move the session to the next stage, subject to the stage progression rules.
+   * targetStage, if given, must be that next stage.
+   */
+  async advanceStage(sessionId: string, targetStage?: number): Promise<UserSession> {
+    const session = await this.requireSession(sessionId);
+    const next = await this.stages.advance(session.userId, session.currentStage, targetStage);
+    const updated = await this.load(await this.touch(sessionId, { currentStage: next.stageNumber }));
+    await this.events.publish(sessionId, 'STAGE_ADVANCED', {
+      fromStage: session.currentStage,
+      toStage: next.stageNumber,
+      stageName: next.name,
+    });
+    return updated;
+  }
+
+  /**
+   * Analyze the session and store the result on it
+   */
+  async generateAnalysis(sessionId: string): Promise<SessionAnalysis> {
+    const session = await this.load(await this.requireSession(sessionId));
+    const analysis = await this.analysis.analyze(session);
+    await this.touch(sessionId, { analysis: JSON.stringify(analysis) });
+    await this.events.publish(sessionId, 'ANALYSIS_COMPLETED', { analysis });
+    return analysis;
+  }
+
+  /**
+   * Extract principles from a new answer and score it and any new principles
+   * against the frameworks, then run pairwise and implied contradiction detection,
+   * without blocking the caller. Principles and framework alignments go first
+   * because the detectors use them. The analyzers publish what they find.
+   */
+  private detectInBackground(answerId: string, userId: string): void {
+    void (async () => {
+      await this.extractor.extractForAnswer(answerId, userId);
+      await this.frameworks.scoreUnscored(userId);
+      await this.analyzer.detectForAnswer(answerId, userId);
+      await this.logic.checkAnswer(answerId, userId);
+    })().catch(error => {
+      console.error(`Background contradiction detection failed for answer ${answerId}:`, error);
+    });
+  }
+
+  private async requireSession(sessionId: string): Promise<SessionNode> {
+    const node = await findSession(sessionId);
+    if (!node) {
+      throw {
+        code: ErrorCode.SESSION_NOT_FOUND,
+        message: `Session ${sessionId} not found`,
+      };
+    }
+    return node;
+  }
+
+  /**
+   * Mark the session active now, along with any other stored changes
+   */
+  private async touch(
+    sessionId: string,
+    changes: Partial<Pick<SessionNode, 'currentStage' | 'analysis' | 'lastActiveAt'>> = {}
+  ): Promise<SessionNode> {
+    const now = new Date().toISOString();
+    const node = await updateSession(sessionId, { lastActiveAt: now, ...changes, updatedAt: now });
+    if (!node) {
+      throw {
+        code: ErrorCode.SESSION_NOT_FOUND,
+        message: `Session ${sessionId} not found`,
+      };
+    }
+    return node;
+  }
+
+  /**
+   * Rebuild the full session from the graph
+   */
+  private async load(node: SessionNode): Promise<UserSession> {
+    const [answers, edges, completedStages] = await Promise.all([
+      findSessionAnswers(node.userId),
+      findContradictionEdges(node.userId),
+      findPrecedingStageNumbers(node.currentStage),
+    ]);
+
+    const contradictions = this.groupContradictions(edges);
+
+    return {
+      sessionId: node.id,
+      userId: node.userId,
+      currentStage: node.currentStage,
+      startedAt: node.startedAt,
+      lastActiveAt: node.lastActiveAt,
+      answers,
+      contradictions,
+      resolvedContradictions: contradictions.filter(contradiction => contradiction.resolved).length,
+      completedStages,
+      analysis: node.analysis ? JSON.parse(node.analysis) as SessionAnalysis : undefined,
+    };
+  }
+
+  /**
+   * Implied contradictions are stored as several edges sharing one ID; fold them into one entry
+   */
+  private groupContradictions(edges: ContradictionEdge[]): SessionContradiction[] {
+    const byId = new Map<string, SessionContradiction>();
+
+    for (const edge of edges) {
+      if (byId.has(edge.id)) {
+        continue;
+      }
+
+      const properties = edge.properties;
+      byId.set(edge.id, {
+        id: edge.id,
+        questionIds: [edge.startQuestionId ?? '', edge.endQuestionId ?? ''],
+        answerIds: [edge.startAnswerId, edge.endAnswerId],
+        explanation: properties.explanation,
+        relatedAnswerIds: properties.kind === 'implied' ? properties.answerIds : undefined,
+        resolved: properties.resolved,
+        resolution: properties.resolved
+          ? {
+              explanation: properties.resolutionExplanation ?? '',
+              overwrittenAnswerId: properties.overwrittenAnswerId,
+              newAnswerId: properties.newAnswerId,
+              timestamp: properties.resolutionTimestamp ?? '',
+            }
+          : undefined,
+        detectedAt: properties.createdAt ?? '',
+      });
+    }
+
+    return Array.from(byId.values());
+  }
+}
+
+// Export a singleton instance
+export const sessionManager = new SessionManager();
@@ -0,0 +1,160 @@
+// src/lib/core/stage-progression.ts
+
+import {
+  Constants,
+  ErrorCode,
+  StageBlocker,
+  StageNode,
+  StageProgress,
+  StageProgressionCheck,
+} from '../types';
+import { findUserOpenContradictionIds } from '../graph/queries/contradiction';
+import { findNextStage, findStage, findStageActivity, StageActivity } from '../graph/queries/stage';
+
+/**
+ * State machine for moving a user through Kohlberg's stages.
+ * Stages advance one at a time along FOLLOWS edges, and only once the current
+ * stage has enough answers and none of the user's contradictions, from any stage,
+ * is unresolved.
+ */
+export class StageProgressionEngine {
+  /**
+   * Compute progress for every stage relative to the user's current stage
+   */
+  async getProgress(userId: string, currentStage: number): Promise<StageProgress[]> {
+    const activity = await findStageActivity(userId);
+    return activity.map(stageActivity => this.toProgress(stageActivity, currentStage));
+  }
+
+  /**
+   * Check whether the user may move from their current stage to the target stage
+   * (by default the stage that FOLLOWS it), listing every rule that blocks the move
+   */
+  async evaluate(userId: string, currentStage: number, targetStage?: number): Promise<StageProgressionCheck> {
+    const blockers: StageBlocker[] = [];
+
+    const stage = await findStage(currentStage);
+    if (!stage) {
+      blockers.push({
+        reason: 'STAGE_NOT_FOUND',
+        message: `Stage ${currentStage} does not exist`,
+        details: { stage: currentStage },
+      });
+      return { allowed: false, fromStage: currentStage, blockers };
+    }
+
+    const next = await findNextStage(currentStage);
+    if (!next) {
+      blockers.push({
+        reason: 'FINAL_STAGE',
+        message: `Stage ${currentStage} is the final stage`,
+        details: { stage: currentStage },
+      });
+      return { allowed: false, fromStage: currentStage, blockers };
+    }
+
+    if (targetStage !== undefined && targetStage !== next.stageNumber) {
+      blockers.push({
+        reason: 'NOT_NEXT_STAGE',
+        message: `Stage ${targetStage} does not follow stage ${currentStage}; the next stage is ${next.stageNumber}`,
+        details: { requested: targetStage, next: next.stageNumber },
+      });
+    }
+
+    const activity = (await findStageActivity(userId)).find(row => row.stage === currentStage);
+    const progress = this.toProgress(
+      activity || {
+        stage: currentStage,
+        requiredAnswers: stage.requiredAnswers,
+        questionsAnswered: 0,
+        contradictionsFound: 0,
+        contradictionsResolved: 0,
+      },
+      currentStage
+    );
+
+    if (progress.questionsAnswered < progress.requiredQuestions) {
+      const lowConsistency = this.isLowConsistency(progress.averageConsistency, progress.questionsAnswered);
+      blockers.push({
+        reason: lowConsistency ? 'LOW_CONSISTENCY' : 'INSUFFICIENT_ANSWERS',
+        message: lowConsistency
+          ? `Stage ${currentStage} consistency is ${progress.averageConsistency.toFixed(2)}; `
+            + `answer ${progress.requiredQuestions - progress.questionsAnswered} more question(s) to continue`
+          : `Answer ${progress.requiredQuestions - progress.questionsAnswered} more question(s) to complete stage ${currentStage}`,
+        details: {
+          answered: progress.questionsAnswered,
+          required: progress.requiredQuestions,
+          consistency: progress.averageConsistency,
+        },
+      });
+    }
+
+    // Background detection can find contradictions between earlier stages' answers
+    // after the user has moved on, so every open one blocks, not just this stage's
+    const unresolved = await findUserOpenContradictionIds(userId);
+    if (unresolved.length > 0) {
+      blockers.push({
+        reason: 'UNRESOLVED_CONTRADICTIONS',
+        message: `Resolve ${unresolved.length} contradiction(s) before advancing`,
+        details: { unresolved: unresolved.length, contradictionIds: unresolved },
+      });
+    }
+
+    return {
+      allowed: blockers.length === 0,
+      fromStage: currentStage,
+      toStage: next.stageNumber,
+      blockers,
+    };
+  }
+
+  /**
+   * Advance to the next stage, failing with INVALID_STAGE_PROGRESSION when a rule blocks it
+   */
+  async advance(userId: string, currentStage: number, targetStage?: number): Promise<StageNode> {
+    const check = await this.evaluate(userId, currentStage, targetStage);
+    if (!check.allowed || check.toStage === undefined) {
+      throw {
+        code: ErrorCode.INVALID_STAGE_PROGRESSION,
+        message: check.blockers.map(blocker => blocker.message).join('; '),
+        details: {
+          reasons: check.blockers.map(blocker => blocker.reason),
+          blockers: check.blockers,
+        },
+      };
+    }
+
+    return (await findNextStage(currentStage)) as StageNode;
+  }
+
+  private toProgress(activity: StageActivity, currentStage: number): StageProgress {
+    // Each contradiction found lowers the stage's consistency, even once resolved
+    const averageConsistency = activity.questionsAnswered > 0
+      ? Math.max(0, 1 - activity.contradictionsFound / activity.questionsAnswered)
+      : 1;
+
+    const baseRequirement = Math.max(activity.requiredAnswers || 0, Constants.MIN_ANSWERS_PER_STAGE);
+    const requiredQuestions = this.isLowConsistency(averageConsistency, activity.questionsAnswered)
+      ? baseRequirement + Constants.LOW_CONSISTENCY_EXTRA_ANSWERS
+      : baseRequirement;
+
+    return {
+      stage: activity.stage,
+      status: activity.stage < currentStage ? 'completed'
+        : activity.stage === currentStage ? 'in_progress'
+        : 'not_started',
+      questionsAnswered: activity.questionsAnswered,
+      requiredQuestions,
+      contradictionsFound: activity.contradictionsFound,
+      contradictionsResolved: activity.contradictionsResolved,
+      averageConsistency: Math.round(averageConsistency * 100) / 100,
+    };
+  }
+
+  private isLowConsistency(consistency: number, answered: number): boolean {
+    return answered > 0 && consistency < Constants.MIN_STAGE_CONSISTENCY;
+  }
+}
+
+// Export a singleton instance
+export const stageProgression = new StageProgressionEngine();
@@ -0,0 +1,329 @@
+// src/lib/core/user-data.ts
+
+import {
+  BaseNode,
+  ErrorCode,
+  GraphNode,
+  GraphRelationship,
+  NodeRef,
+  NodeType,
+  RELATIONSHIP_TYPES,
+  RelationshipType,
+} from '../types';
+import { GraphStore, graphStore } from '../graph/graph-store';
+import { answerRepository } from '../graph/nodes/answer';
+import { principleRepository } from '../graph/nodes/principle';
+import { questionRepository } from '../graph/nodes/question';
+import { NodeRepository } from '../graph/nodes/repository';
+import { LLMResponseCache, llmCache } from '../llm/cache';
+import { assertValid, formatIssues, Schema, schema, ValidationIssue } from '../utils/validators';
+
+export const BUNDLE_FORMAT = 'good-faith-user-data';
+export const BUNDLE_VERSION = 1;
+
+// Labels a user owns nodes of; everything else (stages, frameworks, seed questions) is shared
+export const OWNED_LABELS = ['Session', 'SessionEvent', 'Answer', 'Principle', 'Question'] as const;
+export type OwnedLabel = typeof OWNED_LABELS[number];
+
+// Shared nodes a user's relationships may point at
+const SHARED_LABELS: NodeType[] = ['Question', 'Stage', 'Framework'];
+
+// The property naming each node's owner; session events belong to a session instead
+const OWNER_KEYS = {
+  Session: 'userId',
+  Answer: 'userId',
+  Principle: 'userId',
+  Question: 'generatedForUser',
+} as const;
+
+// Stored records are checked against the node schemas before import
+const REPOSITORIES: Partial<Record<OwnedLabel, Pick<NodeRepository<BaseNode>, 'parse'>>> = {
+  Answer: answerRepository,
+  Principle: principleRepository,
+  Question: questionRepository,
+};
+
+/**
+ * Every node and relationship owned by or derived from one user, as portable JSON.
+ * Relationships to shared nodes are kept and point at them by label and id, so a
+ * bundle re-imports into any database seeded with the same data.
+ */
+export interface UserDataBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  userId: string;
+  nodes: Array<{ label: OwnedLabel; properties: Record<string, unknown> }>;
+  relationships: Array<{ type: RelationshipType; start: NodeRef; end: NodeRef; properties: Record<string, unknown> }>;
+}
+
+/**
+ * What an import or delete touched
+ */
+export interface UserDataSummary {
+  userId: string;
+  nodes: Partial<Record<OwnedLabel, number>>;
+  relationships: number;
+  cacheEntries?: number; // Cached LLM responses removed; deletes only
+}
+
+interface OwnedNode {
+  label: OwnedLabel;
+  node: GraphNode;
+}
+
+type PropertyValue = string | number | boolean | Array<string | number | boolean>;
+
+/**
+ * Property maps as Neo4j stores them: flat, with primitive or primitive-array values
+ */
+const propertiesSchema: Schema<Record<string, PropertyValue>> = {
+  validate(value, path = '$') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return [{ path, message: 'expected object' }];
+    }
+    const primitive = (item: unknown) => ['string', 'number', 'boolean'].includes(typeof item);
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => !(primitive(item) || (Array.isArray(item) && item.every(primitive))))
+      .map(([key]) => ({ path: `${path}.${key}`, message: 'must be a string, number, boolean or array of them' }));
+  },
+};
+
+const nodeRefSchema = schema.object({
+  label: schema.oneOf<NodeType>([...OWNED_LABELS, ...SHARED_LABELS]),
+  id: schema.string({ minLength: 1 }),
+});
+
+export const userDataBundleSchema: Schema<UserDataBundle> = schema.object({
+  format: schema.oneOf([BUNDLE_FORMAT] as const),
+  version: schema.number({ integer: true, min: BUNDLE_VERSION, max: BUNDLE_VERSION }) as Schema<typeof BUNDLE_VERSION>,
+  exportedAt: schema.string({ minLength: 1 }),
+  userId: schema.string({ minLength: 1 }),
+  nodes: schema.array(schema.object({
+    label: schema.oneOf(OWNED_LABELS),
+    properties: propertiesSchema,
+  })),
+  relationships: schema.array(schema.object({
+    type: schema.oneOf(RELATIONSHIP_TYPES),
+    start: nodeRefSchema,
+    end: nodeRefSchema,
+    properties: propertiesSchema,
+  })),
+});
+
+/**
+ * Exports, imports and deletes everything belonging to one user.
+ * Answers, generated questions, principles, sessions and their event logs are owned by
+ * the user; their relationships (ANSWERS, PRECEDES, CONTRADICTS, MODIFIES, ALIGNS_WITH,
+ * BELONGS_TO) go with them. Shared seed data is never modified.
+ */
+export class UserDataManager {
+  private store: GraphStore;
+  private cache: LLMResponseCache | null;
+
+  constructor(store: GraphStore = graphStore, cache: LLMResponseCache | null = llmCache) {
+    this.store = store;
+    this.cache = cache;
+  }
+
+  async export(userId: string): Promise<UserDataBundle> {
+    return this.store.transaction(async store => {
+      const owned = await this.findOwned(store, userId);
+      const relationships = await this.findRelationships(store, owned);
+      return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        userId,
+        nodes: owned.map(({ label, node }) => ({ label, properties: node.properties })),
+        relationships,
+      };
+    }, { accessMode: 'READ' });
+  }
+
+  /**
+   * Recreate a user's data from a bundle.
+   * The user must have no data yet, every node must belong to the bundle's user, and
+   * relationships may only reach shared nodes that already exist. Nothing is written
+   * unless the whole bundle imports.
+   */
+  async import(input: unknown): Promise<UserDataSummary> {
+    const bundle = assertValid(input, userDataBundleSchema, 'user data bundle');
+    this.assertOwnership(bundle);
+
+    return this.store.transaction(async store => {
+      if ((await this.findOwned(store, bundle.userId)).length > 0) {
+        throw {
+          code: ErrorCode.INVALID_INPUT,
+          message: `User ${bundle.userId} already has data; delete it before importing`,
+        };
+      }
+      await this.assertSharedNodesExist(store, bundle);
+
+      for (const { label, properties } of bundle.nodes) {
+        await store.createNode([label], properties);
+      }
+
+      // Batch relationships that share a type and endpoint labels
+      const batches = new Map<string, UserDataBundle['relationships']>();
+      bundle.relationships.forEach(relationship => {
+        const key = `${relationship.type}:${relationship.start.label}:${relationship.end.label}`;
+        batches.set(key, [...(batches.get(key) ?? []), relationship]);
+      });
+      for (const batch of batches.values()) {
+        const [{ type, start, end }] = batch;
+        await store.createRelationships(type, start.label, end.label, batch.map(relationship => ({
+          start: relationship.start.id,
+          end: relationship.end.id,
+          properties: relationship.properties,
+        })));
+      }
+
+      return {
+        userId: bundle.userId,
+        nodes: countByLabel(bundle.nodes.map(node => node.label)),
+        relationships: bundle.relationships.length,
+      };
+    });
+  }
+
+  /**
+   * Delete a user's nodes with all their relationships, then their cached LLM responses
+   */
+  async delete(userId: string): Promise<UserDataSummary> {
+    const summary = await this.store.transaction(async store => {
+      const owned = await this.findOwned(store, userId);
+      const relationships = await this.findRelationships(store, owned);
+      for (const { label, node } of owned) {
+        await store.deleteNode(label, node.id);
+      }
+      return {
+        userId,
+        nodes: countByLabel(owned.map(({ label }) => label)),
+        relationships: relationships.length,
+      };
+    });
+
+    const cacheEntries = this.cache ? await this.cache.deleteByUser(userId) : 0;
+    return { ...summary, cacheEntries };
+  }
+
+  private async findOwned(store: GraphStore, userId: string): Promise<OwnedNode[]> {
+    // Queries within a transaction run one at a time
+    const sessions = await store.findNodes('Session', { userId });
+    const events: GraphNode[] = [];
+    for (const session of sessions) {
+      events.push(...await store.findNodes('SessionEvent', { sessionId: session.id }));
+    }
+    const questions = await store.findNodes('Question', { generatedForUser: userId });
+    const answers = await store.findNodes('Answer', { userId });
+    const principles = await store.findNodes('Principle', { userId });
+
+    const tag = (label: OwnedLabel) => (node: GraphNode): OwnedNode => ({ label, node });
+    return [
+      ...sessions.map(tag('Session')),
+      ...events.map(tag('SessionEvent')),
+      ...questions.map(tag('Question')),
+      ...answers.map(tag('Answer')),
+      ...principles.map(tag('Principle')),
+    ];
+  }
+
+  /**
+   * Every relationship touching an owned node, each once
+   */
+  private async findRelationships(store: GraphStore, owned: OwnedNode[]): Promise<UserDataBundle['relationships']> {
+    const found = new Map<string, UserDataBundle['relationships'][number]>();
+
+    for (const { label, node } of owned) {
+      const paths = await store.traverse({ label, id: node.id }, { maxDepth: 1, direction: 'both' });
+      for (const path of paths) {
+        const relationship: GraphRelationship = path.relationships[0];
+        const [self, other] = path.nodes;
+        const startNode = relationship.start === self.id ? self : other;
+        const endNode = startNode === self ? other : self;
+        found.set(relationship.elementId, {
+          type: relationship.type,
+          start: { label: ownedLabelOf(startNode, label), id: startNode.id },
+          end: { label: ownedLabelOf(endNode, label), id: endNode.id },
+          properties: relationship.properties,
+        });
+      }
+    }
+    return Array.from(found.values());
+  }
+
+  private assertOwnership(bundle: UserDataBundle): void {
+    const issues: ValidationIssue[] = [];
+    const sessionIds = new Set(bundle.nodes.filter(node => node.label === 'Session').map(node => node.properties.id));
+
+    bundle.nodes.forEach(({ label, properties }, index) => {
+      const path = `$.nodes[${index}]`;
+      if (label === 'SessionEvent') {
+        if (!sessionIds.has(properties.sessionId as string)) {
+          issues.push({ path, message: 'belongs to a session not in the bundle' });
+        }
+      } else if (properties[OWNER_KEYS[label]] !== bundle.userId) {
+        issues.push({ path, message: `${OWNER_KEYS[label]} must be ${bundle.userId}` });
+      }
+
+      try {
+        REPOSITORIES[label]?.parse(properties);
+      } catch (error) {
+        (error as { details?: { issues?: ValidationIssue[] } }).details?.issues
+          ?.forEach(issue => issues.push({ path: `${path}.properties${issue.path.slice(1)}`, message: issue.message }));
+      }
+    });
+
+    if (issues.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Invalid user data bundle: ${formatIssues(issues)}`,
+        details: { issues },
+      };
+    }
+  }
+
+  /**
+   * Relationship endpoints outside the bundle must be shared nodes already in the store
+   */
+  private async assertSharedNodesExist(store: GraphStore, bundle: UserDataBundle): Promise<void> {
+    const inBundle = new Set(bundle.nodes.map(node => `${node.label}:${node.properties.id}`));
+    const external = new Map<string, NodeRef>();
+    bundle.relationships.forEach(({ start, end }) => [start, end]
+      .filter(ref => !inBundle.has(`${ref.label}:${ref.id}`))
+      .forEach(ref => external.set(`${ref.label}:${ref.id}`, ref)));
+
+    const missing: string[] = [];
+    for (const [key, ref] of external) {
+      if (!SHARED_LABELS.includes(ref.label) || !await store.findNodeById(ref.label, ref.id)) {
+        missing.push(key);
+      }
+    }
+    if (missing.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Bundle relationships reference ${missing.length} node(s) that are neither in the bundle nor shared`,
+        details: { missing },
+      };
+    }
+  }
+}
+
+/**
+ * The label to address a node by: the owned label it was found under, else its first label
+ */
+function ownedLabelOf(node: GraphNode, ownedLabel: OwnedLabel): NodeType {
+  return node.labels.includes(ownedLabel) ? ownedLabel : node.labels[0];
+}
+
+function countByLabel(labels: OwnedLabel[]): Partial<Record<OwnedLabel, number>> {
+  const counts: Partial<Record<OwnedLabel, number>> = {};
+  labels.forEach(label => {
+    counts[label] = (counts[label] ?? 0) + 1;
+  });
+  return counts;
+}
+
+// Export a singleton instance
+export const userDataManager = new UserDataManager();
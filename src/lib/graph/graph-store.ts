@@ -0,0 +1,123 @@
+// src/lib/graph/graph-store.ts
+
+import {
+  ErrorCode,
+  GraphNode,
+  GraphRelationship,
+  NodeRef,
+  NodeType,
+  Path,
+  RelationshipType,
+  TraversalOptions,
+} from '../types';
+import { MemoryGraphStore } from './memory-store';
+import { neo4jClient } from './neo4j-client';
+import type { NodePropertyKey, NodeQuery } from './query-builder';
+import { loadSeedData, seedGraph } from './seed';
+
+/**
+ * Which relationships findRelationships and updateRelationships act on.
+ * Only the filters of the node queries apply; their ordering and paging are ignored.
+ */
+export interface RelationshipMatch {
+  start?: NodeQuery<NodeType>;
+  end?: NodeQuery<NodeType>;
+  properties?: Record<string, unknown>; // Equality filters on the relationship itself
+}
+
+/**
+ * Storage operations on nodes and relationships, addressed by label and application id.
+ * Neo4jClient implements it against the database and MemoryGraphStore in process;
+ * scripts/test-graph-store.ts checks that both behave the same.
+ */
+export interface GraphStore {
+  connect(): Promise<void>;
+  ensureConnected(): Promise<void>;
+  close(): Promise<void>;
+
+  createNode(labels: NodeType[], properties: Record<string, unknown>): Promise<GraphNode>;
+  findNodeById(label: NodeType, id: string): Promise<GraphNode | null>;
+  findNodes<L extends NodeType>(label: L, properties?: Partial<Record<NodePropertyKey<L>, unknown>>): Promise<GraphNode[]>;
+  select<L extends NodeType>(query: NodeQuery<L>): Promise<GraphNode[]>;
+  updateNode(label: NodeType, id: string, properties: Record<string, unknown>): Promise<GraphNode>;
+
+  /**
+   * Add one to a numeric property, counting a missing value as 0, and return the new value.
+   * Concurrent callers never get the same value. Returns null if the node does not exist.
+   */
+  incrementProperty<L extends NodeType>(label: L, id: string, key: NodePropertyKey<L>): Promise<number | null>;
+  deleteNode(label: NodeType, id: string): Promise<void>;
+
+  createRelationship(
+    start: NodeRef,
+    end: NodeRef,
+    type: RelationshipType,
+    properties?: Record<string, unknown>
+  ): Promise<GraphRelationship>;
+  createRelationships(
+    type: RelationshipType,
+    startLabel: NodeType,
+    endLabel: NodeType,
+    edges: Array<{ start: string; end: string; properties?: Record<string, unknown> }>
+  ): Promise<number>;
+  findRelationships(type: RelationshipType, match?: RelationshipMatch): Promise<GraphRelationship[]>;
+
+  /**
+   * Merge properties into every matching relationship (null removes one); returns the number updated
+   */
+  updateRelationships(type: RelationshipType, match: RelationshipMatch, properties: Record<string, unknown>): Promise<number>;
+  deleteRelationships(type: RelationshipType, start: NodeRef, end: NodeRef): Promise<number>;
+
+  /**
+   * Every path of 1 to maxDepth relationships from the start node, never reusing a relationship
+   */
+  traverse(start: NodeRef, options?: TraversalOptions): Promise<Path[]>;
+
+  /**
+   * Run work atomically: if it throws, none of its writes are kept
+   */
+  transaction<T>(work: (store: GraphStore) => Promise<T>, options?: { accessMode?: 'READ' | 'WRITE' }): Promise<T>;
+}
+
+/**
+ * Pick the store named by GRAPH_STORE: neo4j (the default) or memory.
+ * The in-memory store starts out holding the seed data from data/seed and keeps
+ * nothing once the process exits.
+ */
+export function createGraphStore(kind: string = process.env.GRAPH_STORE || 'neo4j'): GraphStore {
+  switch (kind) {
+    case 'neo4j':
+      return neo4jClient;
+    case 'memory':
+      return new MemoryGraphStore({ initialize: async store => {
+        await seedGraph(loadSeedData(), store);
+      } });
+    default:
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Unknown GRAPH_STORE "${kind}"; expected "neo4j" or "memory"`,
+      };
+  }
+}
+
+let instance: GraphStore | null = null;
+
+/**
+ * The application's store, created on first use so that a bad GRAPH_STORE fails
+ * the request or script using it rather than every module that imports this one
+ */
+export function getGraphStore(): GraphStore {
+  if (!instance) {
+    instance = createGraphStore();
+  }
+  return instance;
+}
+
+// Export a singleton instance; each call is forwarded to getGraphStore()
+export const graphStore: GraphStore = new Proxy({} as GraphStore, {
+  get(_target, property) {
+    const store = getGraphStore();
+    const value = Reflect.get(store, property, store);
+    return typeof value === 'function' ? value.bind(store) : value;
+  },
+});
@@ -0,0 +1,483 @@
+// src/lib/graph/memory-store.ts
+
+import {
+  ErrorCode,
+  GraphNode,
+  GraphRelationship,
+  NodeRef,
+  NodeType,
+  Path,
+  RelationshipType,
+  TraversalOptions,
+} from '../types';
+import type { GraphStore, RelationshipMatch } from './graph-store';
+import {
+  assertNodeProperties,
+  assertNodeType,
+  assertRelationshipProperties,
+  assertRelationshipType,
+  FilterOperator,
+  NodePropertyKey,
+  NodeQuery,
+  nodeQuery,
+  NodeQuerySpec,
+  resolveTraversal,
+} from './query-builder';
+
+interface StoredNode {
+  elementId: string;
+  labels: NodeType[];
+  properties: Record<string, unknown>;
+}
+
+interface StoredRelationship {
+  elementId: string;
+  type: RelationshipType;
+  start: string; // Element ids
+  end: string;
+  properties: Record<string, unknown>;
+}
+
+// Labels whose ids are unique, as the constraints in migration 0001 make them in Neo4j
+const UNIQUE_ID_LABELS: NodeType[] = ['Question', 'Answer', 'Principle', 'Framework', 'Stage', 'Session'];
+
+/**
+ * A GraphStore held in process memory, for tests and offline development.
+ * It follows Neo4j's semantics for the GraphStore operations: null properties are
+ * not stored, comparisons between different types never match, nulls sort last,
+ * and transactions roll back when their work throws. Transactions are not
+ * isolated from writes made outside them while they run.
+ */
+export class MemoryGraphStore implements GraphStore {
+  private nodes = new Map<string, StoredNode>();
+  private relationships = new Map<string, StoredRelationship>();
+  private nextElementId = 0;
+  private initialize?: (store: GraphStore) => Promise<void>;
+  private initializing: Promise<void> | null = null;
+
+  /**
+   * initialize runs once, on the first connect() or ensureConnected(), e.g. to load seed data
+   */
+  constructor(options: { initialize?: (store: GraphStore) => Promise<void> } = {}) {
+    this.initialize = options.initialize;
+  }
+
+  async connect(): Promise<void> {
+    await this.ensureConnected();
+  }
+
+  async ensureConnected(): Promise<void> {
+    if (!this.initialize) return;
+    if (!this.initializing) {
+      this.initializing = this.initialize(this).catch(error => {
+        this.initializing = null;
+        throw error;
+      });
+    }
+    await this.initializing;
+  }
+
+  async close(): Promise<void> {}
+
+  async createNode(labels: NodeType[], properties: Record<string, unknown>): Promise<GraphNode> {
+    if (labels.length === 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: 'A node needs at least one label',
+      };
+    }
+    assertNodeProperties(labels, Object.keys(properties));
+
+    const stored = storable(properties);
+    const unique = labels.find(label => UNIQUE_ID_LABELS.includes(label) && this.match(label, String(stored.id)).length > 0);
+    if (stored.id !== undefined && unique) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: `${unique} with ID ${stored.id} already exists`,
+      };
+    }
+
+    const node: StoredNode = { elementId: this.newElementId(), labels: [...labels], properties: stored };
+    this.nodes.set(node.elementId, node);
+    return toGraphNode(node);
+  }
+
+  async createRelationship(
+    start: NodeRef,
+    end: NodeRef,
+    type: RelationshipType,
+    properties: Record<string, unknown> = {}
+  ): Promise<GraphRelationship> {
+    assertNodeType(start.label);
+    assertNodeType(end.label);
+    assertRelationshipProperties(type, Object.keys(properties));
+
+    const [from] = this.match(start.label, start.id);
+    const [to] = this.match(end.label, end.id);
+    if (!from || !to) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: `Cannot create ${type}: ${start.label} ${start.id} or ${end.label} ${end.id} not found`,
+      };
+    }
+
+    return this.toGraphRelationship(this.link(type, from, to, properties));
+  }
+
+  async createRelationships(
+    type: RelationshipType,
+    startLabel: NodeType,
+    endLabel: NodeType,
+    edges: Array<{ start: string; end: string; properties?: Record<string, unknown> }>
+  ): Promise<number> {
+    assertNodeType(startLabel);
+    assertNodeType(endLabel);
+    assertRelationshipProperties(type, edges.flatMap(edge => Object.keys(edge.properties || {})));
+
+    let created = 0;
+    for (const edge of edges) {
+      for (const from of this.match(startLabel, edge.start)) {
+        for (const to of this.match(endLabel, edge.end)) {
+          this.link(type, from, to, edge.properties || {});
+          created++;
+        }
+      }
+    }
+    return created;
+  }
+
+  async findNodeById(label: NodeType, id: string): Promise<GraphNode | null> {
+    assertNodeType(label);
+    const [node] = this.match(label, id);
+    return node ? toGraphNode(node) : null;
+  }
+
+  async findNodes<L extends NodeType>(
+    label: L,
+    properties: Partial<Record<NodePropertyKey<L>, unknown>> = {}
+  ): Promise<GraphNode[]> {
+    return this.select(nodeQuery(label).whereEquals(properties));
+  }
+
+  async select<L extends NodeType>(query: NodeQuery<L>): Promise<GraphNode[]> {
+    const spec = query.spec();
+
+    let matches = Array.from(this.nodes.values()).filter(node => matchesSpec(node, spec));
+
+    if (spec.ordering.length > 0) {
+      matches = matches.sort((a, b) => {
+        for (const order of spec.ordering) {
+          const difference = compareForSort(a.properties[order.key], b.properties[order.key]);
+          if (difference !== 0) {
+            return order.direction === 'ASC' ? difference : -difference;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const from = spec.skip ?? 0;
+    const to = spec.limit === undefined ? undefined : from + spec.limit;
+    return matches.slice(from, to).map(toGraphNode);
+  }
+
+  async updateNode(label: NodeType, id: string, properties: Record<string, unknown>): Promise<GraphNode> {
+    assertNodeProperties([label], Object.keys(properties));
+
+    const matches = this.match(label, id);
+    if (matches.length === 0) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: `${label} with ID ${id} not found`,
+      };
+    }
+
+    for (const node of matches) {
+      for (const [key, value] of Object.entries(properties)) {
+        if (value === null || value === undefined) {
+          delete node.properties[key];
+        } else {
+          node.properties[key] = storable({ [key]: value })[key];
+        }
+      }
+    }
+    return toGraphNode(matches[0]);
+  }
+
+  async incrementProperty<L extends NodeType>(label: L, id: string, key: NodePropertyKey<L>): Promise<number | null> {
+    assertNodeProperties([label], [key]);
+    const [node] = this.match(label, id);
+    if (!node) {
+      return null;
+    }
+
+    const current = node.properties[key];
+    node.properties[key] = (typeof current === 'number' ? current : 0) + 1;
+    return node.properties[key] as number;
+  }
+
+  async deleteNode(label: NodeType, id: string): Promise<void> {
+    assertNodeType(label);
+    for (const node of this.match(label, id)) {
+      this.relationships.forEach((relationship, elementId) => {
+        if (relationship.start === node.elementId || relationship.end === node.elementId) {
+          this.relationships.delete(elementId);
+        }
+      });
+      this.nodes.delete(node.elementId);
+    }
+  }
+
+  async findRelationships(type: RelationshipType, match: RelationshipMatch = {}): Promise<GraphRelationship[]> {
+    return this.matchRelationships(type, match).map(relationship => this.toGraphRelationship(relationship));
+  }
+
+  async updateRelationships(
+    type: RelationshipType,
+    match: RelationshipMatch,
+    properties: Record<string, unknown>
+  ): Promise<number> {
+    assertRelationshipProperties(type, Object.keys(properties));
+
+    const matches = this.matchRelationships(type, match);
+    for (const relationship of matches) {
+      for (const [key, value] of Object.entries(properties)) {
+        if (value === null || value === undefined) {
+          delete relationship.properties[key];
+        } else {
+          relationship.properties[key] = storable({ [key]: value })[key];
+        }
+      }
+    }
+    return matches.length;
+  }
+
+  async deleteRelationships(type: RelationshipType, start: NodeRef, end: NodeRef): Promise<number> {
+    assertRelationshipType(type);
+    assertNodeType(start.label);
+    assertNodeType(end.label);
+
+    const starts = new Set(this.match(start.label, start.id).map(node => node.elementId));
+    const ends = new Set(this.match(end.label, end.id).map(node => node.elementId));
+
+    let deleted = 0;
+    this.relationships.forEach((relationship, elementId) => {
+      if (relationship.type === type && starts.has(relationship.start) && ends.has(relationship.end)) {
+        this.relationships.delete(elementId);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async traverse(start: NodeRef, options: TraversalOptions = {}): Promise<Path[]> {
+    assertNodeType(start.label);
+    const { maxDepth, direction, relationshipTypes, filters } = resolveTraversal(options);
+
+    const steps = (elementId: string): Array<{ relationship: StoredRelationship; next: string }> =>
+      Array.from(this.relationships.values())
+        .filter(relationship => relationshipTypes.length === 0 || relationshipTypes.includes(relationship.type))
+        .flatMap(relationship => {
+          const found: Array<{ relationship: StoredRelationship; next: string }> = [];
+          if (direction !== 'incoming' && relationship.start === elementId) {
+            found.push({ relationship, next: relationship.end });
+          }
+          if (direction !== 'outgoing' && relationship.end === elementId) {
+            found.push({ relationship, next: relationship.start });
+          }
+          return found;
+        });
+
+    const paths: Path[] = [];
+    const walk = (trail: string[], used: StoredRelationship[]) => {
+      const endNode = this.nodes.get(trail[trail.length - 1]) as StoredNode;
+      if (used.length > 0 && Object.entries(filters).every(([key, value]) => test(endNode.properties[key], 'eq', value))) {
+        paths.push({
+          nodes: trail.map(elementId => toGraphNode(this.nodes.get(elementId) as StoredNode)),
+          relationships: used.map(relationship => this.toGraphRelationship(relationship)),
+          length: used.length,
+        });
+      }
+      if (used.length === maxDepth) {
+        return;
+      }
+
+      // Like Neo4j, a path never uses the same relationship twice
+      for (const step of steps(trail[trail.length - 1])) {
+        if (!used.includes(step.relationship)) {
+          walk([...trail, step.next], [...used, step.relationship]);
+        }
+      }
+    };
+
+    this.match(start.label, start.id).forEach(node => walk([node.elementId], []));
+    return paths;
+  }
+
+  /**
+   * Run work against this store, restoring the previous contents if it throws
+   */
+  async transaction<T>(work: (store: GraphStore) => Promise<T>): Promise<T> {
+    const snapshot = {
+      nodes: structuredClone(this.nodes),
+      relationships: structuredClone(this.relationships),
+    };
+
+    try {
+      return await work(this);
+    } catch (error) {
+      this.nodes = snapshot.nodes;
+      this.relationships = snapshot.relationships;
+
+      if (Object.values(ErrorCode).includes((error as { code?: ErrorCode })?.code as ErrorCode)) {
+        throw error;
+      }
+      throw {
+        code: ErrorCode.DB_TRANSACTION_ERROR,
+        message: 'Failed to execute in-memory transaction',
+        details: error,
+      };
+    }
+  }
+
+  private match(label: NodeType, id: string): StoredNode[] {
+    return Array.from(this.nodes.values()).filter(node => node.labels.includes(label) && node.properties.id === id);
+  }
+
+  private matchRelationships(type: RelationshipType, match: RelationshipMatch): StoredRelationship[] {
+    const properties = match.properties ?? {};
+    assertRelationshipProperties(type, Object.keys(properties));
+    const start = match.start?.spec();
+    const end = match.end?.spec();
+
+    return Array.from(this.relationships.values()).filter(relationship =>
+      relationship.type === type
+      && (!start || matchesSpec(this.nodes.get(relationship.start) as StoredNode, start))
+      && (!end || matchesSpec(this.nodes.get(relationship.end) as StoredNode, end))
+      && Object.entries(properties).every(([key, value]) => test(relationship.properties[key], 'eq', value))
+    );
+  }
+
+  private link(
+    type: RelationshipType,
+    from: StoredNode,
+    to: StoredNode,
+    properties: Record<string, unknown>
+  ): StoredRelationship {
+    const relationship: StoredRelationship = {
+      elementId: this.newElementId(),
+      type,
+      start: from.elementId,
+      end: to.elementId,
+      properties: storable(properties),
+    };
+    this.relationships.set(relationship.elementId, relationship);
+    return relationship;
+  }
+
+  private toGraphRelationship(relationship: StoredRelationship): GraphRelationship {
+    return {
+      elementId: relationship.elementId,
+      start: String(this.nodes.get(relationship.start)?.properties.id),
+      end: String(this.nodes.get(relationship.end)?.properties.id),
+      type: relationship.type,
+      properties: structuredClone(relationship.properties),
+    };
+  }
+
+  private newElementId(): string {
+    return `memory:${this.nextElementId++}`;
+  }
+}
+
+function toGraphNode(node: StoredNode): GraphNode {
+  return {
+    id: String(node.properties.id),
+    elementId: node.elementId,
+    labels: [...node.labels],
+    properties: structuredClone(node.properties),
+  };
+}
+
+function matchesSpec(node: StoredNode, spec: NodeQuerySpec): boolean {
+  return node.labels.includes(spec.label)
+    && spec.filters.every(filter => test(node.properties[filter.key], filter.operator, filter.value));
+}
+
+/**
+ * Copy properties the way Neo4j stores them: nulls dropped, and only
+ * primitives or lists of primitives allowed
+ */
+function storable(properties: Record<string, unknown>): Record<string, unknown> {
+  const stored: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    if (values.some(item => item === null || typeof item === 'object')) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: `Property "${key}" must be a primitive or a list of primitives`,
+      };
+    }
+    stored[key] = Array.isArray(value) ? [...value] : value;
+  }
+  return stored;
+}
+
+/**
+ * Evaluate one filter with Cypher semantics: null or differently typed operands never match
+ */
+function test(actual: unknown, operator: FilterOperator, expected: unknown): boolean {
+  if (actual === undefined || actual === null || expected === null || expected === undefined) {
+    return false;
+  }
+
+  switch (operator) {
+    case 'eq':
+      return equal(actual, expected);
+    case 'ne':
+      return sameType(actual, expected) && !equal(actual, expected);
+    case 'lt':
+      return sameType(actual, expected) && (actual as number) < (expected as number);
+    case 'lte':
+      return sameType(actual, expected) && (actual as number) <= (expected as number);
+    case 'gt':
+      return sameType(actual, expected) && (actual as number) > (expected as number);
+    case 'gte':
+      return sameType(actual, expected) && (actual as number) >= (expected as number);
+    case 'in':
+      return (expected as unknown[]).some(item => equal(actual, item));
+    case 'contains':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case 'startsWith':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.startsWith(expected);
+  }
+}
+
+function sameType(a: unknown, b: unknown): boolean {
+  return typeof a === typeof b && Array.isArray(a) === Array.isArray(b);
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return sameType(a, b) && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Ascending order with nulls last, as ORDER BY does
+ */
+function compareForSort(a: unknown, b: unknown): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  // Strings compare by code point, not locale
+  const [left, right] = [String(a), String(b)];
+  return left < right ? -1 : left > right ? 1 : 0;
+}
@@ -0,0 +1,20 @@
+// src/lib/graph/migrations/0001-initial-constraints.ts
+
+import type { Migration } from './runner';
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial-constraints',
+  statements: [
+    'CREATE CONSTRAINT schema_migration_version IF NOT EXISTS FOR (m:SchemaMigration) REQUIRE m.version IS UNIQUE',
+    'CREATE CONSTRAINT question_id IF NOT EXISTS FOR (q:Question) REQUIRE q.id IS UNIQUE',
+    'CREATE CONSTRAINT answer_id IF NOT EXISTS FOR (a:Answer) REQUIRE a.id IS UNIQUE',
+    'CREATE CONSTRAINT principle_id IF NOT EXISTS FOR (p:Principle) REQUIRE p.id IS UNIQUE',
+    'CREATE CONSTRAINT framework_id IF NOT EXISTS FOR (f:Framework) REQUIRE f.id IS UNIQUE',
+    'CREATE CONSTRAINT stage_id IF NOT EXISTS FOR (s:Stage) REQUIRE s.id IS UNIQUE',
+    'CREATE CONSTRAINT session_id IF NOT EXISTS FOR (s:Session) REQUIRE s.id IS UNIQUE',
+    'CREATE CONSTRAINT llm_cache_key IF NOT EXISTS FOR (c:LLMCache) REQUIRE c.key IS UNIQUE',
+  ],
+};
+
+export default migration;
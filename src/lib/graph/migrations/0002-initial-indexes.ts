@@ -0,0 +1,21 @@
+// src/lib/graph/migrations/0002-initial-indexes.ts
+
+import type { Migration } from './runner';
+
+const migration: Migration = {
+  version: 2,
+  name: 'initial-indexes',
+  statements: [
+    'CREATE INDEX question_stage IF NOT EXISTS FOR (q:Question) ON (q.stage)',
+    'CREATE INDEX answer_userId IF NOT EXISTS FOR (a:Answer) ON (a.userId)',
+    'CREATE INDEX answer_timestamp IF NOT EXISTS FOR (a:Answer) ON (a.timestamp)',
+    'CREATE INDEX principle_text IF NOT EXISTS FOR (p:Principle) ON (p.text)',
+    'CREATE INDEX principle_userId IF NOT EXISTS FOR (p:Principle) ON (p.userId)',
+    'CREATE INDEX framework_name IF NOT EXISTS FOR (f:Framework) ON (f.name)',
+    'CREATE INDEX stage_number IF NOT EXISTS FOR (s:Stage) ON (s.stageNumber)',
+    'CREATE INDEX session_userId IF NOT EXISTS FOR (s:Session) ON (s.userId)',
+    'CREATE INDEX session_event_seq IF NOT EXISTS FOR (e:SessionEvent) ON (e.sessionId, e.seq)',
+  ],
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+// src/lib/graph/migrations/0003-user-lookup-indexes.ts
+
+import type { Migration } from './runner';
+
+// Generated questions are looked up per user, and answers are read per user in time order
+const migration: Migration = {
+  version: 3,
+  name: 'user-lookup-indexes',
+  statements: [
+    'CREATE INDEX question_generatedForUser IF NOT EXISTS FOR (q:Question) ON (q.generatedForUser)',
+    'CREATE INDEX answer_userId_timestamp IF NOT EXISTS FOR (a:Answer) ON (a.userId, a.timestamp)',
+  ],
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+// src/lib/graph/migrations/0004-llm-cache-user-index.ts
+
+import type { Migration } from './runner';
+
+// Cached LLM responses are deleted per user along with the rest of their data
+const migration: Migration = {
+  version: 4,
+  name: 'llm-cache-user-index',
+  statements: [
+    'CREATE INDEX llm_cache_userId IF NOT EXISTS FOR (c:LLMCache) ON (c.userId)',
+  ],
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+// src/lib/graph/migrations/index.ts
+
+import { neo4jClient } from '../neo4j-client';
+import { Migration, MigrationRunner } from './runner';
+import initialConstraints from './0001-initial-constraints';
+import initialIndexes from './0002-initial-indexes';
+import userLookupIndexes from './0003-user-lookup-indexes';
+import llmCacheUserIndex from './0004-llm-cache-user-index';
+
+export type { Migration, MigrationStatus } from './runner';
+export { MigrationRunner } from './runner';
+
+/**
+ * Every migration, in version order. Add new migrations as the next numbered
+ * file and list them here; never edit one that has been applied.
+ */
+export const migrations: Migration[] = [
+  initialConstraints,
+  initialIndexes,
+  userLookupIndexes,
+  llmCacheUserIndex,
+];
+
+// Export a singleton instance
+export const migrationRunner = new MigrationRunner(migrations, neo4jClient);
@@ -0,0 +1,152 @@
+// src/lib/graph/migrations/runner.ts
+
+import { createHash } from 'crypto';
+import neo4j, { Result } from 'neo4j-driver';
+import { ErrorCode, SchemaMigrationNode } from '../../types';
+import { Neo4jClient, toNumber } from '../neo4j-client';
+
+/**
+ * One numbered schema change. Statements run in order, each in its own
+ * transaction, so they should be idempotent (IF NOT EXISTS / IF EXISTS):
+ * a migration that fails part way is simply run again.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+/**
+ * A migration's state in the database:
+ * - pending: not applied yet
+ * - applied: applied with the statements the code has now
+ * - modified: applied, but its statements have been edited since
+ * - unknown: recorded in the database but missing from the code (a newer schema)
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'pending' | 'applied' | 'modified' | 'unknown';
+  appliedAt?: string;
+}
+
+/**
+ * Applies numbered migrations in order and records each one as a :SchemaMigration node
+ */
+export class MigrationRunner {
+  private migrations: Migration[];
+  private client: Neo4jClient;
+
+  constructor(migrations: Migration[], client: Neo4jClient) {
+    const versions = migrations.map(migration => migration.version);
+    if (versions.some((version, index) => index > 0 && version <= versions[index - 1])) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Migration versions must be unique and ascending, got ${versions.join(', ')}`,
+      };
+    }
+
+    this.migrations = migrations;
+    this.client = client;
+  }
+
+  /**
+   * Every known or recorded migration with its state, by version
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.findApplied();
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => {
+      const record = applied.get(migration.version);
+      if (!record) {
+        return { version: migration.version, name: migration.name, state: 'pending' };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: record.checksum === checksum(migration) ? 'applied' : 'modified',
+        appliedAt: record.appliedAt,
+      };
+    });
+
+    applied.forEach(record => {
+      if (!this.migrations.some(migration => migration.version === record.version)) {
+        statuses.push({ version: record.version, name: record.name, state: 'unknown', appliedAt: record.appliedAt });
+      }
+    });
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Migrations not yet applied, in the order they will run
+   */
+  async pending(): Promise<Migration[]> {
+    const applied = await this.findApplied();
+    return this.migrations.filter(migration => !applied.has(migration.version));
+  }
+
+  /**
+   * Apply every pending migration. With dryRun, nothing is executed and the
+   * migrations that would run are returned.
+   */
+  async up(options: { dryRun?: boolean } = {}): Promise<Migration[]> {
+    const pending = await this.pending();
+    if (options.dryRun) {
+      return pending;
+    }
+
+    for (const migration of pending) {
+      for (const statement of migration.statements) {
+        await this.client.query(statement);
+      }
+
+      await this.client.query(
+        `
+          MERGE (m:SchemaMigration {version: $version})
+          SET m.name = $name, m.checksum = $checksum, m.appliedAt = $appliedAt
+        `,
+        {
+          version: neo4j.int(migration.version),
+          name: migration.name,
+          checksum: checksum(migration),
+          appliedAt: new Date().toISOString(),
+        }
+      );
+    }
+
+    return pending;
+  }
+
+  /**
+   * Throw DB_SCHEMA_OUTDATED when migrations are pending
+   */
+  async assertUpToDate(): Promise<void> {
+    const pending = await this.pending();
+    if (pending.length > 0) {
+      throw {
+        code: ErrorCode.DB_SCHEMA_OUTDATED,
+        message: `Database schema is out of date: ${pending.length} pending migration(s). Run \`npm run db:migrate\`.`,
+        details: { pending: pending.map(migration => `${migration.version} ${migration.name}`) },
+      };
+    }
+  }
+
+  private async findApplied(): Promise<Map<number, SchemaMigrationNode>> {
+    const result = await this.client.query<Result>(
+      'MATCH (m:SchemaMigration) RETURN m',
+      {},
+      { accessMode: 'READ' }
+    );
+
+    return new Map(result.records.map(record => {
+      const properties = record.get('m').properties;
+      const version = toNumber(properties.version);
+      return [version, { ...properties, version } as SchemaMigrationNode];
+    }));
+  }
+}
+
+function checksum(migration: Migration): string {
+  return createHash('sha256').update(migration.statements.join('\n')).digest('hex');
+}
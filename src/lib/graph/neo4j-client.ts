@@ -1,12 +1,29 @@
 // src/lib/graph/neo4j-client.ts
 
-import neo4j, { Driver, Session, Result, Transaction } from 'neo4j-driver';
+import neo4j, { Driver, Session, Result, Transaction, Record as Neo4jRecord } from 'neo4j-driver';
 import { 
   Neo4jConnectionConfig, 
   ErrorCode, 
   GraphNode, 
-  GraphRelationship
+  GraphRelationship,
+  NodeRef,
+  NodeType,
+  Path,
+  RelationshipType,
+  TraversalOptions
 } from '../types';
+import type { GraphStore, RelationshipMatch } from './graph-store';
+import {
+  assertNodeProperties,
+  assertNodeType,
+  assertRelationshipProperties,
+  assertRelationshipType,
+  filterConditions,
+  NodePropertyKey,
+  NodeQuery,
+  nodeQuery,
+  resolveTraversal,
+} from './query-builder';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -15,9 +32,11 @@ dotenv.config();
 /**
  * Neo4j Client for handling all database operations
  */
-export class Neo4jClient {
+export class Neo4jClient implements GraphStore {
   private driver: Driver | null = null;
+  private connecting: Promise<void> | null = null;
   private config: Neo4jConnectionConfig;
+  private tx: Transaction | null = null; // Set on the client handed to transaction() work
 
   constructor(config: Neo4jConnectionConfig) {
     this.config = config;
@@ -53,6 +72,19 @@ export class Neo4jClient {
     }
   }
 
+  /**
+   * Connect on first use; safe to call from every request handler
+   */
+  async ensureConnected(): Promise<void> {
+    if (this.driver) return;
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    await this.connecting;
+  }
+
   /**
    * Verify database connectivity
    */
@@ -93,10 +125,12 @@ export class Neo4jClient {
       transform?: (result: Result) => T;
     } = {}
   ): Promise<T> {
-    const session = this.getSession(options.accessMode);
+    const session = this.tx ? null : this.getSession(options.accessMode);
     
     try {
-      const result = await session.run(cypher, params);
+      const result = this.tx
+        ? await this.tx.run(cypher, params)
+        : await (session as Session).run(cypher, params);
       
       // Apply custom transformation if provided
       if (options.transform) {
@@ -114,26 +148,36 @@ export class Neo4jClient {
         details: { query: cypher, error },
       };
     } finally {
-      await session.close();
+      await session?.close();
     }
   }
 
   /**
-   * Execute a transaction with multiple queries
+   * Execute a transaction with multiple queries. The work receives a client whose
+   * queries all run inside the transaction; it may be retried on transient errors.
    */
   async transaction<T = unknown>(
-    work: (tx: Transaction) => Promise<T>,
+    work: (store: Neo4jClient) => Promise<T>,
     options: { accessMode?: 'READ' | 'WRITE' } = {}
   ): Promise<T> {
     const session = this.getSession(options.accessMode);
+    const run = (tx: Transaction) => {
+      const scoped = Object.create(this) as Neo4jClient;
+      scoped.tx = tx;
+      return work(scoped);
+    };
     
     try {
       if (options.accessMode === 'READ') {
-        return await session.readTransaction(work);
+        return await session.readTransaction(run);
       } else {
-        return await session.writeTransaction(work);
+        return await session.writeTransaction(run);
       }
     } catch (error) {
+      // Errors raised by the work itself, such as INVALID_INPUT, pass through unchanged
+      if (Object.values(ErrorCode).includes((error as { code?: ErrorCode })?.code as ErrorCode)) {
+        throw error;
+      }
       console.error('Transaction failed:', error);
       throw {
         code: ErrorCode.DB_TRANSACTION_ERROR,
@@ -148,57 +192,108 @@ export class Neo4jClient {
   /**
    * Create a node with given labels and properties
    */
-  async createNode(labels: string[], properties: Record<string, unknown>): Promise<GraphNode> {
+  async createNode(labels: NodeType[], properties: Record<string, unknown>): Promise<GraphNode> {
+    if (labels.length === 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: 'A node needs at least one label',
+      };
+    }
+    assertNodeProperties(labels, Object.keys(properties));
+
     const query = `
       CREATE (n:${labels.join(':')})
       SET n = $properties
       RETURN n
     `;
 
-    const result = await this.query(query, { properties });
+    const result = await this.query<Result>(query, { properties });
     const record = result.records[0];
     
     return this.extractNode(record.get('n'));
   }
 
   /**
-   * Create a relationship between two nodes
+   * Create a relationship between two nodes, each addressed by label and application id
    */
   async createRelationship(
-    startNodeId: string,
-    endNodeId: string,
-    type: string,
+    start: NodeRef,
+    end: NodeRef,
+    type: RelationshipType,
     properties: Record<string, unknown> = {}
   ): Promise<GraphRelationship> {
+    assertNodeType(start.label);
+    assertNodeType(end.label);
+    assertRelationshipProperties(type, Object.keys(properties));
+
     const query = `
-      MATCH (a) WHERE id(a) = $startId
-      MATCH (b) WHERE id(b) = $endId
+      MATCH (a:${start.label} {id: $startId})
+      MATCH (b:${end.label} {id: $endId})
       CREATE (a)-[r:${type}]->(b)
       SET r = $properties
-      RETURN r
+      RETURN r, a.id AS start, b.id AS end
     `;
 
     const result = await this.query<Result>(query, {
-      startId: neo4j.int(startNodeId),
-      endId: neo4j.int(endNodeId),
+      startId: start.id,
+      endId: end.id,
       properties,
     });
-    const record = result.records[0];
+
+    if (result.records.length === 0) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: `Cannot create ${type}: ${start.label} ${start.id} or ${end.label} ${end.id} not found`,
+      };
+    }
     
-    return this.extractRelationship(record.get('r'));
+    return this.extractRelationship(result.records[0]);
   }
 
   /**
-   * Find a node by ID
+   * Create many relationships of one type in a single query.
+   * Edges whose start or end node does not exist are skipped; returns the number created.
    */
-  async findNodeById(id: string): Promise<GraphNode | null> {
+  async createRelationships(
+    type: RelationshipType,
+    startLabel: NodeType,
+    endLabel: NodeType,
+    edges: Array<{ start: string; end: string; properties?: Record<string, unknown> }>
+  ): Promise<number> {
+    assertNodeType(startLabel);
+    assertNodeType(endLabel);
+    assertRelationshipProperties(type, edges.flatMap(edge => Object.keys(edge.properties || {})));
+    if (edges.length === 0) {
+      return 0;
+    }
+
     const query = `
-      MATCH (n)
-      WHERE id(n) = $id
+      UNWIND $edges AS edge
+      MATCH (a:${startLabel} {id: edge.start})
+      MATCH (b:${endLabel} {id: edge.end})
+      CREATE (a)-[r:${type}]->(b)
+      SET r = edge.properties
+      RETURN count(r) AS created
+    `;
+
+    const result = await this.query<Result>(query, {
+      edges: edges.map(edge => ({ ...edge, properties: edge.properties || {} })),
+    });
+    
+    return result.records[0].get('created').toNumber();
+  }
+
+  /**
+   * Find a node by label and application ID
+   */
+  async findNodeById(label: NodeType, id: string): Promise<GraphNode | null> {
+    assertNodeType(label);
+    const query = `
+      MATCH (n:${label} {id: $id})
       RETURN n
     `;
 
-    const result = await this.query<Result>(query, { id: neo4j.int(id) });
+    const result = await this.query<Result>(query, { id }, { accessMode: 'READ' });
     
     if (result.records.length === 0) {
       return null;
@@ -208,60 +303,182 @@ export class Neo4jClient {
   }
 
   /**
-   * Find nodes by label and properties
+   * Find nodes by label and property values
    */
-  async findNodes(label: string, properties: Record<string, unknown> = {}): Promise<GraphNode[]> {
-    const whereClause = Object.keys(properties).length > 0
-      ? 'WHERE ' + Object.keys(properties).map(key => `n.${key} = $${key}`).join(' AND ')
-      : '';
-
-    const query = `
-      MATCH (n:${label})
-      ${whereClause}
-      RETURN n
-    `;
+  async findNodes<L extends NodeType>(
+    label: L,
+    properties: Partial<Record<NodePropertyKey<L>, unknown>> = {}
+  ): Promise<GraphNode[]> {
+    return this.select(nodeQuery(label).whereEquals(properties));
+  }
 
-    const result = await this.query<Result>(query, properties);
+  /**
+   * Run a node query from the query builder
+   */
+  async select<L extends NodeType>(query: NodeQuery<L>): Promise<GraphNode[]> {
+    const { query: cypher, parameters } = query.build();
+    const result = await this.query<Result>(cypher, parameters, { accessMode: 'READ' });
     return result.records.map(record => this.extractNode(record.get('n')));
   }
 
   /**
    * Update a node's properties
    */
-  async updateNode(id: string, properties: Record<string, unknown>): Promise<GraphNode> {
+  async updateNode(label: NodeType, id: string, properties: Record<string, unknown>): Promise<GraphNode> {
+    assertNodeProperties([label], Object.keys(properties));
     const query = `
-      MATCH (n)
-      WHERE id(n) = $id
+      MATCH (n:${label} {id: $id})
       SET n += $properties
       RETURN n
     `;
 
-    const result = await this.query<Result>(query, {
-      id: neo4j.int(id),
-      properties,
-    });
+    const result = await this.query<Result>(query, { id, properties });
     
     if (result.records.length === 0) {
       throw {
         code: ErrorCode.DB_QUERY_ERROR,
-        message: `Node with ID ${id} not found`,
+        message: `${label} with ID ${id} not found`,
       };
     }
     
     return this.extractNode(result.records[0].get('n'));
   }
 
+  /**
+   * Add one to a numeric node property in a single statement, so the node's write lock
+   * orders concurrent increments
+   */
+  async incrementProperty<L extends NodeType>(label: L, id: string, key: NodePropertyKey<L>): Promise<number | null> {
+    assertNodeProperties([label], [key]);
+    const query = `
+      MATCH (n:${label} {id: $id})
+      SET n.${key} = coalesce(n.${key}, 0) + 1
+      RETURN n.${key} AS value
+    `;
+
+    const result = await this.query<Result>(query, { id });
+    return result.records.length > 0 ? toNumber(result.records[0].get('value')) : null;
+  }
+
   /**
    * Delete a node and its relationships
    */
-  async deleteNode(id: string): Promise<void> {
+  async deleteNode(label: NodeType, id: string): Promise<void> {
+    assertNodeType(label);
     const query = `
-      MATCH (n)
-      WHERE id(n) = $id
+      MATCH (n:${label} {id: $id})
       DETACH DELETE n
     `;
 
-    await this.query(query, { id: neo4j.int(id) });
+    await this.query(query, { id });
+  }
+
+  /**
+   * Delete every relationship of a type between two nodes; returns the number deleted
+   */
+  async deleteRelationships(type: RelationshipType, start: NodeRef, end: NodeRef): Promise<number> {
+    assertRelationshipType(type);
+    assertNodeType(start.label);
+    assertNodeType(end.label);
+    const query = `
+      MATCH (:${start.label} {id: $startId})-[r:${type}]->(:${end.label} {id: $endId})
+      DELETE r
+      RETURN count(r) AS deleted
+    `;
+
+    const result = await this.query<Result>(query, { startId: start.id, endId: end.id });
+    return result.records[0].get('deleted').toNumber();
+  }
+
+  /**
+   * Find relationships of a type by the nodes at either end and their own properties
+   */
+  async findRelationships(type: RelationshipType, match: RelationshipMatch = {}): Promise<GraphRelationship[]> {
+    const parameters: Record<string, unknown> = {};
+    const query = `
+      ${this.matchRelationships(type, match, parameters)}
+      RETURN r, a.id AS start, b.id AS end
+    `;
+
+    const result = await this.query<Result>(query, parameters, { accessMode: 'READ' });
+    return result.records.map(record => this.extractRelationship(record));
+  }
+
+  /**
+   * Merge properties into matching relationships; returns the number updated
+   */
+  async updateRelationships(
+    type: RelationshipType,
+    match: RelationshipMatch,
+    properties: Record<string, unknown>
+  ): Promise<number> {
+    assertRelationshipProperties(type, Object.keys(properties));
+    const parameters: Record<string, unknown> = { properties };
+    const query = `
+      ${this.matchRelationships(type, match, parameters)}
+      SET r += $properties
+      RETURN count(r) AS updated
+    `;
+
+    const result = await this.query<Result>(query, parameters);
+    return result.records[0].get('updated').toNumber();
+  }
+
+  /**
+   * Find every path of 1 to maxDepth relationships from a node.
+   * Filters are equality checks on the node each path ends at.
+   */
+  async traverse(start: NodeRef, options: TraversalOptions = {}): Promise<Path[]> {
+    assertNodeType(start.label);
+    const { maxDepth, direction, relationshipTypes, filters } = resolveTraversal(options);
+
+    const types = relationshipTypes.length > 0 ? `:${relationshipTypes.join('|')}` : '';
+    const pattern = `-[${types}*1..${maxDepth}]-`;
+    const arrow = direction === 'outgoing' ? `${pattern}>` : direction === 'incoming' ? `<${pattern}` : pattern;
+    const conditions = Object.keys(filters).map((key, index) => `end.${key} = $f${index}`);
+
+    const query = `
+      MATCH (start:${start.label} {id: $id})
+      MATCH path = (start)${arrow}(end)
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      RETURN path
+    `;
+
+    const params: Record<string, unknown> = { id: start.id };
+    Object.values(filters).forEach((value, index) => {
+      params[`f${index}`] = value;
+    });
+
+    const result = await this.query<Result>(query, params, { accessMode: 'READ' });
+    return result.records.map(record => this.extractPath(record.get('path')));
+  }
+
+  /**
+   * MATCH and WHERE clauses binding a, r and b for a relationship match
+   */
+  private matchRelationships(
+    type: RelationshipType,
+    match: RelationshipMatch,
+    parameters: Record<string, unknown>
+  ): string {
+    const properties = match.properties ?? {};
+    assertRelationshipProperties(type, Object.keys(properties));
+    const start = match.start?.spec();
+    const end = match.end?.spec();
+
+    const conditions = [
+      ...(start ? filterConditions(start, 'a', 's', parameters) : []),
+      ...(end ? filterConditions(end, 'b', 'e', parameters) : []),
+      ...Object.entries(properties).map(([key, value], index) => {
+        parameters[`r${index}`] = value;
+        return `r.${key} = $r${index}`;
+      }),
+    ];
+
+    return [
+      `MATCH (a${start ? `:${start.label}` : ''})-[r:${type}]->(b${end ? `:${end.label}` : ''})`,
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    ].join('\n');
   }
 
   /**
@@ -269,36 +486,67 @@ export class Neo4jClient {
    */
   private extractNode(neo4jNode: unknown): GraphNode {
     const node = neo4jNode as { 
-      identity: { toString: () => string }; 
+      elementId: string; 
       labels: string[]; 
       properties: Record<string, unknown>;
     };
     return {
-      identity: node.identity.toString(),
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      labels: node.labels as any, // Neo4j returns string[] but we need NodeType[]
-      properties: node.properties,
+      id: String(node.properties.id),
+      elementId: node.elementId,
+      labels: node.labels as NodeType[],
+      properties: toPlainProperties(node.properties),
     };
   }
 
   /**
-   * Extract relationship data from Neo4j result
+   * Extract relationship data from a record holding r, start and end
    */
-  private extractRelationship(neo4jRelationship: unknown): GraphRelationship {
-    const rel = neo4jRelationship as { 
-      identity: { toString: () => string }; 
-      start: { toString: () => string }; 
-      end: { toString: () => string }; 
+  private extractRelationship(record: Neo4jRecord): GraphRelationship {
+    const rel = record.get('r') as { 
+      elementId: string; 
       type: string; 
       properties: Record<string, unknown>;
     };
     return {
-      identity: rel.identity.toString(),
-      start: rel.start.toString(),
-      end: rel.end.toString(),
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      type: rel.type as any, // Neo4j returns string but we need RelationshipType
-      properties: rel.properties,
+      elementId: rel.elementId,
+      start: record.get('start'),
+      end: record.get('end'),
+      type: rel.type as RelationshipType,
+      properties: toPlainProperties(rel.properties),
+    };
+  }
+
+  /**
+   * Extract a path, giving each relationship the application ids of its own start and end
+   */
+  private extractPath(neo4jPath: unknown): Path {
+    const path = neo4jPath as {
+      start: { elementId: string };
+      segments: Array<{
+        end: unknown;
+        relationship: {
+          elementId: string;
+          startNodeElementId: string;
+          endNodeElementId: string;
+          type: string;
+          properties: Record<string, unknown>;
+        };
+      }>;
+    };
+
+    const nodes = [path.start, ...path.segments.map(segment => segment.end)].map(node => this.extractNode(node));
+    const appIds = new Map(nodes.map(node => [node.elementId, node.id]));
+
+    return {
+      nodes,
+      relationships: path.segments.map(({ relationship }) => ({
+        elementId: relationship.elementId,
+        start: appIds.get(relationship.startNodeElementId) as string,
+        end: appIds.get(relationship.endNodeElementId) as string,
+        type: relationship.type as RelationshipType,
+        properties: toPlainProperties(relationship.properties),
+      })),
+      length: path.segments.length,
     };
   }
 
@@ -314,56 +562,43 @@ export class Neo4jClient {
   }
 
   /**
-   * Clear all data from the database (use with caution)
+   * Clear all data from the database (use with caution).
+   * Indexes and constraints survive, so the migration records are kept too.
    */
   async clearDatabase(): Promise<void> {
     const query = `
       MATCH (n)
+      WHERE NOT n:SchemaMigration
       DETACH DELETE n
     `;
 
     await this.query(query);
     console.log('Database cleared');
   }
+}
 
-  /**
-   * Create indexes for better performance
-   */
-  async createIndexes(): Promise<void> {
-    const indexes = [
-      'CREATE INDEX question_stage IF NOT EXISTS FOR (q:Question) ON (q.stage)',
-      'CREATE INDEX answer_userId IF NOT EXISTS FOR (a:Answer) ON (a.userId)',
-      'CREATE INDEX answer_timestamp IF NOT EXISTS FOR (a:Answer) ON (a.timestamp)',
-      'CREATE INDEX principle_text IF NOT EXISTS FOR (p:Principle) ON (p.text)',
-      'CREATE INDEX framework_name IF NOT EXISTS FOR (f:Framework) ON (f.name)',
-      'CREATE INDEX stage_number IF NOT EXISTS FOR (s:Stage) ON (s.stageNumber)',
-    ];
-
-    for (const index of indexes) {
-      await this.query(index);
-    }
-    
-    console.log('Indexes created successfully');
-  }
+/**
+ * Neo4j returns integer properties as Integer objects; callers get plain numbers
+ */
+export function toPlainProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  const toPlain = (value: unknown): unknown => neo4j.isInt(value)
+    ? (value as { toNumber: () => number }).toNumber()
+    : Array.isArray(value) ? value.map(toPlain) : value;
+  return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toPlain(value)]));
+}
 
-  /**
-   * Create constraints for data integrity
-   */
-  async createConstraints(): Promise<void> {
-    const constraints = [
-      'CREATE CONSTRAINT question_id IF NOT EXISTS FOR (q:Question) REQUIRE q.id IS UNIQUE',
-      'CREATE CONSTRAINT answer_id IF NOT EXISTS FOR (a:Answer) REQUIRE a.id IS UNIQUE',
-      'CREATE CONSTRAINT principle_id IF NOT EXISTS FOR (p:Principle) REQUIRE p.id IS UNIQUE',
-      'CREATE CONSTRAINT framework_id IF NOT EXISTS FOR (f:Framework) REQUIRE f.id IS UNIQUE',
-      'CREATE CONSTRAINT stage_id IF NOT EXISTS FOR (s:Stage) REQUIRE s.id IS UNIQUE',
-    ];
+/**
+ * Read a returned number: Neo4j returns integers as Integer objects and floats as numbers
+ */
+export function toNumber(value: unknown): number {
+  return neo4j.isInt(value) ? (value as { toNumber: () => number }).toNumber() : Number(value ?? 0);
+}
 
-    for (const constraint of constraints) {
-      await this.query(constraint);
-    }
-    
-    console.log('Constraints created successfully');
-  }
+/**
+ * Drop undefined values, which Neo4j rejects as property values
+ */
+export function stripUndefined(properties: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
 }
 
 // Export a singleton instance
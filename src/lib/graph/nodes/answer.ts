@@ -0,0 +1,38 @@
+// src/lib/graph/nodes/answer.ts
+
+import { AnswerNode } from '../../types';
+import { Schema, schema } from '../../utils/validators';
+import { GraphStore, graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+import { baseNodeShape, NodeRepository, timestampSchema } from './repository';
+
+export const answerSchema: Schema<AnswerNode> = schema.object({
+  ...baseNodeShape,
+  text: schema.string({ minLength: 1 }),
+  userId: schema.string({ minLength: 1 }),
+  timestamp: timestampSchema,
+  modified: schema.boolean(),
+  previousVersion: schema.optional(schema.string({ minLength: 1 })),
+  logicalForm: schema.optional(schema.string()),
+  propositions: schema.optional(schema.array(schema.string({ minLength: 1 }))),
+});
+
+export function isAnswerNode(value: unknown): value is AnswerNode {
+  return answerSchema.validate(value).length === 0;
+}
+
+export class AnswerRepository extends NodeRepository<AnswerNode> {
+  constructor(store: GraphStore = graphStore) {
+    super('Answer', answerSchema, store);
+  }
+
+  /**
+   * Every version of a user's answers, oldest first
+   */
+  async findByUser(userId: string): Promise<AnswerNode[]> {
+    return this.select(nodeQuery('Answer').where('userId', 'eq', userId).orderBy('timestamp'));
+  }
+}
+
+// Export a singleton instance
+export const answerRepository = new AnswerRepository();
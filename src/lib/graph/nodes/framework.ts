@@ -0,0 +1,34 @@
+// src/lib/graph/nodes/framework.ts
+
+import { FrameworkNode } from '../../types';
+import { Schema, schema } from '../../utils/validators';
+import { GraphStore, graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+import { baseNodeShape, NodeRepository } from './repository';
+
+export const frameworkSchema: Schema<FrameworkNode> = schema.object({
+  ...baseNodeShape,
+  name: schema.string({ minLength: 1 }),
+  description: schema.string({ minLength: 1 }),
+  keyThinkers: schema.array(schema.string({ minLength: 1 })),
+});
+
+export function isFrameworkNode(value: unknown): value is FrameworkNode {
+  return frameworkSchema.validate(value).length === 0;
+}
+
+export class FrameworkRepository extends NodeRepository<FrameworkNode> {
+  constructor(store: GraphStore = graphStore) {
+    super('Framework', frameworkSchema, store);
+  }
+
+  /**
+   * Every framework, by name
+   */
+  async findAll(): Promise<FrameworkNode[]> {
+    return this.select(nodeQuery('Framework').orderBy('name'));
+  }
+}
+
+// Export a singleton instance
+export const frameworkRepository = new FrameworkRepository();
@@ -0,0 +1,43 @@
+// src/lib/graph/nodes/principle.ts
+
+import { PrincipleNode } from '../../types';
+import { Schema, schema } from '../../utils/validators';
+import { GraphStore, graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+import { baseNodeShape, NodeRepository } from './repository';
+
+const ratio = () => schema.number({ min: 0, max: 1 });
+
+export const principleSchema: Schema<PrincipleNode> = schema.object({
+  ...baseNodeShape,
+  text: schema.string({ minLength: 1 }),
+  description: schema.string(),
+  derivedFrom: schema.array(schema.string({ minLength: 1 })),
+  confidence: ratio(),
+  logicalForm: schema.optional(schema.string()),
+  userId: schema.optional(schema.string({ minLength: 1 })),
+  frequency: schema.optional(schema.number({ integer: true, min: 0 })),
+  consistency: schema.optional(ratio()),
+  extractionConfidence: schema.optional(ratio()),
+  weakenedBy: schema.optional(schema.array(schema.string({ minLength: 1 }))),
+});
+
+export function isPrincipleNode(value: unknown): value is PrincipleNode {
+  return principleSchema.validate(value).length === 0;
+}
+
+export class PrincipleRepository extends NodeRepository<PrincipleNode> {
+  constructor(store: GraphStore = graphStore) {
+    super('Principle', principleSchema, store);
+  }
+
+  /**
+   * A user's principles, most confident first
+   */
+  async findByUser(userId: string): Promise<PrincipleNode[]> {
+    return this.select(nodeQuery('Principle').where('userId', 'eq', userId).orderBy('confidence', 'DESC'));
+  }
+}
+
+// Export a singleton instance
+export const principleRepository = new PrincipleRepository();
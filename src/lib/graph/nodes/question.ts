@@ -0,0 +1,59 @@
+// src/lib/graph/nodes/question.ts
+
+import { QuestionNode } from '../../types';
+import { Schema, schema } from '../../utils/validators';
+import { GraphStore, graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+import { baseNodeShape, NodeRepository } from './repository';
+
+export const questionSchema: Schema<QuestionNode> = schema.object({
+  ...baseNodeShape,
+  text: schema.string({ minLength: 1 }),
+  stage: schema.number({ integer: true, min: 1 }),
+  type: schema.oneOf(['generated', 'seed'] as const),
+  context: schema.array(schema.string({ minLength: 1 })),
+  generatedForUser: schema.optional(schema.string({ minLength: 1 })),
+  metadata: schema.optional(schema.object({
+    temperature: schema.optional(schema.number({ min: 0 })),
+    promptId: schema.optional(schema.string({ minLength: 1 })),
+    promptVersion: schema.optional(schema.string({ minLength: 1 })),
+  })),
+});
+
+export function isQuestionNode(value: unknown): value is QuestionNode {
+  return questionSchema.validate(value).length === 0;
+}
+
+// Neo4j properties cannot be nested maps, so metadata is stored flattened
+const METADATA_KEYS = ['temperature', 'promptId', 'promptVersion'] as const;
+
+export class QuestionRepository extends NodeRepository<QuestionNode> {
+  constructor(store: GraphStore = graphStore) {
+    super('Question', questionSchema, store, {
+      toProperties: ({ metadata, ...question }) => ({ ...question, ...metadata }),
+      fromProperties: properties => {
+        const question = { ...properties };
+        const metadata: Record<string, unknown> = {};
+        METADATA_KEYS.filter(key => key in question).forEach(key => {
+          metadata[key] = question[key];
+          delete question[key];
+        });
+        return Object.keys(metadata).length > 0 ? { ...question, metadata } : question;
+      },
+    });
+  }
+
+  /**
+   * Questions generated for a user, optionally only those in one stage
+   */
+  async findGeneratedFor(userId: string, stage?: number): Promise<QuestionNode[]> {
+    const query = nodeQuery('Question').where('generatedForUser', 'eq', userId);
+    if (stage !== undefined) {
+      query.where('stage', 'eq', stage);
+    }
+    return this.select(query.orderBy('createdAt'));
+  }
+}
+
+// Export a singleton instance
+export const questionRepository = new QuestionRepository();
@@ -0,0 +1,178 @@
+// src/lib/graph/nodes/repository.ts
+
+import { BaseNode, ErrorCode, NodeType } from '../../types';
+import { formatIssues, Schema, ValidationIssue, schema } from '../../utils/validators';
+import { GraphStore, graphStore } from '../graph-store';
+import { stripUndefined, toPlainProperties } from '../neo4j-client';
+import { NodeQuery, nodeQuery } from '../query-builder';
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+export const timestampSchema = schema.string({ pattern: ISO_TIMESTAMP });
+
+// Fields every node type shares, for use in each node schema
+export const baseNodeShape = {
+  id: schema.string({ minLength: 1 }),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+};
+
+/**
+ * A stored node that failed validation
+ */
+export interface InvalidRecord {
+  label: NodeType;
+  id: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * How a node type maps between its interface and its stored properties.
+ * Most types store their fields as-is; Neo4j cannot store maps, so nested
+ * fields are flattened on write and rebuilt on read.
+ */
+export interface NodeMapping<T> {
+  toProperties?: (node: T) => Record<string, unknown>;
+  fromProperties?: (properties: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Typed access to one node label. Every node is validated against the label's
+ * schema when it is written and when it is read, so a corrupt or partially
+ * migrated record fails with INVALID_RECORD instead of reaching callers with
+ * missing fields.
+ */
+export class NodeRepository<T extends BaseNode> {
+  protected label: NodeType;
+  protected schema: Schema<T>;
+  protected store: GraphStore;
+  private mapping: NodeMapping<T>;
+
+  constructor(label: NodeType, nodeSchema: Schema<T>, store: GraphStore = graphStore, mapping: NodeMapping<T> = {}) {
+    this.label = label;
+    this.schema = nodeSchema;
+    this.store = store;
+    this.mapping = mapping;
+  }
+
+  /**
+   * Turn stored properties, from a GraphStore or a raw Cypher result, into a validated node
+   */
+  parse(properties: Record<string, unknown>): T {
+    const plain = toPlainProperties(properties);
+    const node = this.mapping.fromProperties ? this.mapping.fromProperties(plain) : plain;
+    const issues = this.schema.validate(node);
+    if (issues.length > 0) {
+      throw invalidRecord({ label: this.label, id: String(plain.id), issues });
+    }
+    return node as T;
+  }
+
+  is(value: unknown): value is T {
+    return this.schema.validate(value).length === 0;
+  }
+
+  /**
+   * Validate and store a new node, filling in createdAt and updatedAt when missing
+   */
+  async create(input: Omit<T, 'createdAt' | 'updatedAt'> & Partial<Pick<T, 'createdAt' | 'updatedAt'>>): Promise<T> {
+    const now = new Date().toISOString();
+    const node = { ...input, createdAt: input.createdAt ?? now, updatedAt: input.updatedAt ?? now } as T;
+    this.assertValid(node);
+
+    const created = await this.store.createNode([this.label], this.toProperties(node));
+    return this.parse(created.properties);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const node = await this.store.findNodeById(this.label, id);
+    return node ? this.parse(node.properties) : null;
+  }
+
+  /**
+   * Run a query built with nodeQuery() for this repository's label
+   */
+  async select(query: NodeQuery<NodeType>): Promise<T[]> {
+    if (query.spec().label !== this.label) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `${this.label} repository cannot run a ${query.spec().label} query`,
+      };
+    }
+    const nodes = await this.store.select(query);
+    return nodes.map(node => this.parse(node.properties));
+  }
+
+  /**
+   * Apply changes to a node, validating the result and refreshing updatedAt
+   */
+  async update(id: string, changes: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<T> {
+    const current = await this.findById(id);
+    if (!current) {
+      throw {
+        code: ErrorCode.DB_QUERY_ERROR,
+        message: `${this.label} with ID ${id} not found`,
+      };
+    }
+
+    const node = { ...current, ...changes, updatedAt: changes.updatedAt ?? new Date().toISOString() } as T;
+    this.assertValid(node);
+
+    // Fields set to undefined are removed, which SET += does for null
+    const properties = this.toProperties(node);
+    Object.keys(this.toProperties(current))
+      .filter(key => !(key in properties))
+      .forEach(key => {
+        properties[key] = null;
+      });
+
+    const updated = await this.store.updateNode(this.label, id, properties);
+    return this.parse(updated.properties);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.deleteNode(this.label, id);
+  }
+
+  /**
+   * Check every stored node of this label, returning those that fail validation
+   */
+  async audit(): Promise<InvalidRecord[]> {
+    const nodes = await this.store.select(nodeQuery(this.label));
+    return nodes.flatMap(node => {
+      try {
+        this.parse(node.properties);
+        return [];
+      } catch (error) {
+        return [(error as { details: InvalidRecord }).details];
+      }
+    });
+  }
+
+  /**
+   * Throw INVALID_INPUT unless the node matches the schema
+   */
+  assertValid(node: T): void {
+    const issues = this.schema.validate(node);
+    if (issues.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Invalid ${this.label}: ${formatIssues(issues)}`,
+        details: { label: this.label, id: node.id, issues },
+      };
+    }
+  }
+
+  private toProperties(node: T): Record<string, unknown> {
+    const properties = this.mapping.toProperties ? this.mapping.toProperties(node) : { ...node };
+    return stripUndefined(properties);
+  }
+}
+
+function invalidRecord(record: InvalidRecord) {
+  return {
+    code: ErrorCode.INVALID_RECORD,
+    message: `Stored ${record.label} ${record.id} is invalid: ${formatIssues(record.issues)}`,
+    details: record,
+  };
+}
@@ -0,0 +1,42 @@
+// src/lib/graph/nodes/stage.ts
+
+import { StageNode } from '../../types';
+import { Schema, schema } from '../../utils/validators';
+import { GraphStore, graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+import { baseNodeShape, NodeRepository } from './repository';
+
+export const stageSchema: Schema<StageNode> = schema.object({
+  ...baseNodeShape,
+  stageNumber: schema.number({ integer: true, min: 1 }),
+  name: schema.string({ minLength: 1 }),
+  description: schema.string({ minLength: 1 }),
+  reasoning: schema.string({ minLength: 1 }),
+  requiredAnswers: schema.number({ integer: true, min: 1 }),
+  exampleDilemmas: schema.array(schema.string({ minLength: 1 })),
+});
+
+export function isStageNode(value: unknown): value is StageNode {
+  return stageSchema.validate(value).length === 0;
+}
+
+export class StageRepository extends NodeRepository<StageNode> {
+  constructor(store: GraphStore = graphStore) {
+    super('Stage', stageSchema, store);
+  }
+
+  async findByNumber(stageNumber: number): Promise<StageNode | null> {
+    const [stage] = await this.select(nodeQuery('Stage').where('stageNumber', 'eq', stageNumber));
+    return stage ?? null;
+  }
+
+  /**
+   * Every stage, lowest number first
+   */
+  async findAll(): Promise<StageNode[]> {
+    return this.select(nodeQuery('Stage').orderBy('stageNumber'));
+  }
+}
+
+// Export a singleton instance
+export const stageRepository = new StageRepository();
@@ -0,0 +1,259 @@
+// src/lib/graph/queries/analytics.ts
+
+import { Constants, ErrorCode, GraphNode, GraphRelationship, SessionStatistics } from '../../types';
+import { graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+import { findSupersededAnswerIds } from './answer';
+
+/**
+ * Sessions to aggregate over, by when they started
+ */
+export interface StatisticsFilter {
+  from?: string; // Inclusive ISO timestamp
+  to?: string; // Exclusive ISO timestamp
+  minCohortSize?: number; // Raised to Constants.MIN_COHORT_SIZE if lower
+}
+
+/**
+ * What the cohort's users have stored, loaded once for every statistic
+ */
+interface Cohort {
+  sessions: GraphNode[];
+  stageNumbers: number[];
+  answerOwners: Map<string, string>; // Answer id to userId
+  answered: GraphRelationship[];
+  contradictions: GraphRelationship[];
+  alignments: GraphRelationship[];
+  superseded: Set<string>;
+  principles: GraphNode[];
+  questions: Map<string, GraphNode>;
+  frameworks: Map<string, GraphNode>;
+}
+
+/**
+ * Aggregate statistics across every user's session.
+ * Throws INVALID_INPUT if the filter matches fewer sessions than the minimum cohort
+ * size; lists drop any entry shared by fewer users than that.
+ */
+export async function findSessionStatistics(filter: StatisticsFilter = {}): Promise<SessionStatistics> {
+  const minCohortSize = Math.max(filter.minCohortSize ?? Constants.MIN_COHORT_SIZE, Constants.MIN_COHORT_SIZE);
+
+  const cohort = await loadCohort(filter);
+  const totals = findTotals(cohort);
+  if (totals.sessions < minCohortSize) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Only ${totals.sessions} session(s) match; statistics need at least ${minCohortSize}. Widen the date range.`,
+    };
+  }
+
+  // A stage is complete once a session has moved past it
+  const stageCompletionRates: Record<number, number> = {};
+  totals.stageNumbers.forEach(stage => {
+    stageCompletionRates[stage] = totals.currentStages.filter(current => current > stage).length / totals.sessions;
+  });
+
+  return {
+    totalSessions: totals.sessions,
+    averageQuestionsPerSession: totals.averageQuestions,
+    averageContradictionsPerSession: totals.averageContradictions,
+    averageCompletionTime: totals.completed >= minCohortSize ? totals.averageCompletionSeconds : null,
+    stageCompletionRates,
+    commonFrameworks: findCommonFrameworks(cohort, minCohortSize),
+    commonPrinciples: findCommonPrinciples(cohort, minCohortSize),
+    commonContradictions: findCommonContradictions(cohort, minCohortSize),
+    filter: { from: filter.from, to: filter.to, minCohortSize },
+  };
+}
+
+async function loadCohort(filter: StatisticsFilter): Promise<Cohort> {
+  const sessionQuery = nodeQuery('Session');
+  if (filter.from) sessionQuery.where('startedAt', 'gte', filter.from);
+  if (filter.to) sessionQuery.where('startedAt', 'lt', filter.to);
+
+  const [sessions, stages] = await Promise.all([graphStore.select(sessionQuery), graphStore.select(nodeQuery('Stage'))]);
+  const userIds = Array.from(new Set(sessions.map(session => session.properties.userId as string)));
+  const cohortAnswers = () => nodeQuery('Answer').where('userId', 'in', userIds);
+
+  const [answers, answered, contradictions, alignments, superseded, principles] = await Promise.all([
+    graphStore.select(cohortAnswers()),
+    graphStore.findRelationships('ANSWERS', { start: cohortAnswers(), end: nodeQuery('Question') }),
+    graphStore.findRelationships('CONTRADICTS', { start: cohortAnswers(), end: nodeQuery('Answer') }),
+    graphStore.findRelationships('ALIGNS_WITH', { start: cohortAnswers(), end: nodeQuery('Framework') }),
+    findSupersededAnswerIds(cohortAnswers()),
+    graphStore.select(nodeQuery('Principle').where('userId', 'in', userIds)),
+  ]);
+  const [questions, frameworks] = await Promise.all([
+    graphStore.select(nodeQuery('Question').where('id', 'in', distinct(answered.map(relationship => relationship.end)))),
+    graphStore.select(nodeQuery('Framework').where('id', 'in', distinct(alignments.map(relationship => relationship.end)))),
+  ]);
+
+  return {
+    sessions,
+    stageNumbers: stages.map(stage => stage.properties.stageNumber as number).sort((a, b) => a - b),
+    answerOwners: new Map(answers.map(answer => [answer.id, answer.properties.userId as string])),
+    answered,
+    contradictions,
+    alignments,
+    superseded,
+    principles,
+    questions: new Map(questions.map(question => [question.id, question])),
+    frameworks: new Map(frameworks.map(framework => [framework.id, framework])),
+  };
+}
+
+interface Totals {
+  sessions: number;
+  averageQuestions: number;
+  averageContradictions: number;
+  completed: number;
+  averageCompletionSeconds: number | null;
+  stageNumbers: number[];
+  currentStages: number[];
+}
+
+function findTotals(cohort: Cohort): Totals {
+  const finalStage = cohort.stageNumbers.length > 0 ? Math.max(...cohort.stageNumbers) : null;
+  const questionsByUser = groupDistinct(cohort.answered, relationship => [
+    cohort.answerOwners.get(relationship.start),
+    relationship.end,
+  ]);
+  // An implied contradiction counts once across the edges of its group
+  const contradictionsByUser = groupDistinct(cohort.contradictions, relationship => [
+    cohort.answerOwners.get(relationship.start),
+    String(relationship.properties.groupId ?? relationship.properties.id),
+  ]);
+
+  // Whole seconds from start to last activity, for sessions that reached the final stage
+  const completionSeconds = cohort.sessions
+    .filter(session => session.properties.currentStage === finalStage)
+    .map(session => Math.trunc(
+      (Date.parse(session.properties.lastActiveAt as string) - Date.parse(session.properties.startedAt as string)) / 1000
+    ));
+
+  const userIds = cohort.sessions.map(session => session.properties.userId as string);
+  return {
+    sessions: cohort.sessions.length,
+    averageQuestions: average(userIds.map(userId => questionsByUser.get(userId)?.size ?? 0)) ?? 0,
+    averageContradictions: average(userIds.map(userId => contradictionsByUser.get(userId)?.size ?? 0)) ?? 0,
+    completed: completionSeconds.length,
+    averageCompletionSeconds: completionSeconds.length > 0 ? Math.round(average(completionSeconds) as number) : null,
+    stageNumbers: cohort.stageNumbers,
+    currentStages: cohort.sessions.map(session => session.properties.currentStage as number),
+  };
+}
+
+/**
+ * Each user counts once, for the framework their current answers align with most strongly
+ */
+function findCommonFrameworks(cohort: Cohort, minCohortSize: number): SessionStatistics['commonFrameworks'] {
+  const strengths = new Map<string, Map<string, number[]>>(); // userId to framework name to strengths
+  cohort.alignments
+    .filter(relationship => !cohort.superseded.has(relationship.start))
+    .forEach(relationship => {
+      const userId = cohort.answerOwners.get(relationship.start) as string;
+      const framework = cohort.frameworks.get(relationship.end)?.properties.name as string;
+      const byFramework = strengths.get(userId) ?? new Map<string, number[]>();
+      byFramework.set(framework, [...(byFramework.get(framework) ?? []), relationship.properties.strength as number]);
+      strengths.set(userId, byFramework);
+    });
+
+  const users = new Map<string, number>();
+  strengths.forEach(byFramework => {
+    const [strongest] = Array.from(byFramework.entries())
+      .map(([framework, values]) => ({ framework, strength: average(values) as number }))
+      .sort((a, b) => b.strength - a.strength || compareText(a.framework, b.framework));
+    users.set(strongest.framework, (users.get(strongest.framework) ?? 0) + 1);
+  });
+
+  return Array.from(users.entries())
+    .filter(([, count]) => count >= minCohortSize)
+    .sort(([aName, a], [bName, b]) => b - a || compareText(aName, bName))
+    .slice(0, Constants.MAX_COMMON_ITEMS)
+    .map(([framework, count]) => ({
+      framework,
+      percentage: Math.round((count / cohort.sessions.length) * 100),
+    }));
+}
+
+/**
+ * Principles held by several users, matched on their text ignoring case
+ */
+function findCommonPrinciples(cohort: Cohort, minCohortSize: number): SessionStatistics['commonPrinciples'] {
+  const byText = new Map<string, { principle: string; users: Set<string> }>();
+  cohort.principles.forEach(principle => {
+    const text = principle.properties.text as string;
+    const key = text.trim().toLowerCase();
+    const entry = byText.get(key) ?? { principle: text, users: new Set<string>() };
+    entry.users.add(principle.properties.userId as string);
+    byText.set(key, entry);
+  });
+
+  return Array.from(byText.values())
+    .filter(entry => entry.users.size >= minCohortSize)
+    .sort((a, b) => b.users.size - a.users.size || compareText(a.principle, b.principle))
+    .slice(0, Constants.MAX_COMMON_ITEMS)
+    .map(entry => ({ principle: entry.principle, frequency: entry.users.size }));
+}
+
+/**
+ * Pairs of questions whose answers contradicted for several users
+ */
+function findCommonContradictions(cohort: Cohort, minCohortSize: number): SessionStatistics['commonContradictions'] {
+  const questionsOf = (answerId: string) => cohort.answered
+    .filter(relationship => relationship.start === answerId)
+    .map(relationship => relationship.end);
+
+  const pairs = new Map<string, { ids: [string, string]; users: Set<string>; resolved: number[] }>();
+  cohort.contradictions.forEach(contradiction => {
+    for (const first of questionsOf(contradiction.start)) {
+      for (const second of questionsOf(contradiction.end).filter(id => id !== first)) {
+        const ids: [string, string] = first < second ? [first, second] : [second, first];
+        const pair = pairs.get(ids.join()) ?? { ids, users: new Set<string>(), resolved: [] };
+        pair.users.add(cohort.answerOwners.get(contradiction.start) as string);
+        pair.resolved.push(contradiction.properties.resolved === true ? 1 : 0);
+        pairs.set(ids.join(), pair);
+      }
+    }
+  });
+
+  return Array.from(pairs.values())
+    .filter(pair => pair.users.size >= minCohortSize)
+    .sort((a, b) => b.users.size - a.users.size
+      || compareText(a.ids[0], b.ids[0])
+      || compareText(a.ids[1], b.ids[1]))
+    .slice(0, Constants.MAX_COMMON_ITEMS)
+    .map(pair => ({
+      questionIds: pair.ids,
+      questions: pair.ids.map(id => cohort.questions.get(id)?.properties.text as string) as [string, string],
+      frequency: pair.users.size,
+      resolvedRate: average(pair.resolved) as number,
+    }));
+}
+
+/**
+ * Distinct values per key, from [key, value] pairs; entries with no key are dropped
+ */
+function groupDistinct<T>(items: T[], pair: (item: T) => [string | undefined, string]): Map<string, Set<string>> {
+  const groups = new Map<string, Set<string>>();
+  items.forEach(item => {
+    const [key, value] = pair(item);
+    if (key !== undefined) {
+      groups.set(key, (groups.get(key) ?? new Set<string>()).add(value));
+    }
+  });
+  return groups;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function distinct(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// Code point order, as ORDER BY compares strings
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,134 @@
+// src/lib/graph/queries/answer.ts
+
+import { AnswerNode, ModifiesRelationship } from '../../types';
+import { graphStore } from '../graph-store';
+import { stripUndefined } from '../neo4j-client';
+import { answerRepository } from '../nodes/answer';
+import { NodeQuery, nodeQuery } from '../query-builder';
+
+/**
+ * One version in an answer's revision history
+ */
+export interface AnswerVersion {
+  answer: AnswerNode;
+  modification?: ModifiesRelationship['properties']; // Why this version replaced the previous one
+}
+
+/**
+ * Find an answer by ID
+ */
+export async function findAnswer(answerId: string): Promise<AnswerNode | null> {
+  return answerRepository.findById(answerId);
+}
+
+/**
+ * Create an answer that ANSWERS a question, returning false if the question does not exist
+ */
+export async function createAnswer(answer: AnswerNode, questionId: string): Promise<boolean> {
+  answerRepository.assertValid(answer);
+  return graphStore.transaction(async store => {
+    if (!await store.findNodeById('Question', questionId)) {
+      return false;
+    }
+
+    await store.createNode(['Answer'], stripUndefined(answer));
+    await store.createRelationship(
+      { label: 'Answer', id: answer.id },
+      { label: 'Question', id: questionId },
+      'ANSWERS',
+      { createdAt: answer.createdAt }
+    );
+    return true;
+  });
+}
+
+/**
+ * Check whether an answer has been superseded by a revision
+ */
+export async function isAnswerSuperseded(answerId: string): Promise<boolean> {
+  const revisions = await graphStore.findRelationships('MODIFIES', {
+    end: nodeQuery('Answer').where('id', 'eq', answerId),
+  });
+  return revisions.length > 0;
+}
+
+/**
+ * Find the IDs of the matched answers that a revision has replaced
+ */
+export async function findSupersededAnswerIds(answers: NodeQuery<'Answer'>): Promise<Set<string>> {
+  const revisions = await graphStore.findRelationships('MODIFIES', { start: nodeQuery('Answer'), end: answers });
+  return new Set(revisions.map(revision => revision.end));
+}
+
+/**
+ * Create a revised answer that MODIFIES the previous version and answers the same question.
+ * Does nothing if the previous version does not exist.
+ */
+export async function createAnswerRevision(
+  previousAnswerId: string,
+  revision: AnswerNode,
+  modification: ModifiesRelationship['properties']
+): Promise<void> {
+  answerRepository.assertValid(revision);
+  await graphStore.transaction(async store => {
+    if (!await store.findNodeById('Answer', previousAnswerId)) {
+      return;
+    }
+    const answered = await store.findRelationships('ANSWERS', {
+      start: nodeQuery('Answer').where('id', 'eq', previousAnswerId),
+      end: nodeQuery('Question'),
+    });
+
+    const revisionRef = { label: 'Answer' as const, id: revision.id };
+    await store.createNode(['Answer'], stripUndefined(revision));
+    await store.createRelationship(revisionRef, { label: 'Answer', id: previousAnswerId }, 'MODIFIES', {
+      ...modification,
+      createdAt: revision.createdAt,
+    });
+    for (const relationship of answered) {
+      await store.createRelationship(revisionRef, { label: 'Question', id: relationship.end }, 'ANSWERS', {
+        createdAt: revision.createdAt,
+      });
+    }
+  });
+}
+
+/**
+ * Get the full revision chain containing an answer, oldest version first
+ */
+export async function findRevisionChain(answerId: string): Promise<AnswerVersion[]> {
+  const answer = await answerRepository.findById(answerId);
+  if (!answer) {
+    return [];
+  }
+
+  // Revisions stay with the user, so their MODIFIES edges hold the whole chain
+  const modifies = await graphStore.findRelationships('MODIFIES', {
+    start: nodeQuery('Answer').where('userId', 'eq', answer.userId),
+    end: nodeQuery('Answer'),
+  });
+  const newer = new Map(modifies.map(relationship => [relationship.end, relationship]));
+  const older = new Map(modifies.map(relationship => [relationship.start, relationship]));
+
+  let latest = answerId;
+  const seen = new Set([latest]);
+  for (let edge = newer.get(latest); edge && !seen.has(edge.start); edge = newer.get(latest)) {
+    latest = edge.start;
+    seen.add(latest);
+  }
+
+  // Walk newest to oldest; modification i explains why version i replaced version i + 1
+  const ids = [latest];
+  const modifications: Array<ModifiesRelationship['properties']> = [];
+  for (let edge = older.get(latest); edge && !ids.includes(edge.end); edge = older.get(edge.end)) {
+    modifications.push(edge.properties as ModifiesRelationship['properties']);
+    ids.push(edge.end);
+  }
+
+  const versions = new Map(
+    (await answerRepository.select(nodeQuery('Answer').where('id', 'in', ids))).map(version => [version.id, version])
+  );
+  return ids
+    .map((id, index) => ({ answer: versions.get(id) as AnswerNode, modification: modifications[index] }))
+    .reverse();
+}
@@ -0,0 +1,298 @@
+// src/lib/graph/queries/contradiction.ts
+
+import { ContradictionRelationship, GraphRelationship } from '../../types';
+import { graphStore } from '../graph-store';
+import { stripUndefined } from '../neo4j-client';
+import { NodeQuery, nodeQuery } from '../query-builder';
+import { findSupersededAnswerIds } from './answer';
+
+/**
+ * An answer together with the question it responds to
+ */
+export interface AnsweredQuestion {
+  answerId: string;
+  answerText: string;
+  questionId: string;
+  questionText: string;
+  stage: number;
+}
+
+/**
+ * Another answer by the same user, with the graph signals linking it to a target answer
+ */
+export interface ContradictionCandidate extends AnsweredQuestion {
+  sharedPrinciples: string[];
+  sharedFrameworks: string[];
+}
+
+/**
+ * An answer or principle with a logical form, as input to the logic engine
+ */
+export interface KnowledgeSource {
+  id: string;
+  type: 'answer' | 'principle';
+  text: string;
+  logicalForm: string;
+  propositions: string[];
+  answerIds: string[]; // The answer itself, or the answers a principle was derived from
+}
+
+/**
+ * A CONTRADICTS edge (or group of edges, for implied contradictions) by ID
+ */
+export interface StoredContradiction {
+  id: string;
+  userId: string;
+  answerIds: string[];
+  properties: ContradictionRelationship['properties'];
+}
+
+/**
+ * Find an answer and the question it answers
+ */
+export async function findAnsweredQuestion(answerId: string): Promise<AnsweredQuestion | null> {
+  const [answered] = await graphStore.findRelationships('ANSWERS', {
+    start: nodeQuery('Answer').where('id', 'eq', answerId),
+    end: nodeQuery('Question'),
+  });
+  if (!answered) {
+    return null;
+  }
+
+  const [answer, question] = await Promise.all([
+    graphStore.findNodeById('Answer', answerId),
+    graphStore.findNodeById('Question', answered.end),
+  ]);
+  if (!answer || !question) {
+    return null;
+  }
+
+  return {
+    answerId,
+    answerText: answer.properties.text as string,
+    questionId: question.id,
+    questionText: question.properties.text as string,
+    stage: question.properties.stage as number,
+  };
+}
+
+/**
+ * Find the user's other current answers that could contradict a given answer.
+ * Superseded answer versions and pairs already linked by CONTRADICTS are excluded.
+ * Shared principles (each answer upholding or weakening it) and shared ALIGNS_WITH
+ * frameworks are collected for ranking.
+ */
+export async function findContradictionCandidates(
+  answerId: string,
+  userId: string
+): Promise<ContradictionCandidate[]> {
+  if (!await graphStore.findNodeById('Answer', answerId)) {
+    return [];
+  }
+
+  const userAnswers = () => nodeQuery('Answer').where('userId', 'eq', userId);
+  const [answers, answered, superseded, linked, principles, alignments] = await Promise.all([
+    graphStore.select(userAnswers()),
+    graphStore.findRelationships('ANSWERS', { start: userAnswers(), end: nodeQuery('Question') }),
+    findSupersededAnswerIds(userAnswers()),
+    findContradictionsTouching(nodeQuery('Answer').where('id', 'eq', answerId)),
+    graphStore.select(nodeQuery('Principle').where('userId', 'eq', userId)),
+    graphStore.findRelationships('ALIGNS_WITH', { start: userAnswers(), end: nodeQuery('Framework') }),
+  ]);
+  const [questions, frameworks] = await Promise.all([
+    findNodesById('Question', answered.map(relationship => relationship.end)),
+    findNodesById('Framework', alignments.map(relationship => relationship.end)),
+  ]);
+
+  const texts = new Map(answers.map(answer => [answer.id, answer.properties.text as string]));
+  const linkedIds = new Set(linked.flatMap(relationship => [relationship.start, relationship.end]));
+  const frameworksOf = (id: string) => new Set(alignments
+    .filter(relationship => relationship.start === id)
+    .map(relationship => frameworks.get(relationship.end)?.properties.name as string));
+  const targetFrameworks = frameworksOf(answerId);
+
+  // An answer bears on a principle by supporting it or by going against it
+  const bearsOn = (principle: typeof principles[number], id: string) =>
+    listProperty(principle.properties.derivedFrom).includes(id) || listProperty(principle.properties.weakenedBy).includes(id);
+
+  return answered
+    .filter(relationship => relationship.start !== answerId
+      && !superseded.has(relationship.start)
+      && !linkedIds.has(relationship.start))
+    .map(relationship => {
+      const question = questions.get(relationship.end);
+      return {
+        answerId: relationship.start,
+        answerText: texts.get(relationship.start) as string,
+        questionId: relationship.end,
+        questionText: question?.properties.text as string,
+        stage: question?.properties.stage as number,
+        sharedPrinciples: Array.from(new Set(principles
+          .filter(principle => bearsOn(principle, answerId) && bearsOn(principle, relationship.start))
+          .map(principle => principle.properties.text as string))),
+        sharedFrameworks: Array.from(frameworksOf(relationship.start)).filter(name => targetFrameworks.has(name)),
+      };
+    });
+}
+
+/**
+ * Record a CONTRADICTS edge between two answers
+ */
+export async function createContradiction(
+  answerId1: string,
+  answerId2: string,
+  properties: ContradictionRelationship['properties'] & { createdAt: string }
+): Promise<void> {
+  await graphStore.createRelationship(
+    { label: 'Answer', id: answerId1 },
+    { label: 'Answer', id: answerId2 },
+    'CONTRADICTS',
+    stripUndefined(properties)
+  );
+}
+
+/**
+ * Find the CONTRADICTS edges with either end among the matched answers, each once
+ */
+export async function findContradictionsTouching(
+  answers: NodeQuery<'Answer'>,
+  properties: Partial<ContradictionRelationship['properties']> = {}
+): Promise<GraphRelationship[]> {
+  const [outgoing, incoming] = await Promise.all([
+    graphStore.findRelationships('CONTRADICTS', { start: answers, end: nodeQuery('Answer'), properties }),
+    graphStore.findRelationships('CONTRADICTS', { start: nodeQuery('Answer'), end: answers, properties }),
+  ]);
+  return Array.from(new Map([...outgoing, ...incoming].map(relationship => [relationship.elementId, relationship])).values());
+}
+
+/**
+ * Find a contradiction by ID.
+ * Implied contradictions span several edges that share one ID; their answers are merged.
+ */
+export async function findContradiction(contradictionId: string): Promise<StoredContradiction | null> {
+  const edges = await graphStore.findRelationships('CONTRADICTS', {
+    start: nodeQuery('Answer'),
+    end: nodeQuery('Answer'),
+    properties: { id: contradictionId },
+  });
+  if (edges.length === 0) {
+    return null;
+  }
+
+  const answer = await graphStore.findNodeById('Answer', edges[0].start);
+  return {
+    id: contradictionId,
+    userId: answer?.properties.userId as string,
+    answerIds: Array.from(new Set(edges.flatMap(edge => [edge.start, edge.end]))),
+    properties: edges[0].properties as ContradictionRelationship['properties'],
+  };
+}
+
+/**
+ * Find the IDs of unresolved contradictions involving an answer
+ */
+export async function findOpenContradictionIds(answerId: string): Promise<string[]> {
+  const edges = await findContradictionsTouching(nodeQuery('Answer').where('id', 'eq', answerId), { resolved: false });
+  return distinctIds(edges);
+}
+
+/**
+ * Find the IDs of all of a user's unresolved contradictions, whatever stage their answers are in
+ */
+export async function findUserOpenContradictionIds(userId: string): Promise<string[]> {
+  const edges = await findContradictionsTouching(nodeQuery('Answer').where('userId', 'eq', userId), { resolved: false });
+  return distinctIds(edges);
+}
+
+/**
+ * Mark every edge of a contradiction as resolved
+ */
+export async function markContradictionResolved(
+  contradictionId: string,
+  resolution: Pick<
+    ContradictionRelationship['properties'],
+    'resolutionType' | 'resolutionExplanation' | 'resolutionTimestamp' | 'overwrittenAnswerId' | 'newAnswerId'
+  >
+): Promise<void> {
+  await graphStore.updateRelationships(
+    'CONTRADICTS',
+    { start: nodeQuery('Answer'), end: nodeQuery('Answer'), properties: { id: contradictionId } },
+    { ...stripUndefined(resolution), resolved: true }
+  );
+}
+
+/**
+ * Store the logical form of an answer
+ */
+export async function updateAnswerLogicalForm(
+  answerId: string,
+  logicalForm: string,
+  propositions: string[]
+): Promise<void> {
+  await graphStore.updateNode('Answer', answerId, { logicalForm, propositions, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Find the user's current answers and derived principles that have a logical form
+ */
+export async function findKnowledgeSources(userId: string): Promise<KnowledgeSource[]> {
+  const [answers, superseded, principles] = await Promise.all([
+    graphStore.select(nodeQuery('Answer').where('userId', 'eq', userId)),
+    findSupersededAnswerIds(nodeQuery('Answer').where('userId', 'eq', userId)),
+    graphStore.select(nodeQuery('Principle').where('userId', 'eq', userId)),
+  ]);
+
+  const current = answers.filter(answer => answer.properties.logicalForm !== undefined && !superseded.has(answer.id));
+  const currentIds = new Set(current.map(answer => answer.id));
+
+  return [
+    ...current.map(answer => ({
+      id: answer.id,
+      type: 'answer' as const,
+      text: answer.properties.text as string,
+      logicalForm: answer.properties.logicalForm as string,
+      propositions: listProperty(answer.properties.propositions),
+      answerIds: [answer.id],
+    })),
+    ...principles
+      .map(principle => ({
+        id: principle.id,
+        type: 'principle' as const,
+        text: principle.properties.text as string,
+        logicalForm: principle.properties.logicalForm as string,
+        propositions: [],
+        answerIds: listProperty(principle.properties.derivedFrom).filter(id => currentIds.has(id)),
+      }))
+      .filter(principle => principle.logicalForm !== undefined && principle.answerIds.length > 0),
+  ];
+}
+
+/**
+ * Find the answer sets of implied contradictions already recorded for a user
+ */
+export async function findImpliedContradictionGroups(userId: string): Promise<string[][]> {
+  const edges = await graphStore.findRelationships('CONTRADICTS', {
+    start: nodeQuery('Answer').where('userId', 'eq', userId),
+    end: nodeQuery('Answer'),
+    properties: { kind: 'implied' },
+  });
+
+  const groups = new Map(edges.map(edge => {
+    const answerIds = listProperty(edge.properties.answerIds);
+    return [JSON.stringify([edge.properties.groupId, answerIds]), answerIds];
+  }));
+  return Array.from(groups.values());
+}
+
+async function findNodesById(label: 'Question' | 'Framework', ids: string[]) {
+  const nodes = await graphStore.select(nodeQuery(label).where('id', 'in', Array.from(new Set(ids))));
+  return new Map(nodes.map(node => [node.id, node]));
+}
+
+function listProperty(value: unknown): string[] {
+  return Array.isArray(value) ? value as string[] : [];
+}
+
+function distinctIds(edges: GraphRelationship[]): string[] {
+  return Array.from(new Set(edges.map(edge => edge.properties.id as string)));
+}
@@ -0,0 +1,155 @@
+// src/lib/graph/queries/framework.ts
+
+import { AlignsWithRelationship, FrameworkNode, NodeType } from '../../types';
+import { graphStore } from '../graph-store';
+import { frameworkRepository } from '../nodes/framework';
+import { nodeQuery } from '../query-builder';
+import { findSupersededAnswerIds } from './answer';
+
+export type AlignmentSourceType = 'answer' | 'principle';
+
+// Node labels for each kind of statement that can align with a framework
+const SOURCE_LABELS: Record<AlignmentSourceType, NodeType> = {
+  answer: 'Answer',
+  principle: 'Principle',
+};
+
+/**
+ * An answer or principle that has not been scored against the frameworks yet
+ */
+export interface UnscoredStatement {
+  type: AlignmentSourceType;
+  id: string;
+  statement: string;
+  context: string;
+}
+
+/**
+ * One ALIGNS_WITH edge from a user's current answer or principle
+ */
+export interface AlignmentEdge {
+  sourceType: AlignmentSourceType;
+  sourceId: string;
+  weight: number; // Principle confidence; 1 for answers
+  frameworkId: string;
+  strength: number;
+  reasoning: string | null;
+}
+
+/**
+ * Find every framework, by name
+ */
+export async function findFrameworks(): Promise<FrameworkNode[]> {
+  return frameworkRepository.select(nodeQuery('Framework').orderBy('name'));
+}
+
+/**
+ * Find a user's current answers and principles with no ALIGNS_WITH edges yet
+ */
+export async function findUnscoredStatements(userId: string): Promise<UnscoredStatement[]> {
+  const userAnswers = () => nodeQuery('Answer').where('userId', 'eq', userId);
+  const userPrinciples = () => nodeQuery('Principle').where('userId', 'eq', userId);
+  const [answers, answered, superseded, principles, answerAlignments, principleAlignments] = await Promise.all([
+    graphStore.select(userAnswers()),
+    graphStore.findRelationships('ANSWERS', { start: userAnswers(), end: nodeQuery('Question') }),
+    findSupersededAnswerIds(userAnswers()),
+    graphStore.select(userPrinciples()),
+    graphStore.findRelationships('ALIGNS_WITH', { start: userAnswers(), end: nodeQuery('Framework') }),
+    graphStore.findRelationships('ALIGNS_WITH', { start: userPrinciples(), end: nodeQuery('Framework') }),
+  ]);
+  const questions = await graphStore.select(
+    nodeQuery('Question').where('id', 'in', Array.from(new Set(answered.map(relationship => relationship.end))))
+  );
+
+  const scored = new Set([...answerAlignments, ...principleAlignments].map(relationship => relationship.start));
+  const texts = new Map(answers.map(answer => [answer.id, answer.properties.text as string]));
+  const questionTexts = new Map(questions.map(question => [question.id, question.properties.text as string]));
+
+  return [
+    ...answered
+      .filter(relationship => !superseded.has(relationship.start) && !scored.has(relationship.start))
+      .map(relationship => ({
+        type: 'answer' as const,
+        id: relationship.start,
+        statement: texts.get(relationship.start) as string,
+        context: `Question: ${questionTexts.get(relationship.end)}`,
+      })),
+    ...principles
+      .filter(principle => !scored.has(principle.id))
+      .map(principle => ({
+        type: 'principle' as const,
+        id: principle.id,
+        statement: principle.properties.text as string,
+        context: (principle.properties.description as string | undefined) ?? '',
+      })),
+  ];
+}
+
+/**
+ * Create or replace the ALIGNS_WITH edges from an answer or principle to frameworks.
+ * Frameworks that do not exist are skipped.
+ */
+export async function saveAlignments(
+  sourceType: AlignmentSourceType,
+  sourceId: string,
+  alignments: Array<{ frameworkId: string } & AlignsWithRelationship['properties']>
+): Promise<void> {
+  const label = SOURCE_LABELS[sourceType];
+  const now = new Date().toISOString();
+
+  await graphStore.transaction(async store => {
+    for (const alignment of alignments) {
+      const properties = {
+        strength: alignment.strength,
+        reasoning: alignment.reasoning ?? null,
+        promptId: alignment.promptId ?? null,
+        promptVersion: alignment.promptVersion ?? null,
+        updatedAt: now,
+      };
+      const updated = await store.updateRelationships('ALIGNS_WITH', {
+        start: nodeQuery(label).where('id', 'eq', sourceId),
+        end: nodeQuery('Framework').where('id', 'eq', alignment.frameworkId),
+      }, properties);
+
+      if (updated === 0) {
+        await store.createRelationships('ALIGNS_WITH', label, 'Framework', [
+          { start: sourceId, end: alignment.frameworkId, properties: { ...properties, createdAt: now } },
+        ]);
+      }
+    }
+  });
+}
+
+/**
+ * Find the ALIGNS_WITH edges from a user's current answers and principles
+ */
+export async function findAlignmentEdges(userId: string): Promise<AlignmentEdge[]> {
+  const [answerAlignments, superseded, principles, principleAlignments] = await Promise.all([
+    graphStore.findRelationships('ALIGNS_WITH', {
+      start: nodeQuery('Answer').where('userId', 'eq', userId),
+      end: nodeQuery('Framework'),
+    }),
+    findSupersededAnswerIds(nodeQuery('Answer').where('userId', 'eq', userId)),
+    graphStore.select(nodeQuery('Principle').where('userId', 'eq', userId)),
+    graphStore.findRelationships('ALIGNS_WITH', {
+      start: nodeQuery('Principle').where('userId', 'eq', userId),
+      end: nodeQuery('Framework'),
+    }),
+  ]);
+  const confidence = new Map(principles.map(principle => [principle.id, principle.properties.confidence as number | undefined]));
+
+  const edge = (sourceType: AlignmentSourceType, weight: number) =>
+    (relationship: typeof answerAlignments[number]): AlignmentEdge => ({
+      sourceType,
+      sourceId: relationship.start,
+      weight,
+      frameworkId: relationship.end,
+      strength: relationship.properties.strength as number,
+      reasoning: (relationship.properties.reasoning as string | undefined) ?? null,
+    });
+
+  return [
+    ...answerAlignments.filter(relationship => !superseded.has(relationship.start)).map(edge('answer', 1)),
+    ...principleAlignments.map(relationship => edge('principle', confidence.get(relationship.start) ?? 0)(relationship)),
+  ];
+}
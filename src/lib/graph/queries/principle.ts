@@ -0,0 +1,86 @@
+// src/lib/graph/queries/principle.ts
+
+import { PrincipleNode } from '../../types';
+import { graphStore } from '../graph-store';
+import { stripUndefined } from '../neo4j-client';
+import { principleRepository } from '../nodes/principle';
+import { nodeQuery } from '../query-builder';
+import { findSupersededAnswerIds } from './answer';
+import { findContradictionsTouching } from './contradiction';
+
+/**
+ * Current evidence for and against one principle
+ */
+export interface PrincipleEvidence {
+  principleId: string;
+  supporting: number; // Current answers the principle is derived from
+  weakening: number; // Current answers that go against it
+  openContradictions: number; // Unresolved contradictions involving a supporting answer
+}
+
+/**
+ * Find a user's principles, most confident first
+ */
+export async function findUserPrinciples(userId: string): Promise<PrincipleNode[]> {
+  return principleRepository.select(nodeQuery('Principle')
+    .where('userId', 'eq', userId)
+    .orderBy('confidence', 'DESC')
+    .orderBy('createdAt'));
+}
+
+/**
+ * Create a principle
+ */
+export async function createPrinciple(principle: PrincipleNode): Promise<void> {
+  principleRepository.assertValid(principle);
+  await graphStore.createNode(['Principle'], stripUndefined(principle));
+}
+
+/**
+ * Update a principle's properties
+ */
+export async function updatePrinciple(
+  principleId: string,
+  properties: Partial<Omit<PrincipleNode, 'id' | 'createdAt'>>
+): Promise<void> {
+  await graphStore.updateNode('Principle', principleId, stripUndefined(properties));
+}
+
+/**
+ * Count the current evidence for and against each of a user's principles.
+ * Superseded answer versions no longer count either way.
+ */
+export async function findPrincipleEvidence(userId: string): Promise<PrincipleEvidence[]> {
+  const principles = await graphStore.select(nodeQuery('Principle').where('userId', 'eq', userId));
+  const supportingIds = (principle: typeof principles[number]) => listProperty(principle.properties.derivedFrom);
+  const weakeningIds = (principle: typeof principles[number]) => listProperty(principle.properties.weakenedBy);
+
+  const referenced = Array.from(new Set(principles.flatMap(principle => [
+    ...supportingIds(principle),
+    ...weakeningIds(principle),
+  ])));
+  const [answers, superseded, contradictions] = await Promise.all([
+    graphStore.select(nodeQuery('Answer').where('id', 'in', referenced)),
+    findSupersededAnswerIds(nodeQuery('Answer').where('id', 'in', referenced)),
+    findContradictionsTouching(nodeQuery('Answer').where('id', 'in', referenced), { resolved: false }),
+  ]);
+  const current = new Set(answers.map(answer => answer.id).filter(id => !superseded.has(id)));
+
+  return principles.map(principle => {
+    const supporting = new Set(supportingIds(principle).filter(id => current.has(id)));
+    const open = contradictions
+      .filter(contradiction => supporting.has(contradiction.start) || supporting.has(contradiction.end))
+      .map(contradiction => contradiction.properties.id);
+
+    return {
+      principleId: principle.id,
+      supporting: supporting.size,
+      weakening: new Set(weakeningIds(principle).filter(id => current.has(id))).size,
+      openContradictions: new Set(open).size,
+    };
+  });
+}
+
+function listProperty(value: unknown): string[] {
+  return Array.isArray(value) ? value as string[] : [];
+}
@@ -0,0 +1,177 @@
+// src/lib/graph/queries/session.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContradictionRelationship, SessionAnswer, SessionEvent, SessionEventNode, SessionNode } from '../../types';
+import { graphStore } from '../graph-store';
+import { stripUndefined } from '../neo4j-client';
+import { nodeQuery } from '../query-builder';
+
+/**
+ * One CONTRADICTS edge between two of a user's answers, with the questions they answer
+ */
+export interface ContradictionEdge {
+  id: string;
+  startAnswerId: string;
+  endAnswerId: string;
+  startQuestionId: string | null;
+  endQuestionId: string | null;
+  properties: ContradictionRelationship['properties'] & { createdAt?: string };
+}
+
+/**
+ * Create a session for a user, or return the user's existing session.
+ * A user has one session; their answers and contradictions are keyed by userId.
+ */
+export async function createSession(session: SessionNode): Promise<SessionNode> {
+  return graphStore.transaction(async store => {
+    const [existing] = await store.findNodes('Session', { userId: session.userId });
+    const node = existing ?? await store.createNode(['Session'], stripUndefined(session));
+    return node.properties as unknown as SessionNode;
+  });
+}
+
+/**
+ * Find a session by ID
+ */
+export async function findSession(sessionId: string): Promise<SessionNode | null> {
+  const node = await graphStore.findNodeById('Session', sessionId);
+  return node ? node.properties as unknown as SessionNode : null;
+}
+
+/**
+ * Find the ID of a user's session, if they have one
+ */
+export async function findSessionIdForUser(userId: string): Promise<string | null> {
+  const [node] = await graphStore.findNodes('Session', { userId });
+  return node ? node.id : null;
+}
+
+/**
+ * Update a session's stored properties, returning null if the session does not exist
+ */
+export async function updateSession(
+  sessionId: string,
+  properties: Partial<Omit<SessionNode, 'id' | 'userId' | 'createdAt'>>
+): Promise<SessionNode | null> {
+  return graphStore.transaction(async store => {
+    if (!await store.findNodeById('Session', sessionId)) {
+      return null;
+    }
+    const node = await store.updateNode('Session', sessionId, stripUndefined(properties));
+    return node.properties as unknown as SessionNode;
+  });
+}
+
+/**
+ * Find every version of a user's answers with the question and stage each answers, oldest first
+ */
+export async function findSessionAnswers(userId: string): Promise<SessionAnswer[]> {
+  const [nodes, answered] = await Promise.all([
+    graphStore.select(nodeQuery('Answer').where('userId', 'eq', userId).orderBy('timestamp')),
+    graphStore.findRelationships('ANSWERS', {
+      start: nodeQuery('Answer').where('userId', 'eq', userId),
+      end: nodeQuery('Question'),
+    }),
+  ]);
+  const questions = await findQuestions(answered.map(relationship => relationship.end));
+
+  return nodes.flatMap(node => answered
+    .filter(relationship => relationship.start === node.id)
+    .map(relationship => ({
+      questionId: relationship.end,
+      answerId: node.id,
+      text: node.properties.text as string,
+      timestamp: node.properties.timestamp as string,
+      stage: questions.get(relationship.end)?.properties.stage as number,
+      modified: (node.properties.modified as boolean | undefined) ?? false,
+      previousVersionId: node.properties.previousVersion as string | undefined,
+    })));
+}
+
+/**
+ * Find every CONTRADICTS edge starting from one of a user's answers, oldest first
+ */
+export async function findContradictionEdges(userId: string): Promise<ContradictionEdge[]> {
+  const contradictions = await graphStore.findRelationships('CONTRADICTS', {
+    start: nodeQuery('Answer').where('userId', 'eq', userId),
+    end: nodeQuery('Answer'),
+  });
+  const answerIds = contradictions.flatMap(relationship => [relationship.start, relationship.end]);
+  const answered = await graphStore.findRelationships('ANSWERS', {
+    start: nodeQuery('Answer').where('id', 'in', Array.from(new Set(answerIds))),
+    end: nodeQuery('Question'),
+  });
+  const questionIds = new Map(answered.map(relationship => [relationship.start, relationship.end]));
+
+  return contradictions
+    .map(relationship => ({
+      id: relationship.properties.id as string,
+      startAnswerId: relationship.start,
+      endAnswerId: relationship.end,
+      startQuestionId: questionIds.get(relationship.start) ?? null,
+      endQuestionId: questionIds.get(relationship.end) ?? null,
+      properties: relationship.properties as ContradictionEdge['properties'],
+    }))
+    .sort((a, b) => compareTimestamps(a.properties.createdAt, b.properties.createdAt));
+}
+
+/**
+ * Append an event to a session's log, numbering it after the session's previous event.
+ * Returns null if the session does not exist.
+ */
+export async function appendSessionEvent(event: Omit<SessionEvent, 'seq'>): Promise<SessionEvent | null> {
+  return graphStore.transaction(async store => {
+    const seq = await store.incrementProperty('Session', event.sessionId, 'eventSeq');
+    if (seq === null) {
+      return null;
+    }
+
+    await store.createNode(['SessionEvent'], {
+      id: uuidv4(),
+      sessionId: event.sessionId,
+      seq,
+      type: event.type,
+      timestamp: event.timestamp,
+      data: JSON.stringify(event.data ?? null),
+      createdAt: event.timestamp,
+      updatedAt: event.timestamp,
+    });
+    return { ...event, seq };
+  });
+}
+
+/**
+ * Find a session's logged events after a sequence number, in order
+ */
+export async function findSessionEvents(sessionId: string, afterSeq = 0): Promise<SessionEvent[]> {
+  const nodes = await graphStore.select(nodeQuery('SessionEvent')
+    .where('sessionId', 'eq', sessionId)
+    .where('seq', 'gt', afterSeq)
+    .orderBy('seq'));
+
+  return nodes.map(({ properties }) => {
+    const node = properties as unknown as SessionEventNode;
+    return {
+      type: node.type,
+      sessionId: node.sessionId,
+      seq: node.seq,
+      timestamp: node.timestamp,
+      data: JSON.parse(node.data),
+    };
+  });
+}
+
+async function findQuestions(questionIds: string[]) {
+  const questions = await graphStore.select(nodeQuery('Question').where('id', 'in', Array.from(new Set(questionIds))));
+  return new Map(questions.map(question => [question.id, question]));
+}
+
+/**
+ * Oldest first, with missing timestamps last as ORDER BY puts nulls
+ */
+function compareTimestamps(a: string | undefined, b: string | undefined): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,117 @@
+// src/lib/graph/queries/stage.ts
+
+import { StageNode } from '../../types';
+import { graphStore } from '../graph-store';
+import { stageRepository } from '../nodes/stage';
+import { nodeQuery } from '../query-builder';
+import { findSupersededAnswerIds } from './answer';
+import { findContradictionsTouching } from './contradiction';
+
+/**
+ * A user's raw activity within one stage
+ */
+export interface StageActivity {
+  stage: number;
+  requiredAnswers: number;
+  questionsAnswered: number; // Current answer versions only
+  contradictionsFound: number;
+  contradictionsResolved: number;
+}
+
+/**
+ * Find a stage by number
+ */
+export async function findStage(stageNumber: number): Promise<StageNode | null> {
+  const [stage] = await stageRepository.select(nodeQuery('Stage').where('stageNumber', 'eq', stageNumber));
+  return stage ?? null;
+}
+
+/**
+ * Find the first stage: the one no other stage leads to via FOLLOWS
+ */
+export async function findFirstStage(): Promise<StageNode | null> {
+  const [stages, follows] = await Promise.all([findStagesInOrder(), findFollows()]);
+  const following = new Set(follows.map(relationship => relationship.end));
+  return stages.find(stage => !following.has(stage.id)) ?? null;
+}
+
+/**
+ * Find the numbers of the stages on the FOLLOWS path leading to a stage, first stage first
+ */
+export async function findPrecedingStageNumbers(stageNumber: number): Promise<number[]> {
+  const [stages, follows] = await Promise.all([findStagesInOrder(), findFollows()]);
+  const target = stages.find(stage => stage.stageNumber === stageNumber);
+  if (!target) {
+    return [];
+  }
+
+  // Walk FOLLOWS backwards from the stage, visiting each stage once
+  const preceding = new Set<string>();
+  const pending = [target.id];
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    follows
+      .filter(relationship => relationship.end === id && !preceding.has(relationship.start))
+      .forEach(relationship => {
+        preceding.add(relationship.start);
+        pending.push(relationship.start);
+      });
+  }
+
+  return Array.from(new Set(stages.filter(stage => preceding.has(stage.id)).map(stage => stage.stageNumber)));
+}
+
+/**
+ * Find the stage that follows a stage via FOLLOWS
+ */
+export async function findNextStage(stageNumber: number): Promise<StageNode | null> {
+  const [next] = await graphStore.findRelationships('FOLLOWS', {
+    start: nodeQuery('Stage').where('stageNumber', 'eq', stageNumber),
+    end: nodeQuery('Stage'),
+  });
+  return next ? stageRepository.findById(next.end) : null;
+}
+
+/**
+ * Count a user's answers and contradictions in every stage.
+ * Contradictions are counted once per ID, including those on superseded answer versions.
+ */
+export async function findStageActivity(userId: string): Promise<StageActivity[]> {
+  const userAnswers = () => nodeQuery('Answer').where('userId', 'eq', userId);
+  const [stages, answered, superseded, contradictions] = await Promise.all([
+    findStagesInOrder(),
+    graphStore.findRelationships('ANSWERS', { start: userAnswers(), end: nodeQuery('Question') }),
+    findSupersededAnswerIds(userAnswers()),
+    findContradictionsTouching(userAnswers()),
+  ]);
+  const belongs = await graphStore.findRelationships('BELONGS_TO', {
+    start: nodeQuery('Question').where('id', 'in', Array.from(new Set(answered.map(relationship => relationship.end)))),
+    end: nodeQuery('Stage'),
+  });
+
+  return stages.map(stage => {
+    const questionIds = new Set(belongs.filter(relationship => relationship.end === stage.id).map(relationship => relationship.start));
+    const answerIds = new Set(answered
+      .filter(relationship => questionIds.has(relationship.end))
+      .map(relationship => relationship.start));
+    const found = contradictions.filter(relationship => answerIds.has(relationship.start) || answerIds.has(relationship.end));
+
+    return {
+      stage: stage.stageNumber,
+      requiredAnswers: stage.requiredAnswers,
+      questionsAnswered: Array.from(answerIds).filter(id => !superseded.has(id)).length,
+      contradictionsFound: new Set(found.map(relationship => relationship.properties.id)).size,
+      contradictionsResolved: new Set(found
+        .filter(relationship => relationship.properties.resolved === true)
+        .map(relationship => relationship.properties.id)).size,
+    };
+  });
+}
+
+async function findStagesInOrder(): Promise<StageNode[]> {
+  return stageRepository.select(nodeQuery('Stage').orderBy('stageNumber'));
+}
+
+async function findFollows() {
+  return graphStore.findRelationships('FOLLOWS', { start: nodeQuery('Stage'), end: nodeQuery('Stage') });
+}
@@ -0,0 +1,127 @@
+// src/lib/graph/queries/traversal.ts
+
+import {
+  GraphNode,
+  GraphRelationship,
+  NodeRef,
+  PrecedesRelationship,
+  Subgraph,
+  TraversalOptions,
+} from '../../types';
+import { graphStore } from '../graph-store';
+import { nodeQuery } from '../query-builder';
+
+/**
+ * One answer that influenced a question, with what it touched
+ */
+export interface ProvenanceReason {
+  answerId: string;
+  answerText: string;
+  influenceType: PrecedesRelationship['properties']['influenceType'];
+  weight: number;
+  supports: string[]; // Principles derived from the answer
+  weakens: string[]; // Principles the answer goes against
+  contradictions: string[]; // CONTRADICTS edge ids involving the answer
+}
+
+/**
+ * Why a question was asked.
+ * The subgraph holds the question, the answers that PRECEDE it, the principles those answers
+ * support or weaken, and the other side of any contradiction they are part of.
+ * Principles are linked to answers by their derivedFrom and weakenedBy properties rather
+ * than by edges, so reasons spell out those links for rendering.
+ */
+export interface QuestionProvenance extends Subgraph {
+  questionId: string;
+  reasons: ProvenanceReason[]; // Strongest influence first
+}
+
+/**
+ * Merge paths (or other subgraphs) into one subgraph, keeping each node and relationship once
+ */
+export function mergePaths(paths: Subgraph[]): Subgraph {
+  const nodes = new Map<string, GraphNode>();
+  const relationships = new Map<string, GraphRelationship>();
+
+  for (const path of paths) {
+    path.nodes.forEach(node => nodes.set(node.elementId, node));
+    path.relationships.forEach(relationship => relationships.set(relationship.elementId, relationship));
+  }
+
+  return {
+    nodes: Array.from(nodes.values()),
+    relationships: Array.from(relationships.values()),
+  };
+}
+
+/**
+ * Everything reachable from a node within the traversal options, as one subgraph
+ */
+export async function findConnected(start: NodeRef, options: TraversalOptions = {}): Promise<Subgraph> {
+  return mergePaths(await graphStore.traverse(start, options));
+}
+
+/**
+ * The distinct nodes that paths from a node end at
+ */
+export async function findNeighbours(start: NodeRef, options: TraversalOptions = {}): Promise<GraphNode[]> {
+  const paths = await graphStore.traverse(start, options);
+  const ends = new Map<string, GraphNode>();
+  paths.forEach(path => {
+    const end = path.nodes[path.nodes.length - 1];
+    ends.set(end.elementId, end);
+  });
+  return Array.from(ends.values());
+}
+
+/**
+ * Explain a question: walk PRECEDES back to the answers that influenced it, then out to
+ * the principles and contradictions those answers touched. Returns null if the question
+ * does not exist; seed questions have no reasons.
+ */
+export async function findQuestionProvenance(questionId: string): Promise<QuestionProvenance | null> {
+  const question = await graphStore.findNodeById('Question', questionId);
+  if (!question) {
+    return null;
+  }
+
+  const influences = await graphStore.traverse(
+    { label: 'Question', id: questionId },
+    { maxDepth: 1, relationshipTypes: ['PRECEDES'], direction: 'incoming' }
+  );
+  const answers = influences.map(path => ({ answer: path.nodes[1], precedes: path.relationships[0] }));
+
+  const contradictions = await Promise.all(answers.map(({ answer }) => graphStore.traverse(
+    { label: 'Answer', id: answer.id },
+    { maxDepth: 1, relationshipTypes: ['CONTRADICTS'], direction: 'both' }
+  )));
+
+  const userIds = new Set(answers.map(({ answer }) => String(answer.properties.userId)));
+  const principles = (await Promise.all(Array.from(userIds, userId =>
+    graphStore.select(nodeQuery('Principle').where('userId', 'eq', userId))
+  ))).flat();
+
+  const linked = (principle: GraphNode, key: 'derivedFrom' | 'weakenedBy', answerId: string) =>
+    ((principle.properties[key] as string[] | undefined) ?? []).includes(answerId);
+
+  const reasons = answers.map(({ answer, precedes }, index): ProvenanceReason => ({
+    answerId: answer.id,
+    answerText: String(answer.properties.text),
+    influenceType: precedes.properties.influenceType as ProvenanceReason['influenceType'],
+    weight: Number(precedes.properties.weight),
+    supports: principles.filter(principle => linked(principle, 'derivedFrom', answer.id)).map(principle => principle.id),
+    weakens: principles.filter(principle => linked(principle, 'weakenedBy', answer.id)).map(principle => principle.id),
+    contradictions: contradictions[index].map(path => String(path.relationships[0].properties.id)),
+  }));
+  reasons.sort((a, b) => b.weight - a.weight);
+
+  const touched = new Set(reasons.flatMap(reason => [...reason.supports, ...reason.weakens]));
+  const subgraph = mergePaths([
+    { nodes: [question], relationships: [] },
+    ...influences,
+    ...contradictions.flat(),
+    { nodes: principles.filter(principle => touched.has(principle.id)), relationships: [] },
+  ]);
+
+  return { ...subgraph, questionId, reasons };
+}
@@ -0,0 +1,304 @@
+// src/lib/graph/query-builder.ts
+
+import neo4j from 'neo4j-driver';
+import {
+  ErrorCode,
+  GraphQuery,
+  NODE_TYPES,
+  NodeType,
+  RELATIONSHIP_TYPES,
+  RelationshipType,
+  TraversalOptions,
+} from '../types';
+
+/**
+ * Property keys each label may carry. Labels, relationship types and keys end up
+ * in Cypher text, so only names listed here are ever interpolated; values are
+ * always passed as parameters.
+ */
+export const NODE_PROPERTIES = {
+  Question: [
+    'id', 'createdAt', 'updatedAt', 'text', 'stage', 'type', 'context', 'generatedForUser',
+    'temperature', 'promptId', 'promptVersion',
+  ],
+  Answer: [
+    'id', 'createdAt', 'updatedAt', 'text', 'userId', 'timestamp', 'modified', 'previousVersion',
+    'logicalForm', 'propositions',
+  ],
+  Principle: [
+    'id', 'createdAt', 'updatedAt', 'text', 'description', 'derivedFrom', 'confidence', 'logicalForm',
+    'userId', 'frequency', 'consistency', 'extractionConfidence', 'weakenedBy',
+  ],
+  Framework: ['id', 'createdAt', 'updatedAt', 'name', 'description', 'keyThinkers'],
+  Stage: [
+    'id', 'createdAt', 'updatedAt', 'stageNumber', 'name', 'description', 'reasoning', 'requiredAnswers',
+    'exampleDilemmas',
+  ],
+  Session: ['id', 'createdAt', 'updatedAt', 'userId', 'currentStage', 'startedAt', 'lastActiveAt', 'analysis', 'eventSeq'],
+  SessionEvent: ['id', 'createdAt', 'updatedAt', 'sessionId', 'seq', 'type', 'timestamp', 'data'],
+  SchemaMigration: ['version', 'name', 'checksum', 'appliedAt'],
+} as const satisfies Record<NodeType, readonly string[]>;
+
+export const RELATIONSHIP_PROPERTIES = {
+  CONTRADICTS: [
+    'id', 'createdAt', 'explanation', 'resolved', 'resolutionType', 'resolutionExplanation',
+    'resolutionTimestamp', 'overwrittenAnswerId', 'newAnswerId', 'confidence', 'logicalForm',
+    'suggestedResolution', 'kind', 'groupId', 'answerIds', 'promptId', 'promptVersion',
+  ],
+  BELONGS_TO: ['createdAt', 'order'],
+  ALIGNS_WITH: ['createdAt', 'updatedAt', 'strength', 'reasoning', 'promptId', 'promptVersion'],
+  FOLLOWS: ['createdAt', 'order'],
+  PRECEDES: ['createdAt', 'influenceType', 'weight'],
+  MODIFIES: ['createdAt', 'reason', 'timestamp'],
+  ANSWERS: ['createdAt'],
+} as const satisfies Record<RelationshipType, readonly string[]>;
+
+export type NodePropertyKey<L extends NodeType> = typeof NODE_PROPERTIES[L][number];
+
+// Filter operators and the Cypher they produce
+const OPERATORS = {
+  eq: '=',
+  ne: '<>',
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+  in: 'IN',
+  contains: 'CONTAINS',
+  startsWith: 'STARTS WITH',
+} as const;
+
+export type FilterOperator = keyof typeof OPERATORS;
+
+/**
+ * A built node query in structured form, for stores that do not speak Cypher
+ */
+export interface NodeQuerySpec {
+  label: NodeType;
+  filters: Array<{ key: string; operator: FilterOperator; value: unknown }>;
+  ordering: Array<{ key: string; direction: 'ASC' | 'DESC' }>;
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * Throw INVALID_INPUT unless the label is a known NodeType
+ */
+export function assertNodeType(label: unknown): asserts label is NodeType {
+  if (!NODE_TYPES.includes(label as NodeType)) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Unknown node label: ${String(label)}`,
+    };
+  }
+}
+
+/**
+ * Throw INVALID_INPUT unless the type is a known RelationshipType
+ */
+export function assertRelationshipType(type: unknown): asserts type is RelationshipType {
+  if (!RELATIONSHIP_TYPES.includes(type as RelationshipType)) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Unknown relationship type: ${String(type)}`,
+    };
+  }
+}
+
+/**
+ * Throw INVALID_INPUT if any key is not a property of the given labels
+ */
+export function assertNodeProperties(labels: NodeType[], keys: string[]): void {
+  labels.forEach(assertNodeType);
+  const allowed = new Set<string>(labels.flatMap(label => NODE_PROPERTIES[label]));
+  assertKeys(keys, allowed, labels.join(':'));
+}
+
+/**
+ * Throw INVALID_INPUT if any key is not a property of the relationship type
+ */
+export function assertRelationshipProperties(type: RelationshipType, keys: string[]): void {
+  assertRelationshipType(type);
+  assertKeys(keys, new Set<string>(RELATIONSHIP_PROPERTIES[type]), type);
+}
+
+function assertKeys(keys: string[], allowed: Set<string>, owner: string): void {
+  const unknown = keys.filter(key => !allowed.has(key));
+  if (unknown.length > 0) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Unknown ${owner} propert${unknown.length === 1 ? 'y' : 'ies'}: ${unknown.join(', ')}`,
+      details: { unknown },
+    };
+  }
+}
+
+// Traversal depth when TraversalOptions leave it out, and the most allowed
+const DEFAULT_TRAVERSAL_DEPTH = 3;
+const MAX_TRAVERSAL_DEPTH = 10;
+
+/**
+ * Validate traversal options and fill in defaults: outgoing, any relationship type, depth 3
+ */
+export function resolveTraversal(options: TraversalOptions = {}): Required<TraversalOptions> {
+  const maxDepth = options.maxDepth ?? DEFAULT_TRAVERSAL_DEPTH;
+  if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_TRAVERSAL_DEPTH) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `maxDepth must be an integer from 1 to ${MAX_TRAVERSAL_DEPTH}`,
+    };
+  }
+
+  const direction = options.direction ?? 'outgoing';
+  if (!['incoming', 'outgoing', 'both'].includes(direction)) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Unknown traversal direction: ${String(direction)}`,
+    };
+  }
+
+  const relationshipTypes = options.relationshipTypes ?? [];
+  relationshipTypes.forEach(assertRelationshipType);
+
+  // Filters apply to the node a path ends at, which may have any label
+  const filters = options.filters ?? {};
+  assertNodeProperties([...NODE_TYPES], Object.keys(filters));
+
+  return { maxDepth, direction, relationshipTypes, filters };
+}
+
+/**
+ * Builds a parameterized MATCH over one label, e.g.
+ *   nodeQuery('Answer').where('userId', 'eq', userId).where('timestamp', 'gte', since)
+ *     .orderBy('timestamp', 'DESC').limit(20)
+ * Every label, key and operator is checked when added, so build() only ever
+ * interpolates known names.
+ */
+export class NodeQuery<L extends NodeType> {
+  private label: L;
+  private filters: NodeQuerySpec['filters'] = [];
+  private ordering: NodeQuerySpec['ordering'] = [];
+  private skipCount?: number;
+  private limitCount?: number;
+
+  constructor(label: L) {
+    assertNodeType(label);
+    this.label = label;
+  }
+
+  /**
+   * Add a filter; all filters must match
+   */
+  where(key: NodePropertyKey<L>, operator: FilterOperator, value: unknown): this {
+    assertNodeProperties([this.label], [key]);
+    if (!Object.prototype.hasOwnProperty.call(OPERATORS, operator)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Unknown filter operator: ${String(operator)}`,
+      };
+    }
+    if (operator === 'in' && !Array.isArray(value)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Filter "${key} in" expects an array`,
+      };
+    }
+
+    this.filters.push({ key, operator, value });
+    return this;
+  }
+
+  /**
+   * Add an equality filter for each entry
+   */
+  whereEquals(properties: Partial<Record<NodePropertyKey<L>, unknown>>): this {
+    Object.entries(properties).forEach(([key, value]) => this.where(key as NodePropertyKey<L>, 'eq', value));
+    return this;
+  }
+
+  orderBy(key: NodePropertyKey<L>, direction: 'ASC' | 'DESC' = 'ASC'): this {
+    assertNodeProperties([this.label], [key]);
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Unknown sort direction: ${String(direction)}`,
+      };
+    }
+    this.ordering.push({ key, direction });
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipCount = assertCount(count, 'skip');
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = assertCount(count, 'limit');
+    return this;
+  }
+
+  spec(): NodeQuerySpec {
+    return {
+      label: this.label,
+      filters: [...this.filters],
+      ordering: [...this.ordering],
+      skip: this.skipCount,
+      limit: this.limitCount,
+    };
+  }
+
+  build(): GraphQuery {
+    const parameters: Record<string, unknown> = {};
+    const clauses = [`MATCH (n:${this.label})`];
+
+    const conditions = filterConditions(this.spec(), 'n', 'p', parameters);
+    if (conditions.length > 0) {
+      clauses.push(`WHERE ${conditions.join(' AND ')}`);
+    }
+    clauses.push('RETURN n');
+    if (this.ordering.length > 0) {
+      clauses.push(`ORDER BY ${this.ordering.map(order => `n.${order.key} ${order.direction}`).join(', ')}`);
+    }
+    if (this.skipCount !== undefined) {
+      clauses.push('SKIP $skip');
+      parameters.skip = neo4j.int(this.skipCount);
+    }
+    if (this.limitCount !== undefined) {
+      clauses.push('LIMIT $limit');
+      parameters.limit = neo4j.int(this.limitCount);
+    }
+
+    return { query: clauses.join('\n'), parameters };
+  }
+}
+
+/**
+ * Cypher conditions for a query's filters on a matched variable, adding each value to
+ * parameters under the prefix; used to embed node queries in larger patterns
+ */
+export function filterConditions(
+  spec: NodeQuerySpec,
+  variable: string,
+  prefix: string,
+  parameters: Record<string, unknown>
+): string[] {
+  return spec.filters.map((filter, index) => {
+    parameters[`${prefix}${index}`] = filter.value;
+    return `${variable}.${filter.key} ${OPERATORS[filter.operator]} $${prefix}${index}`;
+  });
+}
+
+export function nodeQuery<L extends NodeType>(label: L): NodeQuery<L> {
+  return new NodeQuery(label);
+}
+
+function assertCount(count: number, name: string): number {
+  if (!Number.isInteger(count) || count < 0) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `${name} must be a non-negative integer`,
+    };
+  }
+  return count;
+}
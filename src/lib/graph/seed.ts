@@ -0,0 +1,228 @@
+// src/lib/graph/seed.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCode } from '../types';
+import { assertValid, Infer, schema } from '../utils/validators';
+import type { GraphStore } from './graph-store';
+import { nodeQuery } from './query-builder';
+
+const SEED_DIR = path.join(process.cwd(), 'data', 'seed');
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const stagesSchema = schema.array(schema.object({
+  id: schema.string({ pattern: ID_PATTERN }),
+  stageNumber: schema.number({ integer: true, min: 1 }),
+  name: schema.string({ minLength: 1 }),
+  description: schema.string({ minLength: 1 }),
+  reasoning: schema.string({ minLength: 1 }),
+  requiredAnswers: schema.number({ integer: true, min: 1 }),
+  exampleDilemmas: schema.array(schema.string({ minLength: 1 })),
+}), { minLength: 1 });
+
+const frameworksSchema = schema.array(schema.object({
+  id: schema.string({ pattern: ID_PATTERN }),
+  name: schema.string({ minLength: 1 }),
+  description: schema.string({ minLength: 1 }),
+  keyThinkers: schema.array(schema.string({ minLength: 1 })),
+}));
+
+const questionsSchema = schema.array(schema.object({
+  id: schema.string({ pattern: ID_PATTERN }),
+  text: schema.string({ minLength: 1 }),
+  stage: schema.number({ integer: true, min: 1 }),
+  order: schema.optional(schema.number({ integer: true, min: 1 })),
+}));
+
+export interface SeedData {
+  stages: Infer<typeof stagesSchema>;
+  frameworks: Infer<typeof frameworksSchema>;
+  questions: Infer<typeof questionsSchema>;
+}
+
+/**
+ * One difference between the seed files and the graph
+ */
+export interface SeedChange {
+  action: 'created' | 'updated' | 'removed';
+  target: string; // e.g. "Stage stage-1" or "FOLLOWS stage-1 -> stage-2"
+  fields?: string[];
+}
+
+type SeedLabel = 'Stage' | 'Framework' | 'Question';
+
+/**
+ * Read and validate the seed files, including references between them
+ */
+export function loadSeedData(dir = SEED_DIR): SeedData {
+  const read = (file: string) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+  const data: SeedData = {
+    stages: assertValid(read('kohlberg-stages.json'), stagesSchema, 'kohlberg-stages.json'),
+    frameworks: assertValid(read('frameworks.json'), frameworksSchema, 'frameworks.json'),
+    questions: assertValid(read('initial-questions.json'), questionsSchema, 'initial-questions.json'),
+  };
+
+  const problems = [
+    ...duplicates(data.stages.map(stage => stage.id)).map(id => `duplicate stage id "${id}"`),
+    ...duplicates(data.stages.map(stage => String(stage.stageNumber))).map(n => `duplicate stageNumber ${n}`),
+    ...duplicates(data.frameworks.map(framework => framework.id)).map(id => `duplicate framework id "${id}"`),
+    ...duplicates(data.frameworks.map(framework => framework.name)).map(name => `duplicate framework name "${name}"`),
+    ...duplicates(data.questions.map(question => question.id)).map(id => `duplicate question id "${id}"`),
+    ...data.questions
+      .filter(question => !data.stages.some(stage => stage.stageNumber === question.stage))
+      .map(question => `question "${question.id}" refers to missing stage ${question.stage}`),
+  ];
+
+  if (problems.length > 0) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Invalid seed data: ${problems.join('; ')}`,
+      details: { problems },
+    };
+  }
+
+  return data;
+}
+
+/**
+ * Upsert the seed data by id and link it with FOLLOWS and BELONGS_TO edges.
+ * Only nodes whose properties differ are written, so a second run changes nothing.
+ */
+export async function seedGraph(data: SeedData, store: GraphStore): Promise<SeedChange[]> {
+  const stages = [...data.stages].sort((a, b) => a.stageNumber - b.stageNumber);
+
+  const changes = [
+    ...await upsertNodes(store, 'Stage', stages),
+    ...await upsertNodes(store, 'Framework', data.frameworks),
+    ...await upsertNodes(store, 'Question', data.questions.map(question => ({
+      id: question.id,
+      text: question.text,
+      stage: question.stage,
+      type: 'seed',
+      context: [],
+    }))),
+  ];
+
+  // Each stage FOLLOWS the one numbered before it
+  changes.push(...await syncEdges(
+    store,
+    'FOLLOWS',
+    'Stage',
+    stages.slice(1).map((stage, index) => ({
+      from: stages[index].id,
+      to: stage.id,
+      properties: { order: index + 1 },
+    }))
+  ));
+
+  const stageIds = new Map(stages.map(stage => [stage.stageNumber, stage.id]));
+  changes.push(...await syncEdges(
+    store,
+    'BELONGS_TO',
+    'Question',
+    data.questions.map((question, index) => ({
+      from: question.id,
+      to: stageIds.get(question.stage) as string,
+      properties: { order: question.order ?? index + 1 },
+    }))
+  ));
+
+  return changes;
+}
+
+/**
+ * Create or update nodes by id, writing only those that are new or whose properties changed
+ */
+async function upsertNodes(
+  store: GraphStore,
+  label: SeedLabel,
+  nodes: Array<{ id: string } & Record<string, unknown>>
+): Promise<SeedChange[]> {
+  const found = await store.select(nodeQuery(label).where('id', 'in', nodes.map(node => node.id)));
+  const existing = new Map(found.map(node => [node.id, node.properties]));
+  const now = new Date().toISOString();
+
+  const changes: SeedChange[] = [];
+  for (const node of nodes) {
+    const current = existing.get(node.id);
+    if (!current) {
+      await store.createNode([label], { ...node, createdAt: now, updatedAt: now });
+      changes.push({ action: 'created', target: `${label} ${node.id}` });
+      continue;
+    }
+
+    const fields = Object.keys(node).filter(key => !sameValue(current[key], node[key]));
+    if (fields.length > 0) {
+      await store.updateNode(label, node.id, { ...node, updatedAt: now });
+      changes.push({ action: 'updated', target: `${label} ${node.id}`, fields });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Make the edges of one type leaving seeded nodes match the expected set:
+ * create missing edges, update changed properties and remove edges the seed no longer has
+ */
+async function syncEdges(
+  store: GraphStore,
+  type: 'FOLLOWS' | 'BELONGS_TO',
+  fromLabel: SeedLabel,
+  edges: Array<{ from: string; to: string; properties: Record<string, unknown> }>
+): Promise<SeedChange[]> {
+  const found = await store.findRelationships(type, {
+    start: nodeQuery(fromLabel).where('id', 'in', Array.from(new Set(edges.map(edge => edge.from)))),
+    end: nodeQuery('Stage'),
+  });
+
+  const key = (from: string, to: string) => `${from} -> ${to}`;
+  const existing = new Map(found.map(relationship => [key(relationship.start, relationship.end), relationship.properties]));
+  const expected = new Set(edges.map(edge => key(edge.from, edge.to)));
+  const now = new Date().toISOString();
+
+  const changes: SeedChange[] = [];
+  for (const edge of edges) {
+    const start = { label: fromLabel, id: edge.from };
+    const end = { label: 'Stage' as const, id: edge.to };
+    const current = existing.get(key(edge.from, edge.to));
+    if (!current) {
+      await store.createRelationship(start, end, type, { createdAt: now, ...edge.properties });
+      changes.push({ action: 'created', target: `${type} ${key(edge.from, edge.to)}` });
+      continue;
+    }
+
+    const fields = Object.keys(edge.properties).filter(field => !sameValue(current[field], edge.properties[field]));
+    if (fields.length > 0) {
+      await store.updateRelationships(type, {
+        start: nodeQuery(fromLabel).where('id', 'eq', edge.from),
+        end: nodeQuery('Stage').where('id', 'eq', edge.to),
+      }, edge.properties);
+      changes.push({ action: 'updated', target: `${type} ${key(edge.from, edge.to)}`, fields });
+    }
+  }
+
+  for (const relationship of found.filter(relationship => !expected.has(key(relationship.start, relationship.end)))) {
+    await store.deleteRelationships(
+      type,
+      { label: fromLabel, id: relationship.start },
+      { label: 'Stage', id: relationship.end }
+    );
+    changes.push({ action: 'removed', target: `${type} ${key(relationship.start, relationship.end)}` });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare a stored property with a seed value
+ */
+function sameValue(stored: unknown, value: unknown): boolean {
+  return JSON.stringify(stored) === JSON.stringify(value);
+}
+
+function duplicates(values: string[]): string[] {
+  return Array.from(new Set(values.filter((value, index) => values.indexOf(value) !== index)));
+}
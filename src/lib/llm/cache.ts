@@ -0,0 +1,323 @@
+// src/lib/llm/cache.ts
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Result } from 'neo4j-driver';
+import { Constants, LLMCache } from '../types';
+import { neo4jClient } from '../graph/neo4j-client';
+
+/**
+ * Storage backend for cached LLM responses
+ */
+export interface LLMCacheStore {
+  get(key: string): Promise<LLMCache | null>;
+  set(entry: LLMCache): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove entries, returning how many were deleted */
+  purge(options?: { expiredOnly?: boolean }): Promise<number>;
+  /** Remove the entries tagged with a user, returning how many were deleted */
+  deleteByUser(userId: string): Promise<number>;
+}
+
+/**
+ * Everything that influences an LLM response, used to derive the cache key
+ */
+export interface CacheKeyInput {
+  endpoint: string;
+  model: string;
+  prompt: string;
+  system?: string;
+  template?: string;
+  context?: number[];
+  format?: unknown; // Constrains the output, so responses under different formats differ
+  options?: Record<string, unknown>;
+  userId?: string; // Keeps each user's entries apart so they can be deleted with the user
+}
+
+/**
+ * Stores one JSON file per entry on local disk
+ */
+export class FileCacheStore implements LLMCacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<LLMCache | null> {
+    try {
+      const content = await fs.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(content) as LLMCache;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(entry: LLMCache): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(entry.key), JSON.stringify(entry), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async purge(options: { expiredOnly?: boolean } = {}): Promise<number> {
+    return this.deleteWhere(options.expiredOnly ? entry => !entry || isExpired(entry) : () => true);
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    return this.deleteWhere(entry => entry?.metadata?.userId === userId);
+  }
+
+  /**
+   * Delete the entries matching a predicate; unreadable entries are passed as null
+   */
+  private async deleteWhere(matches: (entry: LLMCache | null) => boolean): Promise<number> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const file of files) {
+      const key = file.replace(/\.json$/, '');
+      if (!matches(await this.get(key))) continue;
+      await this.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Stores entries as :LLMCache nodes in Neo4j.
+ * It connects on first use, so it works whichever GRAPH_STORE the application uses.
+ */
+export class Neo4jCacheStore implements LLMCacheStore {
+  async get(key: string): Promise<LLMCache | null> {
+    const result = await this.query<Result>(
+      'MATCH (c:LLMCache {key: $key}) RETURN c',
+      { key },
+      { accessMode: 'READ' }
+    );
+
+    if (result.records.length === 0) {
+      return null;
+    }
+
+    const properties = result.records[0].get('c').properties;
+    return {
+      key: properties.key,
+      value: JSON.parse(properties.value),
+      expiresAt: properties.expiresAt,
+      metadata: {
+        model: properties.model,
+        temperature: properties.temperature,
+        promptHash: properties.promptHash,
+        userId: properties.userId ?? undefined,
+      },
+    };
+  }
+
+  async set(entry: LLMCache): Promise<void> {
+    await this.query(
+      `
+        MERGE (c:LLMCache {key: $key})
+        SET c.value = $value,
+            c.expiresAt = $expiresAt,
+            c.model = $model,
+            c.temperature = $temperature,
+            c.promptHash = $promptHash,
+            c.userId = $userId
+      `,
+      {
+        key: entry.key,
+        value: JSON.stringify(entry.value),
+        expiresAt: entry.expiresAt,
+        model: entry.metadata?.model ?? null,
+        temperature: entry.metadata?.temperature ?? null,
+        promptHash: entry.metadata?.promptHash ?? null,
+        userId: entry.metadata?.userId ?? null,
+      }
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.query('MATCH (c:LLMCache {key: $key}) DELETE c', { key });
+  }
+
+  async purge(options: { expiredOnly?: boolean } = {}): Promise<number> {
+    const result = await this.query<Result>(
+      `
+        MATCH (c:LLMCache)
+        WHERE NOT $expiredOnly OR c.expiresAt <= $now
+        DELETE c
+        RETURN count(c) AS removed
+      `,
+      { expiredOnly: Boolean(options.expiredOnly), now: new Date().toISOString() }
+    );
+    return result.records[0].get('removed').toNumber();
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const result = await this.query<Result>(
+      `
+        MATCH (c:LLMCache {userId: $userId})
+        DELETE c
+        RETURN count(c) AS removed
+      `,
+      { userId }
+    );
+    return result.records[0].get('removed').toNumber();
+  }
+
+  private async query<T = Result>(
+    cypher: string,
+    params: Record<string, unknown>,
+    options: { accessMode?: 'READ' | 'WRITE' } = {}
+  ): Promise<T> {
+    await neo4jClient.ensureConnected();
+    return neo4jClient.query<T>(cypher, params, options);
+  }
+}
+
+/**
+ * Cache in front of LLM calls.
+ * Entries are keyed by a hash of the model, prompt and options, expire after
+ * the TTL, and are only written for low-temperature (near-deterministic) calls.
+ */
+export class LLMResponseCache {
+  private store: LLMCacheStore;
+  private ttl: number;
+  private maxTemperature: number;
+
+  constructor(
+    store: LLMCacheStore,
+    options: { ttl?: number; maxTemperature?: number } = {}
+  ) {
+    this.store = store;
+    this.ttl = options.ttl ?? Constants.CACHE_TTL;
+    this.maxTemperature = options.maxTemperature ?? Constants.CACHE_MAX_TEMPERATURE;
+  }
+
+  /**
+   * High-temperature generation is meant to vary, so it is never cached
+   */
+  isCacheable(temperature: number | undefined): boolean {
+    return temperature !== undefined && temperature <= this.maxTemperature;
+  }
+
+  /**
+   * Derive the cache key and prompt hash for a request
+   */
+  createKey(input: CacheKeyInput): { key: string; promptHash: string } {
+    return {
+      key: hash(stableStringify(input)),
+      promptHash: hash(`${input.system || ''}\n${input.prompt}`),
+    };
+  }
+
+  /**
+   * Look up a cached value, ignoring (and evicting) expired entries.
+   * Cache failures never break the LLM call, they only count as a miss.
+   */
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return null;
+
+      if (isExpired(entry)) {
+        await this.store.delete(key);
+        return null;
+      }
+      return entry.value as T;
+    } catch (error) {
+      console.warn('LLM cache read failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a value under a key created with createKey()
+   */
+  async set(
+    key: string,
+    value: unknown,
+    metadata: { model: string; temperature: number; promptHash: string; userId?: string }
+  ): Promise<void> {
+    try {
+      await this.store.set({
+        key,
+        value,
+        expiresAt: new Date(Date.now() + this.ttl * 1000).toISOString(),
+        metadata,
+      });
+    } catch (error) {
+      console.warn('LLM cache write failed:', error);
+    }
+  }
+
+  /**
+   * Remove cached entries (all of them, or only expired ones)
+   */
+  async purge(options: { expiredOnly?: boolean } = {}): Promise<number> {
+    return this.store.purge(options);
+  }
+
+  /**
+   * Remove every entry whose prompt contained a user's data
+   */
+  async deleteByUser(userId: string): Promise<number> {
+    return this.store.deleteByUser(userId);
+  }
+}
+
+function isExpired(entry: LLMCache): boolean {
+  return new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equivalent options hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([entryKey, entryValue]) => `${JSON.stringify(entryKey)}:${stableStringify(entryValue)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Build the cache selected by LLM_CACHE_STORE ('file', 'neo4j' or 'none')
+ */
+export function createLLMCache(storeType = process.env.LLM_CACHE_STORE || 'file'): LLMResponseCache | null {
+  switch (storeType) {
+    case 'none':
+      return null;
+    case 'neo4j':
+      return new LLMResponseCache(new Neo4jCacheStore());
+    default:
+      return new LLMResponseCache(new FileCacheStore(process.env.LLM_CACHE_DIR || '.cache/llm'));
+  }
+}
+
+// Export a singleton instance
+export const llmCache = createLLMCache();
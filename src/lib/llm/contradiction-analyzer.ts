@@ -0,0 +1,170 @@
+// src/lib/llm/contradiction-analyzer.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Constants,
+  ContradictionAnalysisRequest,
+  ContradictionAnalysisResponse,
+  RenderedPrompt,
+} from '../types';
+import {
+  AnsweredQuestion,
+  ContradictionCandidate,
+  createContradiction,
+  findAnsweredQuestion,
+  findContradictionCandidates,
+} from '../graph/queries/contradiction';
+import { cosineSimilarity } from '../utils/text-similarity';
+import { verifyPairwiseForm } from '../core/logic-engine';
+import { SessionEventBus, sessionEvents } from '../core/session-events';
+import { llmRouter } from './llm-router';
+import { LLMProvider } from './provider';
+import { PromptRegistry, promptRegistry, promptStamp } from './prompts';
+import { contradictionAnalysisOutput, generateStructured } from './structured-output';
+
+export interface DetectedContradiction {
+  id: string;
+  answerIds: [string, string];
+  analysis: ContradictionAnalysisResponse;
+}
+
+interface ScoredCandidate {
+  candidate: ContradictionCandidate;
+  score: number;
+}
+
+// Weights of the graph and text signals used to rank candidate pairs
+const CANDIDATE_WEIGHTS = {
+  sharedPrinciples: 0.4,
+  sharedFrameworks: 0.3,
+  similarity: 0.3,
+};
+
+// Pairs scoring below this are never sent to the LLM
+const MIN_CANDIDATE_SCORE = 0.1;
+
+/**
+ * Detects contradictions between a user's answers.
+ * Candidate pairs are pruned with cheap graph and text signals first, so only
+ * the most promising pairs cost an LLM call.
+ */
+export class ContradictionAnalyzer {
+  private client: LLMProvider;
+  private registry: PromptRegistry;
+  private events: SessionEventBus;
+
+  constructor(
+    client: LLMProvider = llmRouter,
+    registry: PromptRegistry = promptRegistry,
+    events: SessionEventBus = sessionEvents
+  ) {
+    this.client = client;
+    this.registry = registry;
+    this.events = events;
+  }
+
+  /**
+   * Ask the LLM whether two answers contradict each other.
+   * userId tags the cached response with the user whose answers are compared.
+   */
+  async analyzePair(
+    request: ContradictionAnalysisRequest,
+    userId?: string
+  ): Promise<{ analysis: ContradictionAnalysisResponse; rendered: RenderedPrompt }> {
+    const rendered = this.registry.render('contradiction-analysis', {
+      question1: request.question1,
+      answer1: request.answer1,
+      question2: request.question2,
+      answer2: request.answer2,
+      principlesInvolved: request.principlesInvolved?.length
+        ? request.principlesInvolved.map(principle => `- ${principle}`).join('\n')
+        : 'None identified',
+    });
+
+    const analysis = await generateStructured(this.client, {
+      task: 'contradictionAnalysis',
+      prompt: rendered.prompt,
+      options: { temperature: rendered.temperature ?? 0.1 },
+      userId,
+    }, contradictionAnalysisOutput, this.registry);
+
+    return { analysis, rendered };
+  }
+
+  /**
+   * Check a new answer against the user's other answers and record CONTRADICTS
+   * edges for contradictions above Constants.CONTRADICTION_CONFIDENCE_THRESHOLD.
+   * Each one is published to the user's session as it is found.
+   */
+  async detectForAnswer(answerId: string, userId: string): Promise<DetectedContradiction[]> {
+    const target = await findAnsweredQuestion(answerId);
+    if (!target) {
+      return [];
+    }
+
+    const candidates = this.selectCandidates(target, await findContradictionCandidates(answerId, userId));
+    const detected: DetectedContradiction[] = [];
+
+    for (const { candidate } of candidates) {
+      const { analysis, rendered } = await this.analyzePair({
+        question1: candidate.questionText,
+        answer1: candidate.answerText,
+        question2: target.questionText,
+        answer2: target.answerText,
+        principlesInvolved: candidate.sharedPrinciples,
+      }, userId);
+
+      if (!analysis.isContradiction || analysis.confidence < Constants.CONTRADICTION_CONFIDENCE_THRESHOLD) {
+        continue;
+      }
+
+      const id = uuidv4();
+      await createContradiction(candidate.answerId, target.answerId, {
+        id,
+        explanation: analysis.explanation,
+        resolved: false,
+        confidence: analysis.confidence,
+        // Kept only when the solver confirms it; the model's judgement above stands either way
+        logicalForm: verifyPairwiseForm(analysis.logicalForm),
+        suggestedResolution: analysis.suggestedResolution,
+        kind: 'pairwise',
+        ...promptStamp(rendered),
+        createdAt: new Date().toISOString(),
+      });
+
+      const contradiction: DetectedContradiction = { id, answerIds: [candidate.answerId, target.answerId], analysis };
+      detected.push(contradiction);
+      await this.events.publishForUser(userId, 'CONTRADICTION_DETECTED', { kind: 'pairwise', contradiction });
+    }
+
+    return detected;
+  }
+
+  /**
+   * Rank candidates by shared principles, shared frameworks and text similarity,
+   * keeping at most Constants.MAX_CONTRADICTION_CANDIDATES
+   */
+  private selectCandidates(target: AnsweredQuestion, candidates: ContradictionCandidate[]): ScoredCandidate[] {
+    const targetText = `${target.questionText} ${target.answerText}`;
+
+    return candidates
+      .map(candidate => {
+        const principleSignal = Math.min(candidate.sharedPrinciples.length, 2) / 2;
+        const frameworkSignal = candidate.sharedFrameworks.length > 0 ? 1 : 0;
+        const similarity = cosineSimilarity(targetText, `${candidate.questionText} ${candidate.answerText}`);
+
+        return {
+          candidate,
+          score: CANDIDATE_WEIGHTS.sharedPrinciples * principleSignal
+            + CANDIDATE_WEIGHTS.sharedFrameworks * frameworkSignal
+            + CANDIDATE_WEIGHTS.similarity * similarity,
+        };
+      })
+      .filter(scored => scored.score >= MIN_CANDIDATE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Constants.MAX_CONTRADICTION_CANDIDATES);
+  }
+}
+
+// Export a singleton instance
+export const contradictionAnalyzer = new ContradictionAnalyzer();
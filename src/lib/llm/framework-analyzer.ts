@@ -0,0 +1,256 @@
+// src/lib/llm/framework-analyzer.ts
+
+import {
+  Constants,
+  FrameworkAnalysisResponse,
+  FrameworkNode,
+  PrincipleNode,
+} from '../types';
+import {
+  AlignmentEdge,
+  AlignmentSourceType,
+  findAlignmentEdges,
+  findFrameworks,
+  findUnscoredStatements,
+  saveAlignments,
+} from '../graph/queries/framework';
+import { findUserPrinciples } from '../graph/queries/principle';
+import { schema } from '../utils/validators';
+import { llmRouter } from './llm-router';
+import { LLMProvider } from './provider';
+import { PromptRegistry, promptRegistry, promptStamp } from './prompts';
+import { generateStructured, StructuredOutput } from './structured-output';
+
+/**
+ * A user's aggregated alignment with one framework
+ */
+export interface FrameworkScore {
+  frameworkId: string;
+  name: string;
+  keyThinkers: string[];
+  alignmentScore: number; // 0-100
+  answerScore: number | null; // Mean strength over current answers, 0-1
+  principleScore: number | null; // Confidence-weighted mean strength over principles, 0-1
+  alignedAnswerIds: string[]; // Answers at or above Constants.FRAMEWORK_ALIGNMENT_THRESHOLD
+  alignedPrincipleIds: string[];
+  reasoning: string[]; // From the aligned edges, strongest first
+}
+
+export interface FrameworkAggregate {
+  scores: FrameworkScore[]; // Strongest first
+  summary: FrameworkAnalysisResponse;
+}
+
+interface StatementAlignment {
+  framework: string;
+  strength: number;
+  reasoning: string;
+}
+
+// Statements are scored one at a time, so the model returns alignments rather than a FrameworkAnalysisResponse
+const alignmentOutput: StructuredOutput<{ alignments: StatementAlignment[] }> = {
+  name: 'framework alignment',
+  schema: schema.object({
+    alignments: schema.array(schema.object({
+      framework: schema.string({ minLength: 1 }),
+      strength: schema.number({ min: 0, max: 1 }),
+      reasoning: schema.string(),
+    })),
+  }),
+};
+
+// How much answers and principles contribute when both have been scored
+const SOURCE_WEIGHTS = {
+  answers: 0.6,
+  principles: 0.4,
+};
+
+// Frameworks scoring below this are reported as blind spots
+const BLIND_SPOT_THRESHOLD = 0.2;
+
+/**
+ * Scores answers and principles against every framework with the LLM, one
+ * statement at a time, and stores the scores as ALIGNS_WITH edges.
+ * Aggregating the edges into a user's framework profile is plain arithmetic
+ * over the graph, so the same edges always produce the same profile.
+ */
+export class FrameworkAnalyzer {
+  private client: LLMProvider;
+  private registry: PromptRegistry;
+
+  constructor(client: LLMProvider = llmRouter, registry: PromptRegistry = promptRegistry) {
+    this.client = client;
+    this.registry = registry;
+  }
+
+  /**
+   * Score every current answer and principle of a user that has no ALIGNS_WITH edges yet.
+   * Returns the number of statements scored.
+   */
+  async scoreUnscored(userId: string): Promise<number> {
+    const frameworks = await findFrameworks();
+    if (frameworks.length === 0) {
+      return 0;
+    }
+
+    const statements = await findUnscoredStatements(userId);
+    for (const statement of statements) {
+      await this.scoreStatement(statement.type, statement.id, statement.statement, statement.context, frameworks, userId);
+    }
+    return statements.length;
+  }
+
+  /**
+   * Score one answer or principle against the frameworks and save the ALIGNS_WITH edges.
+   * Frameworks the LLM leaves out are stored with strength 0 so every statement is
+   * scored against the same set.
+   */
+  async scoreStatement(
+    type: AlignmentSourceType,
+    id: string,
+    statement: string,
+    context: string,
+    frameworks: FrameworkNode[],
+    userId?: string
+  ): Promise<void> {
+    const rendered = this.registry.render('framework-analysis', {
+      statementType: type,
+      statement,
+      context: context || 'None',
+      frameworks: frameworks.map(framework => `- ${framework.name}: ${framework.description}`).join('\n'),
+    });
+
+    const response = await generateStructured(this.client, {
+      task: 'frameworkAnalysis',
+      prompt: rendered.prompt,
+      options: { temperature: rendered.temperature ?? 0.1 },
+      userId,
+    }, alignmentOutput, this.registry);
+
+    const byName = new Map(
+      response.alignments.map(alignment => [alignment.framework.trim().toLowerCase(), alignment])
+    );
+
+    await saveAlignments(type, id, frameworks.map(framework => {
+      const alignment = byName.get(framework.name.toLowerCase());
+      const strength = Number(alignment?.strength);
+      return {
+        frameworkId: framework.id,
+        strength: Number.isFinite(strength) ? Math.min(1, Math.max(0, strength)) : 0,
+        reasoning: alignment?.reasoning || '',
+        ...promptStamp(rendered),
+      };
+    }));
+  }
+
+  /**
+   * Aggregate a user's ALIGNS_WITH edges into a framework profile. Makes no LLM calls.
+   */
+  async aggregate(userId: string): Promise<FrameworkAggregate> {
+    const [frameworks, edges, principles] = await Promise.all([
+      findFrameworks(),
+      findAlignmentEdges(userId),
+      findUserPrinciples(userId),
+    ]);
+    return aggregateAlignments(frameworks, edges, principles);
+  }
+}
+
+/**
+ * Combine ALIGNS_WITH edges into per-framework scores and a summary.
+ * Each framework's score is the mean strength over the user's current answers,
+ * blended with the confidence-weighted mean over their principles. The primary
+ * framework is the highest scoring; secondary frameworks are the others at or
+ * above Constants.FRAMEWORK_ALIGNMENT_THRESHOLD. Ties are broken by name.
+ */
+export function aggregateAlignments(
+  frameworks: FrameworkNode[],
+  edges: AlignmentEdge[],
+  principles: PrincipleNode[]
+): FrameworkAggregate {
+  const scores = frameworks
+    .map(framework => scoreFramework(framework, edges.filter(edge => edge.frameworkId === framework.id)))
+    .sort((a, b) => b.alignmentScore - a.alignmentScore || a.name.localeCompare(b.name));
+
+  const threshold = Constants.FRAMEWORK_ALIGNMENT_THRESHOLD * 100;
+  const [primary, ...others] = scores;
+
+  const keyInsights = primary && primary.alignmentScore > 0
+    ? primary.reasoning.slice(0, 3)
+    : [];
+  if (primary && primary.alignmentScore > 0 && primary.alignmentScore < threshold) {
+    keyInsights.push('No single framework clearly dominates your reasoning yet.');
+  }
+
+  const consistencies = principles
+    .map(principle => principle.consistency)
+    .filter((value): value is number => typeof value === 'number');
+
+  return {
+    scores,
+    summary: {
+      primaryFramework: {
+        name: primary?.name ?? '',
+        alignmentScore: primary?.alignmentScore ?? 0,
+        reasoning: primary?.reasoning[0] ?? '',
+      },
+      secondaryFrameworks: others
+        .filter(score => score.alignmentScore >= threshold)
+        .map(score => ({ name: score.name, alignmentScore: score.alignmentScore })),
+      overallConsistency: consistencies.length > 0
+        ? round(consistencies.reduce((sum, value) => sum + value, 0) / consistencies.length)
+        : 1,
+      keyInsights,
+      blindSpots: edges.length > 0
+        ? scores
+            .filter(score => score.alignmentScore < BLIND_SPOT_THRESHOLD * 100)
+            .map(score => `${score.name} rarely features in your reasoning`)
+        : [],
+    },
+  };
+}
+
+function scoreFramework(framework: FrameworkNode, edges: AlignmentEdge[]): FrameworkScore {
+  const answers = edges.filter(edge => edge.sourceType === 'answer');
+  const principles = edges.filter(edge => edge.sourceType === 'principle');
+
+  const answerScore = answers.length > 0
+    ? answers.reduce((sum, edge) => sum + edge.strength, 0) / answers.length
+    : null;
+  const principleWeight = principles.reduce((sum, edge) => sum + edge.weight, 0);
+  const principleScore = principleWeight > 0
+    ? principles.reduce((sum, edge) => sum + edge.weight * edge.strength, 0) / principleWeight
+    : null;
+
+  const combined = answerScore !== null && principleScore !== null
+    ? SOURCE_WEIGHTS.answers * answerScore + SOURCE_WEIGHTS.principles * principleScore
+    : answerScore ?? principleScore ?? 0;
+
+  const aligned = (sourceEdges: AlignmentEdge[]) => sourceEdges
+    .filter(edge => edge.strength >= Constants.FRAMEWORK_ALIGNMENT_THRESHOLD)
+    .map(edge => edge.sourceId)
+    .sort();
+
+  return {
+    frameworkId: framework.id,
+    name: framework.name,
+    keyThinkers: framework.keyThinkers || [],
+    alignmentScore: Math.round(combined * 100),
+    answerScore: answerScore === null ? null : round(answerScore),
+    principleScore: principleScore === null ? null : round(principleScore),
+    alignedAnswerIds: aligned(answers),
+    alignedPrincipleIds: aligned(principles),
+    reasoning: edges
+      .filter(edge => edge.strength >= Constants.FRAMEWORK_ALIGNMENT_THRESHOLD)
+      .sort((a, b) => b.strength - a.strength || a.sourceId.localeCompare(b.sourceId))
+      .map(edge => edge.reasoning)
+      .filter((reasoning): reasoning is string => !!reasoning),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export a singleton instance
+export const frameworkAnalyzer = new FrameworkAnalyzer();
@@ -0,0 +1,184 @@
+// src/lib/llm/llm-router.ts
+
+import {
+  ErrorCode,
+  LLMConfig,
+  LLMProviderName,
+  LLMTask,
+  ModelRoute,
+  OllamaChatResponse,
+  OllamaResponse,
+} from '../types';
+import { ollamaClient } from './ollama-client';
+import { openAICompatibleClient } from './openai-client';
+import { ChatRequest, GenerateRequest, LLMProvider, TokenHandler, createLLMError, isLLMError } from './provider';
+
+export type RoutingConfig = Pick<LLMConfig, 'defaultModel' | 'routes' | 'fallbackModels'>;
+
+const PROVIDER_NAMES: LLMProviderName[] = ['ollama', 'openai'];
+
+// Environment variables holding each task's model chain
+const TASK_VARIABLES: Record<LLMTask | 'default', string> = {
+  default: 'LLM_MODELS',
+  questionGeneration: 'LLM_MODELS_QUESTION_GENERATION',
+  contradictionAnalysis: 'LLM_MODELS_CONTRADICTION_ANALYSIS',
+  principleExtraction: 'LLM_MODELS_PRINCIPLE_EXTRACTION',
+  frameworkAnalysis: 'LLM_MODELS_FRAMEWORK_ANALYSIS',
+  formalization: 'LLM_MODELS_FORMALIZATION',
+};
+
+/**
+ * Parse a model reference of the form "provider:model", e.g. "openai:qwen2.5-7b".
+ * Without a known provider prefix the whole reference names an Ollama model, so
+ * Ollama tags such as "llama3.2:3b" need no prefix.
+ */
+export function parseModelRoute(reference: string): ModelRoute {
+  const separator = reference.indexOf(':');
+  const prefix = reference.slice(0, separator) as LLMProviderName;
+  if (separator > 0 && PROVIDER_NAMES.includes(prefix)) {
+    return { provider: prefix, model: reference.slice(separator + 1) };
+  }
+  return { provider: 'ollama', model: reference };
+}
+
+/**
+ * Parse a comma-separated chain of model references
+ */
+export function parseModelRoutes(references: string): ModelRoute[] {
+  return references.split(',').map(reference => reference.trim()).filter(Boolean).map(parseModelRoute);
+}
+
+export function formatModelRoute(route: ModelRoute): string {
+  return `${route.provider}:${route.model}`;
+}
+
+/**
+ * Sends each request to the models configured for its task.
+ * A task's models are tried in order, followed by the fallback models; the next
+ * one is tried only when the current one does not exist on its server
+ * (MODEL_NOT_FOUND). Any other failure is thrown, after the provider's own retries.
+ */
+export class LLMRouter implements LLMProvider {
+  private providers: Partial<Record<LLMProviderName, LLMProvider>>;
+  private config: RoutingConfig;
+
+  constructor(providers: Partial<Record<LLMProviderName, LLMProvider>>, config: RoutingConfig) {
+    this.providers = providers;
+    this.config = config;
+
+    const routes = [...Object.values(config.routes ?? {}).flat(), ...(config.fallbackModels ?? [])];
+    const unconfigured = routes.filter(route => !providers[route.provider]);
+    if (unconfigured.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `LLM routes use unconfigured providers: ${unconfigured.map(formatModelRoute).join(', ')}`,
+      };
+    }
+  }
+
+  /**
+   * The models tried for a task, in order. An explicit request model replaces the
+   * task's routes but still falls back.
+   */
+  routeFor(task?: LLMTask, model?: string): ModelRoute[] {
+    const routes = this.config.routes ?? {};
+    const primary = model
+      ? [parseModelRoute(model)]
+      : (task && routes[task]) || routes.default || [{ provider: 'ollama' as const, model: this.config.defaultModel }];
+
+    const seen = new Set<string>();
+    return [...primary, ...(this.config.fallbackModels ?? [])].filter(route => {
+      const key = formatModelRoute(route);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  async generate({ task, ...request }: GenerateRequest, onToken?: TokenHandler): Promise<OllamaResponse> {
+    return this.withFallback(this.routeFor(task, request.model), task, (provider, model) =>
+      provider.generate({ ...request, model }, onToken)
+    );
+  }
+
+  async chat({ task, ...request }: ChatRequest, onToken?: TokenHandler): Promise<OllamaChatResponse> {
+    return this.withFallback(this.routeFor(task, request.model), task, (provider, model) =>
+      provider.chat({ ...request, model }, onToken)
+    );
+  }
+
+  /**
+   * List the models of every configured provider as "provider:model" references
+   */
+  async listModels(): Promise<string[]> {
+    const lists = await Promise.all(
+      Object.entries(this.providers).map(async ([provider, client]) =>
+        (await client.listModels()).map(model => `${provider}:${model}`)
+      )
+    );
+    return lists.flat();
+  }
+
+  private async withFallback<T>(
+    routes: ModelRoute[],
+    task: LLMTask | undefined,
+    send: (provider: LLMProvider, model: string) => Promise<T>,
+    tried: string[] = []
+  ): Promise<T> {
+    const [route, ...rest] = routes;
+    const provider = this.providers[route.provider];
+    if (!provider) {
+      throw createLLMError('MODEL_NOT_FOUND', `Provider "${route.provider}" is not configured`, { route });
+    }
+
+    try {
+      return await send(provider, route.model);
+    } catch (error) {
+      if (!isLLMError(error) || error.code !== 'MODEL_NOT_FOUND') {
+        throw error;
+      }
+
+      const attempted = [...tried, formatModelRoute(route)];
+      if (rest.length === 0) {
+        throw createLLMError(
+          'MODEL_NOT_FOUND',
+          `No model available for ${task ?? 'request'}; tried ${attempted.join(', ')}`,
+          { tried: attempted, error }
+        );
+      }
+
+      console.warn(`Model ${formatModelRoute(route)} not found, falling back to ${formatModelRoute(rest[0])}`);
+      return this.withFallback(rest, task, send, attempted);
+    }
+  }
+}
+
+/**
+ * Build the router from the environment: LLM_MODELS sets the default chain,
+ * LLM_MODELS_<TASK> a task's own chain and LLM_FALLBACK_MODELS the models tried
+ * after any chain. The OpenAI-compatible provider exists when OPENAI_BASE_URL is set.
+ */
+export function createLLMRouter(env: NodeJS.ProcessEnv = process.env): LLMRouter {
+  const routes: LLMConfig['routes'] = {};
+  (Object.keys(TASK_VARIABLES) as Array<keyof typeof TASK_VARIABLES>).forEach(task => {
+    const value = env[TASK_VARIABLES[task]];
+    if (value) {
+      routes[task] = parseModelRoutes(value);
+    }
+  });
+
+  return new LLMRouter(
+    {
+      ollama: ollamaClient,
+      ...(openAICompatibleClient ? { openai: openAICompatibleClient } : {}),
+    },
+    {
+      defaultModel: ollamaClient.getConfig().defaultModel,
+      routes,
+      fallbackModels: parseModelRoutes(env.LLM_FALLBACK_MODELS || ''),
+    }
+  );
+}
+
+// Export a singleton instance
+export const llmRouter = createLLMRouter();
@@ -0,0 +1,129 @@
+// src/lib/llm/mock-ollama-server.ts
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OllamaChatMessage } from '../types';
+
+/**
+ * Normalized view of an incoming /api/generate or /api/chat request
+ */
+export interface MockPromptInput {
+  endpoint: 'generate' | 'chat';
+  model: string;
+  prompt: string;
+  system?: string;
+  messages?: OllamaChatMessage[];
+  options?: Record<string, unknown>;
+  format?: unknown; // "json" or a JSON schema, as sent
+}
+
+export type MockResponder = (input: MockPromptInput) => string | Promise<string>;
+
+export interface MockOllamaOptions {
+  port?: number;
+  models?: string[];
+  responder?: MockResponder;
+  latency?: number; // Delay in ms between streamed chunks
+  failures?: number; // Number of initial requests answered with 503, for exercising retries
+}
+
+export interface MockOllamaServer {
+  url: string;
+  requests: MockPromptInput[];
+  close: () => Promise<void>;
+}
+
+const DEFAULT_MODELS = ['deepseek-coder'];
+const DEFAULT_RESPONSE = 'This is a stand-in response from the mock Ollama server.';
+
+/**
+ * Start a local stand-in for the Ollama API.
+ * Implements /api/generate, /api/chat and /api/tags with the same streaming
+ * and error semantics as Ollama, so LLM-dependent code can run without a model.
+ */
+export async function startMockOllamaServer(options: MockOllamaOptions = {}): Promise<MockOllamaServer> {
+  const models = options.models || DEFAULT_MODELS;
+  const responder = options.responder || (() => DEFAULT_RESPONSE);
+  const requests: MockPromptInput[] = [];
+  let remainingFailures = options.failures || 0;
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      if (req.method === 'GET' && req.url === '/api/tags') {
+        return sendJson(res, 200, { models: models.map(name => ({ name })) });
+      }
+
+      const endpoint = req.url === '/api/generate' ? 'generate' : req.url === '/api/chat' ? 'chat' : null;
+      if (req.method !== 'POST' || !endpoint) {
+        return sendJson(res, 404, { error: 'not found' });
+      }
+
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        return sendJson(res, 503, { error: 'server busy' });
+      }
+
+      const body = JSON.parse(await readBody(req));
+      if (!models.includes(body.model)) {
+        return sendJson(res, 404, { error: `model '${body.model}' not found, try pulling it first` });
+      }
+
+      const input: MockPromptInput = {
+        endpoint,
+        model: body.model,
+        prompt: endpoint === 'generate'
+          ? body.prompt
+          : (body.messages || []).map((message: OllamaChatMessage) => message.content).join('\n'),
+        system: body.system,
+        messages: body.messages,
+        options: body.options,
+        format: body.format,
+      };
+      requests.push(input);
+
+      const text = await responder(input);
+      const createdAt = new Date().toISOString();
+      const chunk = (content: string, done: boolean) => endpoint === 'generate'
+        ? { model: body.model, created_at: createdAt, response: content, done }
+        : { model: body.model, created_at: createdAt, message: { role: 'assistant', content }, done };
+
+      if (body.stream === false) {
+        return sendJson(res, 200, chunk(text, true));
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      for (const token of text.match(/\S+\s*|\s+/g) || []) {
+        res.write(JSON.stringify(chunk(token, false)) + '\n');
+        if (options.latency) {
+          await new Promise(resolve => setTimeout(resolve, options.latency));
+        }
+      }
+      res.end(JSON.stringify(chunk('', true)) + '\n');
+    } catch (error) {
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
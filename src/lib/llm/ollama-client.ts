@@ -0,0 +1,163 @@
+// src/lib/llm/ollama-client.ts
+
+import { Constants, OllamaChatResponse, OllamaResponse } from '../types';
+import { CacheKeyInput, llmCache } from './cache';
+import { ChatRequest, GenerateRequest, HttpLLMClient, TokenHandler, createLLMError } from './provider';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Client for the Ollama HTTP API
+ */
+export class OllamaClient extends HttpLLMClient {
+  protected readonly serverName = 'Ollama';
+
+  /**
+   * Generate a completion via /api/generate.
+   * When `stream` is true, tokens are passed to `onToken` as they arrive and the
+   * returned response contains the full concatenated text.
+   */
+  async generate({ userId, ...request }: GenerateRequest, onToken?: TokenHandler): Promise<OllamaResponse> {
+    const body = {
+      ...request,
+      model: request.model || this.config.defaultModel,
+      options: { ...this.config.defaultOptions, ...request.options },
+      stream: request.stream ?? false,
+    };
+
+    const cacheInput: CacheKeyInput = {
+      endpoint: 'generate',
+      model: body.model,
+      prompt: body.prompt,
+      system: body.system,
+      template: body.template,
+      context: body.context,
+      format: body.format,
+      options: body.options,
+      userId,
+    };
+
+    return this.withCache(cacheInput, cached => onToken?.(cached.response), async () => {
+      let emitted = false;
+      const chunks = await this.withRetry(
+        () => this.request('/api/generate', body, response =>
+          this.readChunks<OllamaResponse>(response, body.stream, chunk => {
+            if (chunk.response) {
+              emitted = true;
+              onToken?.(chunk.response);
+            }
+          })
+        ),
+        () => !emitted
+      );
+
+      const last = chunks[chunks.length - 1];
+      return {
+        ...last,
+        response: chunks.map(chunk => chunk.response || '').join(''),
+      };
+    });
+  }
+
+  /**
+   * Run a chat completion via /api/chat, streaming like generate()
+   */
+  async chat({ userId, ...request }: ChatRequest, onToken?: TokenHandler): Promise<OllamaChatResponse> {
+    const body = {
+      ...request,
+      model: request.model || this.config.defaultModel,
+      options: { ...this.config.defaultOptions, ...request.options },
+      stream: request.stream ?? false,
+    };
+
+    const cacheInput: CacheKeyInput = {
+      endpoint: 'chat',
+      model: body.model,
+      prompt: body.messages.map(message => `${message.role}: ${message.content}`).join('\n'),
+      format: body.format,
+      options: body.options,
+      userId,
+    };
+
+    return this.withCache(cacheInput, cached => onToken?.(cached.message.content), async () => {
+      let emitted = false;
+      const chunks = await this.withRetry(
+        () => this.request('/api/chat', body, response =>
+          this.readChunks<OllamaChatResponse>(response, body.stream, chunk => {
+            if (chunk.message?.content) {
+              emitted = true;
+              onToken?.(chunk.message.content);
+            }
+          })
+        ),
+        () => !emitted
+      );
+
+      const last = chunks[chunks.length - 1];
+      return {
+        ...last,
+        message: {
+          role: 'assistant' as const,
+          content: chunks.map(chunk => chunk.message?.content || '').join(''),
+        },
+      };
+    });
+  }
+
+  /**
+   * List the models installed on the Ollama server
+   */
+  async listModels(): Promise<string[]> {
+    const tags = await this.withRetry(
+      () => this.request('/api/tags', undefined, async response =>
+        this.parseJson<{ models?: Array<{ name: string }> }>(await response.text())
+      ),
+      () => true
+    );
+    return (tags.models || []).map(model => model.name);
+  }
+
+  /**
+   * Collect the response chunks.
+   * Non-streaming responses yield a single chunk; streaming responses are
+   * newline-delimited JSON and yield one chunk per line.
+   */
+  private async readChunks<T extends { done?: boolean }>(
+    response: Response,
+    stream: boolean,
+    onChunk?: (chunk: T) => void
+  ): Promise<T[]> {
+    if (!stream) {
+      const chunk = this.parseJson<T>(await response.text());
+      onChunk?.(chunk);
+      return [chunk];
+    }
+
+    const chunks: T[] = [];
+    await this.readLines(response, line => {
+      const chunk = this.parseJson<T>(line);
+      chunks.push(chunk);
+      onChunk?.(chunk);
+    });
+
+    if (chunks.length === 0 || !chunks[chunks.length - 1].done) {
+      throw createLLMError('INVALID_RESPONSE', 'Ollama stream ended before completion', { chunks: chunks.length });
+    }
+
+    return chunks;
+  }
+}
+
+// Export a singleton instance
+export const ollamaClient = new OllamaClient({
+  baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+  defaultModel: process.env.OLLAMA_MODEL || 'deepseek-coder',
+  defaultOptions: {
+    temperature: 0.7,
+  },
+  retryAttempts: Number(process.env.OLLAMA_RETRY_ATTEMPTS) || Constants.MAX_RETRIES,
+  retryDelay: Number(process.env.OLLAMA_RETRY_DELAY) || 1000,
+  timeout: Number(process.env.OLLAMA_TIMEOUT) || 120000,
+}, llmCache);
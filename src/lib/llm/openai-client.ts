@@ -0,0 +1,212 @@
+// src/lib/llm/openai-client.ts
+
+import { Constants, OllamaChatMessage, OllamaChatResponse, OllamaRequestOptions, OllamaResponse } from '../types';
+import { CacheKeyInput, llmCache } from './cache';
+import { ChatRequest, GenerateRequest, HttpLLMClient, TokenHandler, createLLMError } from './provider';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+interface CompletionChoice {
+  message?: { content?: string | null };
+  delta?: { content?: string | null };
+  finish_reason?: string | null;
+}
+
+interface CompletionResponse {
+  model: string;
+  created: number; // Unix seconds
+  choices: CompletionChoice[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Client for OpenAI-compatible servers such as llama.cpp's llama-server and vLLM.
+ * Uses /chat/completions for both generate() and chat(), so the server applies the
+ * model's chat template as Ollama does, and maps `format` to `response_format`;
+ * Ollama-only fields (template, context) are ignored. baseUrl includes the API
+ * prefix, e.g. http://localhost:8000/v1.
+ */
+export class OpenAICompatibleClient extends HttpLLMClient {
+  protected readonly serverName = 'OpenAI-compatible server';
+
+  /**
+   * Generate a completion for a single prompt, sending `system` as a system message
+   */
+  async generate(request: GenerateRequest, onToken?: TokenHandler): Promise<OllamaResponse> {
+    const messages: OllamaChatMessage[] = [
+      ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+    const { message, ...response } = await this.complete('generate', { ...request, messages }, onToken);
+    return { ...response, response: message.content };
+  }
+
+  /**
+   * Run a chat completion, streaming tokens to `onToken` when `stream` is true
+   */
+  async chat(request: ChatRequest, onToken?: TokenHandler): Promise<OllamaChatResponse> {
+    return this.complete('chat', request, onToken);
+  }
+
+  /**
+   * List the models the server serves
+   */
+  async listModels(): Promise<string[]> {
+    const models = await this.withRetry(
+      () => this.request('/models', undefined, async response =>
+        this.parseJson<{ data?: Array<{ id: string }> }>(await response.text())
+      ),
+      () => true
+    );
+    return (models.data || []).map(model => model.id);
+  }
+
+  private async complete(
+    endpoint: 'generate' | 'chat',
+    { userId, messages, ...request }: ChatRequest,
+    onToken?: TokenHandler
+  ): Promise<OllamaChatResponse> {
+    const model = request.model || this.config.defaultModel;
+    const options = { ...this.config.defaultOptions, ...request.options };
+    const stream = request.stream ?? false;
+    const body = {
+      model,
+      messages,
+      stream,
+      response_format: toResponseFormat(request.format),
+      ...toSamplingParameters(options),
+    };
+
+    // Namespaced so the same model name on Ollama and here never shares entries
+    const cacheInput: CacheKeyInput = {
+      endpoint: `openai:${endpoint}`,
+      model,
+      prompt: messages.map(message => `${message.role}: ${message.content}`).join('\n'),
+      format: request.format,
+      options,
+      userId,
+    };
+
+    return this.withCache(cacheInput, cached => onToken?.(cached.message.content), async () => {
+      const startedAt = Date.now();
+      let emitted = false;
+      const completion = await this.withRetry(
+        () => this.request('/chat/completions', body, response => stream
+          ? this.readStream(response, token => {
+            emitted = true;
+            onToken?.(token);
+          })
+          : this.readCompletion(response, onToken)
+        ),
+        () => !emitted
+      );
+
+      return {
+        model: completion.model || model,
+        created_at: new Date((completion.created || startedAt / 1000) * 1000).toISOString(),
+        message: { role: 'assistant' as const, content: completion.content },
+        done: true,
+        total_duration: (Date.now() - startedAt) * 1e6, // Nanoseconds, as Ollama reports them
+        prompt_eval_count: completion.usage?.prompt_tokens,
+        eval_count: completion.usage?.completion_tokens,
+      };
+    });
+  }
+
+  private async readCompletion(
+    response: Response,
+    onToken?: TokenHandler
+  ): Promise<Omit<CompletionResponse, 'choices'> & { content: string }> {
+    const { choices, ...completion } = this.parseJson<CompletionResponse>(await response.text());
+    const content = choices?.[0]?.message?.content ?? '';
+    if (content) onToken?.(content);
+    return { ...completion, content };
+  }
+
+  /**
+   * Read a server-sent event stream of completion chunks, ended by `data: [DONE]`
+   */
+  private async readStream(
+    response: Response,
+    onToken: TokenHandler
+  ): Promise<Omit<CompletionResponse, 'choices'> & { content: string }> {
+    const chunks: CompletionResponse[] = [];
+    let content = '';
+    let finished = false;
+
+    await this.readLines(response, line => {
+      // Comments, event names and keep-alives carry no data
+      if (!line.startsWith('data:')) return;
+
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') {
+        finished = true;
+        return;
+      }
+
+      const chunk = this.parseJson<CompletionResponse>(data);
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      chunks.push(chunk);
+    });
+
+    const last = chunks[chunks.length - 1];
+    if (!finished || !last) {
+      throw createLLMError('INVALID_RESPONSE', 'OpenAI-compatible stream ended before completion', {
+        chunks: chunks.length,
+      });
+    }
+
+    // Servers that report usage send it on the final chunk
+    return { model: last.model, created: last.created, usage: last.usage, content };
+  }
+}
+
+/**
+ * Translate Ollama options to the OpenAI request fields; top_k is an extension
+ * that llama.cpp and vLLM accept
+ */
+function toSamplingParameters(options: OllamaRequestOptions): Record<string, unknown> {
+  return {
+    temperature: options.temperature,
+    top_p: options.top_p,
+    top_k: options.top_k,
+    max_tokens: options.num_predict ?? options.max_tokens,
+    stop: options.stop,
+    presence_penalty: options.presence_penalty,
+    frequency_penalty: options.frequency_penalty,
+  };
+}
+
+/**
+ * Translate Ollama's format option: "json" is JSON mode, an object a JSON schema
+ */
+function toResponseFormat(format: ChatRequest['format']): Record<string, unknown> | undefined {
+  if (!format) {
+    return undefined;
+  }
+  if (format === 'json') {
+    return { type: 'json_object' };
+  }
+  return { type: 'json_schema', json_schema: { name: 'response', schema: format } };
+}
+
+// Export a singleton instance; only used when OPENAI_BASE_URL is set
+export const openAICompatibleClient = process.env.OPENAI_BASE_URL
+  ? new OpenAICompatibleClient({
+    baseUrl: process.env.OPENAI_BASE_URL.replace(/\/+$/, ''),
+    defaultModel: process.env.OPENAI_MODEL || 'default',
+    defaultOptions: {
+      temperature: 0.7,
+    },
+    apiKey: process.env.OPENAI_API_KEY,
+    retryAttempts: Number(process.env.OPENAI_RETRY_ATTEMPTS) || Constants.MAX_RETRIES,
+    retryDelay: Number(process.env.OPENAI_RETRY_DELAY) || 1000,
+    timeout: Number(process.env.OPENAI_TIMEOUT) || 120000,
+  }, llmCache)
+  : null;
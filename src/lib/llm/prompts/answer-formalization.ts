@@ -0,0 +1,49 @@
+// src/lib/llm/prompts/answer-formalization.ts
+
+import { PromptTemplate } from '../../types';
+
+/**
+ * Translates an answer into propositional logic over the user's shared vocabulary
+ */
+export const answerFormalizationPrompt: PromptTemplate = {
+  id: 'answer-formalization',
+  name: 'Answer Formalization',
+  version: '1.0.0',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  variables: ['question', 'answer', 'knownPropositions'],
+  template: `You are translating a person's moral reasoning into propositional logic.
+
+Question: {{question}}
+Their answer: {{answer}}
+
+Propositions already used for this person's other answers:
+{{knownPropositions}}
+
+Write the commitments the answer makes as a logical form. Reuse an existing
+proposition whenever it means the same thing, so that answers can be compared.
+Name new propositions in snake_case. Use "->" for implication, "&" for and,
+"|" for or, "!" for not, and separate independent claims with commas.
+
+Respond with JSON only, in this exact shape:
+{"logicalForm": "...", "propositions": {"name": "plain-language meaning"}}`,
+  metadata: {
+    author: 'GoodFaith',
+    description: 'Per-answer propositional logic used to detect implied contradictions',
+    bestTemperature: 0,
+    examples: [
+      {
+        variables: {
+          question: 'Would you lie to a friend to protect their feelings?',
+          answer: 'Yes, a small lie is fine if it keeps them from getting hurt.',
+          knownPropositions: '- lying_wrong: Lying is morally wrong',
+        },
+        expectedOutput: JSON.stringify({
+          logicalForm: 'protects_feelings -> !lying_wrong',
+          propositions: {
+            protects_feelings: 'The lie protects someone\'s feelings',
+          },
+        }),
+      },
+    ],
+  },
+};
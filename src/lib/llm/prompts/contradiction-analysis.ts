@@ -0,0 +1,74 @@
+// src/lib/llm/prompts/contradiction-analysis.ts
+
+import { PromptTemplate } from '../../types';
+
+/**
+ * Judges whether two answers from the same user contradict each other
+ */
+export const contradictionAnalysisPrompt: PromptTemplate = {
+  id: 'contradiction-analysis',
+  name: 'Contradiction Analysis',
+  version: '1.0.0',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  variables: ['question1', 'answer1', 'question2', 'answer2', 'principlesInvolved'],
+  template: `You are checking a person's moral reasoning for consistency.
+
+First question: {{question1}}
+Their answer: {{answer1}}
+
+Second question: {{question2}}
+Their answer: {{answer2}}
+
+Principles that may be involved:
+{{principlesInvolved}}
+
+Decide whether the two answers contradict each other. Differences in the situations
+that justify different answers are NOT contradictions. Only flag a contradiction when
+the same principle is applied in opposite ways without a relevant difference.
+
+Express the reasoning as propositional logic using single capital letters for
+claims, "->" for implication, "&" for and, "|" for or and "!" for not, e.g.
+"A->B, B->C, therefore A->C".
+
+Respond with JSON only, in this exact shape:
+{"isContradiction": true, "confidence": 0.0, "explanation": "plain-language explanation", "logicalForm": "...", "suggestedResolution": "..."}`,
+  metadata: {
+    author: 'GoodFaith',
+    description: 'Pairwise contradiction judgement with a propositional logical form',
+    bestTemperature: 0.1,
+    examples: [
+      {
+        variables: {
+          question1: 'Is it right to lie to avoid punishment?',
+          answer1: 'No. Lying is wrong no matter what it gets you out of.',
+          question2: 'Would you lie to a friend to protect their feelings?',
+          answer2: 'Yes, a small lie is fine if it keeps them from getting hurt.',
+          principlesInvolved: '- Honesty should be upheld even at personal cost',
+        },
+        expectedOutput: JSON.stringify({
+          isContradiction: true,
+          confidence: 0.8,
+          explanation: 'The first answer says lying is always wrong, but the second accepts lying when it protects someone\'s feelings.',
+          logicalForm: 'L->!P, L, P',
+          suggestedResolution: 'Explain whether protecting others is an exception to the rule against lying.',
+        }),
+      },
+      {
+        variables: {
+          question1: 'Should you keep a promise to a friend even if it\'s costly?',
+          answer1: 'Yes, promises matter and people rely on them.',
+          question2: 'Should you break a promise to prevent serious harm to someone?',
+          answer2: 'Yes, preventing serious harm outweighs a promise.',
+          principlesInvolved: '- Promises should be kept',
+        },
+        expectedOutput: JSON.stringify({
+          isContradiction: false,
+          confidence: 0.85,
+          explanation: 'Cost to yourself and serious harm to others are relevantly different situations, so the answers are compatible.',
+          logicalForm: 'P&!H->K, H->!K',
+          suggestedResolution: '',
+        }),
+      },
+    ],
+  },
+};
@@ -0,0 +1,52 @@
+// src/lib/llm/prompts/framework-analysis.ts
+
+import { PromptTemplate } from '../../types';
+
+/**
+ * Scores a single answer or principle against each philosophical framework
+ */
+export const frameworkAnalysisPrompt: PromptTemplate = {
+  id: 'framework-analysis',
+  name: 'Framework Analysis',
+  version: '1.0.0',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  variables: ['statementType', 'statement', 'context', 'frameworks'],
+  template: `You are mapping a person's moral reasoning onto philosophical frameworks.
+
+The {{statementType}} to analyze:
+"{{statement}}"
+
+Context:
+{{context}}
+
+Frameworks:
+{{frameworks}}
+
+For EVERY framework listed, rate how strongly the {{statementType}} reflects that
+framework's way of reasoning, from 0 (not at all) to 1 (a textbook example), and
+give a one-sentence reason. Use the framework names exactly as listed.
+
+Respond with JSON only, in this exact shape:
+{"alignments": [{"framework": "...", "strength": 0.0, "reasoning": "..."}]}`,
+  metadata: {
+    author: 'GoodFaith',
+    description: 'Per-statement framework alignment scores used to build ALIGNS_WITH edges',
+    bestTemperature: 0.1,
+    examples: [
+      {
+        variables: {
+          statementType: 'answer',
+          statement: 'No. Lying is wrong no matter what it gets you out of.',
+          context: 'Question: Is it right to lie to avoid punishment?',
+          frameworks: '- Deontology: Morality is defined by duties and rules\n- Utilitarianism: The right action maximizes overall well-being',
+        },
+        expectedOutput: JSON.stringify({
+          alignments: [
+            { framework: 'Deontology', strength: 0.9, reasoning: 'Treats the rule against lying as binding regardless of outcome.' },
+            { framework: 'Utilitarianism', strength: 0.1, reasoning: 'Ignores the consequences of the lie entirely.' },
+          ],
+        }),
+      },
+    ],
+  },
+};
@@ -0,0 +1,109 @@
+// src/lib/llm/prompts/index.ts
+
+import { ErrorCode, PromptTemplate, RenderedPrompt } from '../../types';
+import { questionGenerationPrompt } from './question-generation';
+import { contradictionAnalysisPrompt } from './contradiction-analysis';
+import { frameworkAnalysisPrompt } from './framework-analysis';
+import { answerFormalizationPrompt } from './answer-formalization';
+import { principleExtractionPrompt } from './principle-extraction';
+import { outputRepairPrompt } from './output-repair';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Registry of versioned prompt templates
+ */
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+
+  /**
+   * Register a template, checking that its placeholders match its declared variables
+   */
+  register(template: PromptTemplate): void {
+    if (this.templates.has(template.id)) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Prompt template "${template.id}" is already registered`,
+      };
+    }
+
+    const placeholders = new Set(Array.from(template.template.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+    const undeclared = Array.from(placeholders).filter(name => !template.variables.includes(name));
+    const unused = template.variables.filter(name => !placeholders.has(name));
+
+    if (undeclared.length > 0 || unused.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Prompt template "${template.id}" placeholders do not match its variables`,
+        details: { undeclared, unused },
+      };
+    }
+
+    this.templates.set(template.id, template);
+  }
+
+  /**
+   * Get a template by ID
+   */
+  get(id: string): PromptTemplate {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Unknown prompt template "${id}"`,
+      };
+    }
+    return template;
+  }
+
+  /**
+   * List all registered templates
+   */
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Render a template, rejecting missing or unexpected variables
+   */
+  render(id: string, variables: Record<string, string>): RenderedPrompt {
+    const template = this.get(id);
+    const provided = Object.keys(variables);
+    const missing = template.variables.filter(name => variables[name] === undefined);
+    const extra = provided.filter(name => !template.variables.includes(name));
+
+    if (missing.length > 0 || extra.length > 0) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Invalid variables for prompt template "${id}"`,
+        details: { missing, extra },
+      };
+    }
+
+    return {
+      templateId: template.id,
+      version: template.version,
+      prompt: template.template.replace(PLACEHOLDER_PATTERN, (_, name: string) => variables[name]),
+      temperature: template.metadata?.bestTemperature,
+    };
+  }
+}
+
+/**
+ * Metadata recording which prompt produced a generated node or relationship
+ */
+export function promptStamp(rendered: RenderedPrompt): { promptId: string; promptVersion: string } {
+  return {
+    promptId: rendered.templateId,
+    promptVersion: rendered.version,
+  };
+}
+
+// Export a singleton registry with all built-in templates
+export const promptRegistry = new PromptRegistry();
+promptRegistry.register(questionGenerationPrompt);
+promptRegistry.register(contradictionAnalysisPrompt);
+promptRegistry.register(frameworkAnalysisPrompt);
+promptRegistry.register(answerFormalizationPrompt);
+promptRegistry.register(principleExtractionPrompt);
+promptRegistry.register(outputRepairPrompt);
@@ -0,0 +1,25 @@
+// src/lib/llm/prompts/output-repair.ts
+
+import { PromptTemplate } from '../../types';
+
+/**
+ * Follow-up turn asking the model to correct a structured response that failed validation
+ */
+export const outputRepairPrompt: PromptTemplate = {
+  id: 'output-repair',
+  name: 'Structured Output Repair',
+  version: '1.0.0',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  variables: ['name', 'issues', 'schema'],
+  template: `Your previous reply was not a valid {{name}}. These problems were found:
+{{issues}}
+
+Keep the content of your previous reply, but fix these problems. Respond with the
+corrected JSON object only, with no other text, following this JSON schema:
+{{schema}}`,
+  metadata: {
+    author: 'GoodFaith',
+    description: 'Sent back with the validation issues when a response does not match its schema',
+    bestTemperature: 0,
+  },
+};
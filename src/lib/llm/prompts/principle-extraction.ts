@@ -0,0 +1,68 @@
+// src/lib/llm/prompts/principle-extraction.ts
+
+import { PromptTemplate } from '../../types';
+
+/**
+ * Extracts the moral principles behind a user's answers, reusing principles they already hold
+ */
+export const principleExtractionPrompt: PromptTemplate = {
+  id: 'principle-extraction',
+  name: 'Principle Extraction',
+  version: '1.0.0',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  variables: ['answers', 'existingPrinciples', 'maxPrinciples'],
+  template: `You are identifying the moral principles behind a person's reasoning.
+
+Their answers:
+{{answers}}
+
+Principles already identified for this person:
+{{existingPrinciples}}
+
+List at most {{maxPrinciples}} general principles these answers rely on. When an answer
+relies on a principle already identified, repeat that principle's text exactly instead
+of rewording it. For each principle, give the numbers of the answers it is derived from
+and your confidence from 0 to 1.
+
+Also list, by number (e.g. "P2"), any already identified principles that these answers
+go against, and describe any inconsistencies or recurring patterns you notice.
+
+Respond with JSON only, in this exact shape:
+{"principles": [{"text": "...", "description": "...", "derivedFrom": ["1"], "confidence": 0.0}], "weakenedPrinciples": ["P1"], "patterns": ["..."], "inconsistencies": ["..."]}`,
+  metadata: {
+    author: 'GoodFaith',
+    description: 'Incremental principle extraction, merged into the user\'s Principle nodes',
+    bestTemperature: 0.2,
+    examples: [
+      {
+        variables: {
+          answers: '1. Question: Is it right to lie to avoid punishment?\n'
+            + '   Answer: No. Lying is wrong no matter what it gets you out of.\n'
+            + '2. Question: Would you lie to a friend to protect their feelings?\n'
+            + '   Answer: Yes, a small lie is fine if it keeps them from getting hurt.',
+          existingPrinciples: 'P1. Honesty should be upheld even at personal cost',
+          maxPrinciples: '10',
+        },
+        expectedOutput: JSON.stringify({
+          principles: [
+            {
+              text: 'Honesty should be upheld even at personal cost',
+              description: 'Telling the truth matters more than avoiding consequences for yourself.',
+              derivedFrom: ['1'],
+              confidence: 0.9,
+            },
+            {
+              text: 'Preventing harm to others can outweigh strict honesty',
+              description: 'Small deceptions are acceptable when they spare someone pain.',
+              derivedFrom: ['2'],
+              confidence: 0.7,
+            },
+          ],
+          weakenedPrinciples: ['P1'],
+          patterns: ['Judges lies by who benefits from them'],
+          inconsistencies: ['Rejects lying for self-protection but accepts it to protect others'],
+        }),
+      },
+    ],
+  },
+};
@@ -0,0 +1,59 @@
+// src/lib/llm/prompts/question-generation.ts
+
+import { PromptTemplate } from '../../types';
+
+/**
+ * Generates the next moral dilemma question for a user within a Kohlberg stage
+ */
+export const questionGenerationPrompt: PromptTemplate = {
+  id: 'question-generation',
+  name: 'Question Generation',
+  version: '1.0.0',
+  createdAt: '2026-10-19T00:00:00.000Z',
+  variables: ['stage', 'stageName', 'stageDescription', 'previousAnswers', 'userPrinciples', 'contextNotes'],
+  template: `You are guiding a person through an exploration of their moral reasoning.
+
+Current Kohlberg stage: {{stage}} - {{stageName}}
+Stage focus: {{stageDescription}}
+
+Questions they have already answered:
+{{previousAnswers}}
+
+Principles they appear to hold:
+{{userPrinciples}}
+
+Additional notes:
+{{contextNotes}}
+
+Write ONE new question that:
+- presents a short, relatable everyday scenario suited to this stage
+- uses plain language with no philosophical jargon
+- probes a principle above or a tension between their earlier answers
+- is clearly different from every question they have already answered
+
+Respond with JSON only, in this exact shape:
+{"question": "...", "reasoning": "why this question was chosen", "targetedPrinciples": ["..."], "potentialContradictions": ["..."]}`,
+  metadata: {
+    author: 'GoodFaith',
+    description: 'Stage-targeted question generation that builds on prior answers',
+    bestTemperature: 0.8,
+    examples: [
+      {
+        variables: {
+          stage: '3',
+          stageName: 'Interpersonal Conformity',
+          stageDescription: 'Decisions based on social approval and relationships',
+          previousAnswers: '- Q: Is it right to lie to avoid punishment?\n  A: No, honesty matters even when it costs me.',
+          userPrinciples: '- Honesty should be upheld even at personal cost',
+          contextNotes: 'None',
+        },
+        expectedOutput: JSON.stringify({
+          question: 'Your best friend asks whether you liked the dinner they spent all day cooking, and you did not. Do you tell them the truth?',
+          reasoning: 'Tests whether the stated commitment to honesty holds when it could hurt a close relationship.',
+          targetedPrinciples: ['Honesty should be upheld even at personal cost'],
+          potentialContradictions: ['Valuing honesty versus protecting a friend\'s feelings'],
+        }),
+      },
+    ],
+  },
+};
@@ -0,0 +1,284 @@
+// src/lib/llm/provider.ts
+
+import {
+  ErrorCode,
+  LLMConfig,
+  LLMError,
+  LLMTask,
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaRequest,
+  OllamaResponse,
+} from '../types';
+import { CacheKeyInput, LLMResponseCache } from './cache';
+
+type LLMErrorCode = LLMError['code'];
+
+/**
+ * Requests may omit the model, in which case the configured default is used.
+ * userId names the user whose data is in the prompt; it tags cached responses so
+ * they can be deleted with the user's data, and is never sent to the model server.
+ * task picks the models LLMRouter tries, which removes it before calling a client.
+ */
+export type GenerateRequest = Omit<OllamaRequest, 'model'> & { model?: string; userId?: string; task?: LLMTask };
+export type ChatRequest = Omit<OllamaChatRequest, 'model'> & { model?: string; userId?: string; task?: LLMTask };
+
+export type TokenHandler = (token: string) => void;
+
+/**
+ * A source of completions. Every provider answers in Ollama's response shapes.
+ */
+export interface LLMProvider {
+  generate(request: GenerateRequest, onToken?: TokenHandler): Promise<OllamaResponse>;
+  chat(request: ChatRequest, onToken?: TokenHandler): Promise<OllamaChatResponse>;
+  listModels(): Promise<string[]>;
+}
+
+const LLM_ERROR_CODES: Record<LLMErrorCode, ErrorCode> = {
+  CONNECTION_ERROR: ErrorCode.LLM_CONNECTION_ERROR,
+  TIMEOUT: ErrorCode.LLM_TIMEOUT,
+  INVALID_RESPONSE: ErrorCode.LLM_RESPONSE_ERROR,
+  MODEL_NOT_FOUND: ErrorCode.LLM_RESPONSE_ERROR,
+  RATE_LIMIT: ErrorCode.LLM_CONNECTION_ERROR,
+};
+
+// Failures that may succeed on a later attempt
+const RETRYABLE_CODES: LLMErrorCode[] = ['CONNECTION_ERROR', 'TIMEOUT', 'RATE_LIMIT'];
+
+/**
+ * Create an LLMError carrying both the LLM-specific and application error codes
+ */
+export function createLLMError(code: LLMErrorCode, message: string, details?: unknown): LLMError {
+  const error = new Error(message) as LLMError;
+  error.name = 'LLMError';
+  error.code = code;
+  error.errorCode = LLM_ERROR_CODES[code];
+  error.details = details;
+  return error;
+}
+
+/**
+ * Check whether a thrown value is an LLMError
+ */
+export function isLLMError(error: unknown): error is LLMError {
+  return error instanceof Error && error.name === 'LLMError' && 'errorCode' in error;
+}
+
+/**
+ * Transport shared by clients of HTTP model servers: timeouts, mapping HTTP
+ * failures to LLMErrors, retries with backoff and the response cache
+ */
+export abstract class HttpLLMClient implements LLMProvider {
+  protected config: LLMConfig;
+  protected cache: LLMResponseCache | null;
+  protected abstract readonly serverName: string; // Names the server in error messages
+
+  constructor(config: LLMConfig, cache: LLMResponseCache | null = null) {
+    this.config = config;
+    this.cache = cache;
+  }
+
+  /**
+   * Get the active configuration
+   */
+  getConfig(): LLMConfig {
+    return this.config;
+  }
+
+  abstract generate(request: GenerateRequest, onToken?: TokenHandler): Promise<OllamaResponse>;
+  abstract chat(request: ChatRequest, onToken?: TokenHandler): Promise<OllamaChatResponse>;
+  abstract listModels(): Promise<string[]>;
+
+  /**
+   * Serve a request from the response cache when possible.
+   * Cached responses are replayed to token handlers as a single token.
+   */
+  protected async withCache<T>(
+    input: CacheKeyInput,
+    replay: (cached: T) => void,
+    fetchResponse: () => Promise<T>
+  ): Promise<T> {
+    const temperature = input.options?.temperature as number | undefined;
+    if (!this.cache || !this.cache.isCacheable(temperature)) {
+      return fetchResponse();
+    }
+
+    const { key, promptHash } = this.cache.createKey(input);
+    const cached = await this.cache.get<T>(key);
+    if (cached) {
+      replay(cached);
+      return cached;
+    }
+
+    const response = await fetchResponse();
+    await this.cache.set(key, response, {
+      model: input.model,
+      temperature: temperature as number,
+      promptHash,
+      userId: input.userId,
+    });
+    return response;
+  }
+
+  /**
+   * Perform a request and hand the successful response to `read`.
+   * The timeout covers reading the body, so a stalled stream times out too.
+   */
+  protected async request<T>(
+    path: string,
+    body: Record<string, unknown> | undefined,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    const url = `${this.config.baseUrl}${path}`;
+
+    const headers: Record<string, string> = {};
+    if (body) headers['Content-Type'] = 'application/json';
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    try {
+      const response = await fetch(url, {
+        method: body ? 'POST' : 'GET',
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await this.toHttpError(response, body?.model as string | undefined);
+      }
+
+      return await read(response);
+    } catch (error) {
+      if (isLLMError(error)) throw error;
+      if (controller.signal.aborted) {
+        throw createLLMError('TIMEOUT', `${this.serverName} request timed out after ${this.config.timeout}ms`, { url });
+      }
+      throw createLLMError('CONNECTION_ERROR', `Failed to reach ${this.serverName} at ${this.config.baseUrl}`, { url, error });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Pass each non-empty line of a streamed body to `onLine`
+   */
+  protected async readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+      throw createLLMError('INVALID_RESPONSE', `${this.serverName} returned an empty stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      if (line.trim()) onLine(line);
+    };
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+  }
+
+  /**
+   * Parse a single JSON payload, surfacing in-band errors
+   */
+  protected parseJson<T>(text: string): T {
+    let parsed: T;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw createLLMError('INVALID_RESPONSE', `${this.serverName} returned malformed JSON`, { text, error });
+    }
+
+    const message = errorMessage(parsed);
+    if (message) {
+      throw createLLMError('INVALID_RESPONSE', `${this.serverName} error: ${message}`, { text });
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Retry transient failures with exponential backoff
+   */
+  protected async withRetry<T>(operation: () => Promise<T>, canRetry: () => boolean): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const llmError = isLLMError(error)
+          ? error
+          : createLLMError('INVALID_RESPONSE', `Unexpected error during ${this.serverName} request`, error);
+
+        const retryable = RETRYABLE_CODES.includes(llmError.code) && canRetry();
+        if (!retryable || attempt >= this.config.retryAttempts) {
+          throw llmError;
+        }
+
+        const delay = this.config.retryDelay * 2 ** attempt;
+        console.warn(`${this.serverName} request failed (${llmError.code}), retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Map an HTTP error status to an LLMError
+   */
+  private async toHttpError(response: Response, model?: string): Promise<LLMError> {
+    const text = await response.text().catch(() => '');
+    let message = text;
+    let code: unknown;
+    try {
+      const parsed = JSON.parse(text);
+      message = errorMessage(parsed) || text;
+      code = parsed.error?.code;
+    } catch {
+      // Body is not JSON; use it verbatim
+    }
+    const details = { status: response.status, body: text };
+
+    // OpenAI-compatible servers may report a missing model with a 400 and an error code
+    if (response.status === 404 || code === 'model_not_found') {
+      return createLLMError('MODEL_NOT_FOUND', `Model "${model}" not found: ${message}`, details);
+    }
+    if (response.status === 429) {
+      return createLLMError('RATE_LIMIT', `${this.serverName} rate limit exceeded: ${message}`, details);
+    }
+    if (response.status === 408 || response.status === 504) {
+      return createLLMError('TIMEOUT', `${this.serverName} timed out: ${message}`, details);
+    }
+    if (response.status >= 500) {
+      return createLLMError('CONNECTION_ERROR', `${this.serverName} server error (${response.status}): ${message}`, details);
+    }
+    return createLLMError(
+      'INVALID_RESPONSE',
+      `${this.serverName} rejected the request (${response.status}): ${message}`,
+      details
+    );
+  }
+}
+
+/**
+ * The error in a response body: a string for Ollama, an object with a message for OpenAI
+ */
+function errorMessage(body: unknown): string | undefined {
+  const error = (body as { error?: unknown } | null)?.error;
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return undefined;
+}
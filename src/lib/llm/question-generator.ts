@@ -0,0 +1,226 @@
+// src/lib/llm/question-generator.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Constants,
+  ErrorCode,
+  PrecedesRelationship,
+  QuestionGenerationRequest,
+  QuestionGenerationResponse,
+  QuestionNode,
+  RenderedPrompt,
+  StageNode,
+} from '../types';
+import { graphStore } from '../graph/graph-store';
+import { questionRepository } from '../graph/nodes/question';
+import { stageRepository } from '../graph/nodes/stage';
+import { cosineSimilarity, mostSimilar } from '../utils/text-similarity';
+import { llmRouter } from './llm-router';
+import { LLMProvider } from './provider';
+import { PromptRegistry, promptRegistry, promptStamp } from './prompts';
+import { generateStructured, questionGenerationOutput } from './structured-output';
+
+export interface QuestionGenerationContext {
+  userId: string;
+  answerIds?: string[]; // IDs of the answers in request.previousAnswers, in the same order
+}
+
+export interface GeneratedQuestion {
+  question: QuestionNode;
+  response: QuestionGenerationResponse;
+  attempts: number;
+}
+
+interface Influence {
+  answerId: string;
+  properties: PrecedesRelationship['properties'];
+}
+
+// Answers at least this relevant to the new question count as a direct influence
+const DIRECT_INFLUENCE_THRESHOLD = 0.2;
+
+/**
+ * Generates stage-targeted questions and records them in the graph
+ */
+export class QuestionGenerator {
+  private client: LLMProvider;
+  private registry: PromptRegistry;
+
+  constructor(client: LLMProvider = llmRouter, registry: PromptRegistry = promptRegistry) {
+    this.client = client;
+    this.registry = registry;
+  }
+
+  /**
+   * Generate the next question for a user.
+   * Questions that are near-duplicates of ones the user has already seen are
+   * rejected and regenerated, up to Constants.MAX_RETRIES attempts.
+   */
+  async generate(
+    request: QuestionGenerationRequest,
+    context: QuestionGenerationContext
+  ): Promise<GeneratedQuestion> {
+    const stageNode = await this.findStage(request.stage);
+    const seenQuestions = await this.getSeenQuestions(request, context.userId);
+    const rejected: string[] = [];
+
+    for (let attempt = 1; attempt <= Constants.MAX_RETRIES; attempt++) {
+      const rendered = this.registry.render('question-generation', {
+        stage: String(request.stage),
+        stageName: stageNode.name,
+        stageDescription: stageNode.description,
+        previousAnswers: this.formatPreviousAnswers(request),
+        userPrinciples: request.userPrinciples?.length
+          ? request.userPrinciples.map(principle => `- ${principle}`).join('\n')
+          : 'None identified yet',
+        contextNotes: this.formatContextNotes(request.contextNotes, rejected),
+      });
+
+      // Nudge the temperature up on each retry to escape repeated duplicates
+      const baseTemperature = request.temperature ?? rendered.temperature ?? 0.8;
+      const temperature = Math.min(baseTemperature + 0.1 * (attempt - 1), 1.2);
+
+      const response = await generateStructured(this.client, {
+        task: 'questionGeneration',
+        prompt: rendered.prompt,
+        options: { temperature },
+        userId: context.userId,
+      }, questionGenerationOutput, this.registry);
+
+      const duplicate = mostSimilar(response.question, [...seenQuestions, ...rejected]);
+      if (duplicate && duplicate.score >= Constants.QUESTION_SIMILARITY_THRESHOLD) {
+        console.warn(`Rejected redundant question (similarity ${duplicate.score.toFixed(2)}): ${response.question}`);
+        rejected.push(response.question);
+        continue;
+      }
+
+      const question = await this.persist(response, request, context, stageNode, rendered, temperature);
+      return { question, response, attempts: attempt };
+    }
+
+    throw {
+      code: ErrorCode.LLM_RESPONSE_ERROR,
+      message: `Failed to generate a non-redundant question after ${Constants.MAX_RETRIES} attempts`,
+      details: { rejected },
+    };
+  }
+
+  /**
+   * Store the question with its BELONGS_TO stage edge and PRECEDES edges from influencing answers
+   */
+  private async persist(
+    response: QuestionGenerationResponse,
+    request: QuestionGenerationRequest,
+    context: QuestionGenerationContext,
+    stageNode: StageNode,
+    rendered: RenderedPrompt,
+    temperature: number
+  ): Promise<QuestionNode> {
+    const answerIds = context.answerIds || [];
+
+    const question = await questionRepository.create({
+      id: uuidv4(),
+      text: response.question,
+      stage: request.stage,
+      type: 'generated',
+      context: answerIds,
+      generatedForUser: context.userId,
+      metadata: {
+        temperature,
+        ...promptStamp(rendered),
+      },
+    });
+    const now = question.createdAt;
+
+    const stageQuestions = await questionRepository.findGeneratedFor(context.userId, request.stage);
+    await graphStore.createRelationship(
+      { label: 'Question', id: question.id },
+      { label: 'Stage', id: stageNode.id },
+      'BELONGS_TO',
+      { order: stageQuestions.length, createdAt: now }
+    );
+
+    const influences = this.scoreInfluences(response, request, answerIds);
+    const linked = await graphStore.createRelationships('PRECEDES', 'Answer', 'Question', influences.map(influence => ({
+      start: influence.answerId,
+      end: question.id,
+      properties: { ...influence.properties, createdAt: now },
+    })));
+    if (linked < influences.length) {
+      console.warn(`${influences.length - linked} influencing answer(s) not found, skipped their PRECEDES edges`);
+    }
+
+    return question;
+  }
+
+  /**
+   * Weight each prior answer by recency and relevance to the new question
+   */
+  private scoreInfluences(
+    response: QuestionGenerationResponse,
+    request: QuestionGenerationRequest,
+    answerIds: string[]
+  ): Influence[] {
+    const generated = [response.question, response.reasoning, ...(response.targetedPrinciples || [])].join(' ');
+    const count = Math.min(answerIds.length, request.previousAnswers.length);
+
+    return answerIds.slice(0, count).map((answerId, index) => {
+      const previous = request.previousAnswers[index];
+      const relevance = cosineSimilarity(generated, `${previous.question} ${previous.answer}`);
+      const recency = (index + 1) / count;
+      const isMostRecent = index === count - 1;
+
+      return {
+        answerId,
+        properties: {
+          influenceType: isMostRecent || relevance >= DIRECT_INFLUENCE_THRESHOLD ? 'direct' : 'indirect',
+          weight: Math.round((0.5 * recency + 0.5 * relevance) * 100) / 100,
+        },
+      };
+    });
+  }
+
+  /**
+   * Questions the user has already seen: those in the request and those previously generated for them
+   */
+  private async getSeenQuestions(request: QuestionGenerationRequest, userId: string): Promise<string[]> {
+    const generated = await questionRepository.findGeneratedFor(userId);
+    return [
+      ...request.previousAnswers.map(previous => previous.question),
+      ...generated.map(question => question.text),
+    ];
+  }
+
+  private async findStage(stageNumber: number): Promise<StageNode> {
+    const stageNode = await stageRepository.findByNumber(stageNumber);
+    if (!stageNode) {
+      throw {
+        code: ErrorCode.INVALID_INPUT,
+        message: `Stage ${stageNumber} does not exist`,
+      };
+    }
+    return stageNode;
+  }
+
+  private formatPreviousAnswers(request: QuestionGenerationRequest): string {
+    if (request.previousAnswers.length === 0) {
+      return 'None yet';
+    }
+    return request.previousAnswers
+      .map(previous => `- Q: ${previous.question}\n  A: ${previous.answer}`)
+      .join('\n');
+  }
+
+  private formatContextNotes(contextNotes: string | undefined, rejected: string[]): string {
+    const notes = contextNotes ? [contextNotes] : [];
+    if (rejected.length > 0) {
+      notes.push(`These questions were too similar to earlier ones; ask something different:\n${
+        rejected.map(question => `- ${question}`).join('\n')
+      }`);
+    }
+    return notes.length > 0 ? notes.join('\n\n') : 'None';
+  }
+}
+
+// Export a singleton instance
+export const questionGenerator = new QuestionGenerator();
@@ -0,0 +1,24 @@
+// src/lib/llm/response-parser.ts
+
+import { createLLMError } from './provider';
+
+/**
+ * Parse a JSON object out of model output.
+ * Tolerates markdown code fences and prose around the object; checking its shape
+ * is left to generateStructured().
+ */
+export function parseJsonResponse(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw createLLMError('INVALID_RESPONSE', 'Model response did not contain a JSON object', { raw: text });
+  }
+
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch (error) {
+    throw createLLMError('INVALID_RESPONSE', 'Model response contained malformed JSON', { raw: text, error });
+  }
+}
@@ -0,0 +1,132 @@
+// src/lib/llm/structured-output.ts
+
+import {
+  Constants,
+  ContradictionAnalysisResponse,
+  OllamaChatMessage,
+  PrincipleExtractionResponse,
+  QuestionGenerationResponse,
+} from '../types';
+import { formatIssues, Schema, schema, ValidationIssue } from '../utils/validators';
+import { PromptRegistry, promptRegistry } from './prompts';
+import { GenerateRequest, LLMProvider, createLLMError, isLLMError } from './provider';
+import { parseJsonResponse } from './response-parser';
+
+/**
+ * A JSON response shape a model is asked to produce.
+ * Typing the schema with the response type keeps the two in step.
+ */
+export interface StructuredOutput<T> {
+  name: string; // Names the response in repair prompts and errors
+  schema: Schema<T>;
+}
+
+const confidence = schema.number({ min: 0, max: 1 });
+
+export const questionGenerationOutput: StructuredOutput<QuestionGenerationResponse> = {
+  name: 'question generation response',
+  schema: schema.object({
+    question: schema.string({ minLength: 1 }),
+    reasoning: schema.string(),
+    targetedPrinciples: schema.optional(schema.array(schema.string())),
+    potentialContradictions: schema.optional(schema.array(schema.string())),
+  }),
+};
+
+export const contradictionAnalysisOutput: StructuredOutput<ContradictionAnalysisResponse> = {
+  name: 'contradiction analysis',
+  schema: schema.object({
+    isContradiction: schema.boolean(),
+    confidence,
+    explanation: schema.string(),
+    logicalForm: schema.optional(schema.string()),
+    suggestedResolution: schema.optional(schema.string()),
+  }),
+};
+
+export const principleExtractionOutput: StructuredOutput<PrincipleExtractionResponse> = {
+  name: 'principle extraction',
+  schema: schema.object({
+    principles: schema.array(schema.object({
+      text: schema.string({ minLength: 1 }),
+      description: schema.string(),
+      derivedFrom: schema.array(schema.string()),
+      confidence,
+    })),
+    weakenedPrinciples: schema.optional(schema.array(schema.string())),
+    patterns: schema.array(schema.string()),
+    inconsistencies: schema.array(schema.string()),
+  }),
+};
+
+/**
+ * Generate a response matching a schema.
+ * The schema goes to the server as the request's `format`, so servers with structured
+ * output constrain the model to it. Responses are validated all the same, since not
+ * every server enforces it and a grammar cannot express everything (such as number
+ * ranges). An invalid response is sent back to the model with its issues, up to
+ * Constants.MAX_REPAIR_ATTEMPTS times; after that INVALID_RESPONSE is thrown with the
+ * last raw text in its details.
+ */
+export async function generateStructured<T>(
+  client: LLMProvider,
+  request: GenerateRequest,
+  output: StructuredOutput<T>,
+  registry: PromptRegistry = promptRegistry
+): Promise<T> {
+  const format = output.schema.jsonSchema ?? 'json';
+  let raw = (await client.generate({ ...request, format })).response;
+
+  for (let repairs = 0; ; repairs++) {
+    const { value, issues } = checkResponse(raw, output.schema);
+    if (issues.length === 0) {
+      return value as T;
+    }
+
+    if (repairs >= Constants.MAX_REPAIR_ATTEMPTS) {
+      throw createLLMError(
+        'INVALID_RESPONSE',
+        `Model response is not a valid ${output.name} after ${repairs} repair attempt(s): ${formatIssues(issues)}`,
+        { raw, issues }
+      );
+    }
+
+    console.warn(`Invalid ${output.name} (${formatIssues(issues)}), asking the model to repair it`);
+    const rendered = registry.render('output-repair', {
+      name: output.name,
+      issues: issues.map(issue => `- ${issue.path} ${issue.message}`).join('\n'),
+      schema: JSON.stringify(format, null, 2),
+    });
+
+    // The repair turn follows the original prompt and the invalid reply
+    const messages: OllamaChatMessage[] = [
+      ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+      { role: 'assistant', content: raw },
+      { role: 'user', content: rendered.prompt },
+    ];
+    const reply = await client.chat({
+      model: request.model,
+      messages,
+      format,
+      options: { ...request.options, temperature: rendered.temperature ?? request.options?.temperature },
+      task: request.task,
+      userId: request.userId,
+    });
+    raw = reply.message.content;
+  }
+}
+
+/**
+ * Parse and validate model output, reporting unparsable output as a single issue
+ */
+function checkResponse<T>(raw: string, outputSchema: Schema<T>): { value?: unknown; issues: ValidationIssue[] } {
+  let value: unknown;
+  try {
+    value = parseJsonResponse(raw);
+  } catch (error) {
+    if (!isLLMError(error)) throw error;
+    return { issues: [{ path: '$', message: error.message }] };
+  }
+  return { value, issues: outputSchema.validate(value) };
+}
@@ -4,6 +4,8 @@
  * Core types for the Neo4j graph structure
  */
 
+import type { SessionEvent } from './session';
+
 // Node Types
 export interface BaseNode {
     id: string;
@@ -19,6 +21,7 @@ export interface BaseNode {
     generatedForUser?: string;
     metadata?: {
       temperature?: number;
+      promptId?: string;
       promptVersion?: string;
     };
   }
@@ -29,6 +32,8 @@ export interface BaseNode {
     timestamp: string;
     modified: boolean;
     previousVersion?: string; // ID of the previous answer if modified
+    logicalForm?: string; // Propositional form of the answer's commitments
+    propositions?: string[]; // "name: meaning" for each proposition in logicalForm
   }
   
   export interface PrincipleNode extends BaseNode {
@@ -36,6 +41,12 @@ export interface BaseNode {
     description: string;
     derivedFrom: string[]; // Array of answer IDs
     confidence: number; // 0-1 scale
+    logicalForm?: string;
+    userId?: string;
+    frequency?: number; // Number of current answers supporting the principle
+    consistency?: number; // Share of relevant answers that uphold rather than weaken it (0-1)
+    extractionConfidence?: number; // Mean LLM confidence across the extractions that found it
+    weakenedBy?: string[]; // Answer IDs that go against the principle
   }
   
   export interface FrameworkNode extends BaseNode {
@@ -53,6 +64,29 @@ export interface BaseNode {
     exampleDilemmas: string[];
   }
   
+  export interface SessionNode extends BaseNode {
+    userId: string;
+    currentStage: number;
+    startedAt: string;
+    lastActiveAt: string;
+    analysis?: string; // JSON-serialized SessionAnalysis from the last generateAnalysis()
+  }
+  
+  export interface SessionEventNode extends BaseNode {
+    sessionId: string;
+    seq: number; // Position in the session's event log, starting at 1
+    type: SessionEvent['type'];
+    timestamp: string;
+    data: string; // JSON-serialized event data
+  }
+  
+  export interface SchemaMigrationNode {
+    version: number;
+    name: string;
+    checksum: string; // sha256 of the migration's statements when it was applied
+    appliedAt: string;
+  }
+  
   // Relationship Types
   export interface BaseRelationship {
     type: string;
@@ -63,13 +97,23 @@ export interface BaseNode {
   export interface ContradictionRelationship extends BaseRelationship {
     type: 'CONTRADICTS';
     properties: {
+      id: string;
       explanation: string;
       resolved: boolean;
-      resolution?: {
-        explanation: string;
-        timestamp: string;
-      };
+      // Resolution details are stored flat because Neo4j properties cannot be maps
+      resolutionType?: 'explanation' | 'revision' | 'superseded';
+      resolutionExplanation?: string;
+      resolutionTimestamp?: string;
+      overwrittenAnswerId?: string;
+      newAnswerId?: string;
       confidence: number; // 0-1 scale of how confident we are about the contradiction
+      logicalForm?: string;
+      suggestedResolution?: string;
+      kind?: 'pairwise' | 'implied'; // Implied contradictions span more than one pair of answers
+      groupId?: string; // Shared by every edge of one implied contradiction
+      answerIds?: string[]; // All answers in an implied contradiction
+      promptId?: string;
+      promptVersion?: string;
     };
   }
   
@@ -85,6 +129,8 @@ export interface BaseNode {
     properties: {
       strength: number; // 0-1 scale of alignment strength
       reasoning?: string;
+      promptId?: string;
+      promptVersion?: string;
     };
   }
   
@@ -103,6 +149,11 @@ export interface BaseNode {
     };
   }
   
+  export interface AnswersRelationship extends BaseRelationship {
+    type: 'ANSWERS';
+    properties: Record<string, never>;
+  }
+  
   export interface ModifiesRelationship extends BaseRelationship {
     type: 'MODIFIES';
     properties: {
@@ -112,19 +163,28 @@ export interface BaseNode {
   }
   
   // Graph operation types
-  export type NodeType = 'Question' | 'Answer' | 'Principle' | 'Framework' | 'Stage';
-  export type RelationshipType = 'CONTRADICTS' | 'BELONGS_TO' | 'ALIGNS_WITH' | 'FOLLOWS' | 'PRECEDES' | 'MODIFIES';
+  export const NODE_TYPES = ['Question', 'Answer', 'Principle', 'Framework', 'Stage', 'Session', 'SessionEvent', 'SchemaMigration'] as const;
+  export const RELATIONSHIP_TYPES = ['CONTRADICTS', 'BELONGS_TO', 'ALIGNS_WITH', 'FOLLOWS', 'PRECEDES', 'MODIFIES', 'ANSWERS'] as const;
+  export type NodeType = typeof NODE_TYPES[number];
+  export type RelationshipType = typeof RELATIONSHIP_TYPES[number];
+  
+  // Nodes are addressed by label and application id (BaseNode.id), never by Neo4j's internal id
+  export interface NodeRef {
+    label: NodeType;
+    id: string;
+  }
   
   export interface GraphNode {
-    identity: string;
+    id: string; // Application id
+    elementId: string; // Neo4j element id; may be reused after the node is deleted
     labels: NodeType[];
     properties: Record<string, unknown>;
   }
   
   export interface GraphRelationship {
-    identity: string;
-    start: string;
-    end: string;
+    elementId: string;
+    start: string; // Application id of the start node
+    end: string; // Application id of the end node
     type: RelationshipType;
     properties: Record<string, unknown>;
   }
@@ -174,4 +234,10 @@ export interface BaseNode {
     nodes: GraphNode[];
     relationships: GraphRelationship[];
     length: number;
+  }
+
+  // Nodes and relationships merged from several paths; unlike a Path it has no length
+  export interface Subgraph {
+    nodes: GraphNode[];
+    relationships: GraphRelationship[];
   }
\ No newline at end of file
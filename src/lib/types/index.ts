@@ -19,6 +19,8 @@ export enum ErrorCode {
   DB_CONNECTION_ERROR = 'DB_CONNECTION_ERROR',
   DB_QUERY_ERROR = 'DB_QUERY_ERROR',
   DB_TRANSACTION_ERROR = 'DB_TRANSACTION_ERROR',
+  DB_SCHEMA_OUTDATED = 'DB_SCHEMA_OUTDATED',
+  INVALID_RECORD = 'INVALID_RECORD', // A stored node failed validation
   
   // LLM errors
   LLM_CONNECTION_ERROR = 'LLM_CONNECTION_ERROR',
@@ -29,20 +31,34 @@ export enum ErrorCode {
   INVALID_STAGE_PROGRESSION = 'INVALID_STAGE_PROGRESSION',
   CONTRADICTION_NOT_FOUND = 'CONTRADICTION_NOT_FOUND',
   SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  QUESTION_NOT_FOUND = 'QUESTION_NOT_FOUND',
   
   // Validation errors
   INVALID_INPUT = 'INVALID_INPUT',
   MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+
+  // Anything thrown without an error code
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
 
 // Application-wide constants
 export const Constants = {
   MIN_ANSWERS_PER_STAGE: 3,
-  MAX_PRINCIPLE_EXTRACTION: 10,
+  MIN_STAGE_CONSISTENCY: 0.7, // Below this, a stage requires extra answers
+  LOW_CONSISTENCY_EXTRA_ANSWERS: 2,
+  MAX_PRINCIPLE_EXTRACTION: 10, // Principles kept per user
   CONTRADICTION_CONFIDENCE_THRESHOLD: 0.7,
+  MAX_CONTRADICTION_CANDIDATES: 5, // Answer pairs sent to the LLM per new answer
   FRAMEWORK_ALIGNMENT_THRESHOLD: 0.6,
+  QUESTION_SIMILARITY_THRESHOLD: 0.7, // Generated questions this similar to a seen one are regenerated
+  PRINCIPLE_SIMILARITY_THRESHOLD: 0.6, // Extracted principles this similar to an existing one are merged into it
   MAX_RETRIES: 3,
+  MAX_REPAIR_ATTEMPTS: 2, // Times an invalid structured LLM response is sent back to be corrected
   CACHE_TTL: 3600, // 1 hour in seconds
+  CACHE_MAX_TEMPERATURE: 0.3, // Responses above this temperature are not cached
+  MIN_COHORT_SIZE: 5, // Analytics never report a group of fewer users than this
+  MAX_COMMON_ITEMS: 10, // Entries per "common" list in session statistics
 } as const;
 
 // Utility types used across the application
@@ -65,37 +81,6 @@ export type ApiResponse<T> = {
   };
 };
 
-// Type guards
-export function isQuestionNode(node: unknown): node is import('./graph').QuestionNode {
-  if (!node || typeof node !== 'object') return false;
-  const n = node as Record<string, unknown>;
-  return Boolean(n && n.type && typeof n.type === 'string' && ['generated', 'seed'].includes(n.type));
-}
-
-export function isAnswerNode(node: unknown): node is import('./graph').AnswerNode {
-  if (!node || typeof node !== 'object') return false;
-  const n = node as Record<string, unknown>;
-  return Boolean(n && typeof n.userId === 'string' && typeof n.text === 'string');
-}
-
-export function isPrincipleNode(node: unknown): node is import('./graph').PrincipleNode {
-  if (!node || typeof node !== 'object') return false;
-  const n = node as Record<string, unknown>;
-  return Boolean(n && Array.isArray(n.derivedFrom) && typeof n.confidence === 'number');
-}
-
-export function isFrameworkNode(node: unknown): node is import('./graph').FrameworkNode {
-  if (!node || typeof node !== 'object') return false;
-  const n = node as Record<string, unknown>;
-  return Boolean(n && typeof n.name === 'string' && Array.isArray(n.keyThinkers));
-}
-
-export function isStageNode(node: unknown): node is import('./graph').StageNode {
-  if (!node || typeof node !== 'object') return false;
-  const n = node as Record<string, unknown>;
-  return Boolean(n && typeof n.stageNumber === 'number' && typeof n.name === 'string');
-}
-
 // Helper type for API endpoints
 export type ApiEndpoint<TRequest, TResponse> = {
   request: TRequest;
@@ -4,6 +4,8 @@
  * Types related to LLM integration with Ollama
  */
 
+import type { ErrorCode } from './index';
+
 export interface OllamaRequestOptions {
     temperature?: number;
     top_p?: number;
@@ -24,6 +26,7 @@ export interface OllamaRequestOptions {
     system?: string;
     template?: string;
     context?: number[]; // For conversation context
+    format?: 'json' | Record<string, unknown>; // JSON mode, or a JSON schema the output must follow
     stream?: boolean;
   }
   
@@ -41,6 +44,31 @@ export interface OllamaRequestOptions {
     eval_duration?: number;
   }
   
+  export interface OllamaChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+  }
+  
+  export interface OllamaChatRequest {
+    model: string;
+    messages: OllamaChatMessage[];
+    options?: OllamaRequestOptions;
+    format?: 'json' | Record<string, unknown>;
+    stream?: boolean;
+  }
+  
+  export interface OllamaChatResponse {
+    model: string;
+    created_at: string;
+    message: OllamaChatMessage;
+    done: boolean;
+    total_duration?: number;
+    load_duration?: number;
+    prompt_eval_count?: number;
+    eval_count?: number;
+    eval_duration?: number;
+  }
+  
   // Specific LLM task types
   export interface QuestionGenerationRequest {
     stage: number;
@@ -118,6 +146,7 @@ export interface OllamaRequestOptions {
       derivedFrom: string[]; // Answer indices
       confidence: number;
     }>;
+    weakenedPrinciples?: string[]; // Existing principles the answers go against, as "P<n>"
     patterns: string[];
     inconsistencies: string[];
   }
@@ -141,7 +170,29 @@ export interface OllamaRequestOptions {
     };
   }
   
+  export interface RenderedPrompt {
+    templateId: string;
+    version: string;
+    prompt: string;
+    temperature?: number; // The template's bestTemperature, if set
+  }
+  
   // LLM configuration
+  export type LLMProviderName = 'ollama' | 'openai';
+
+  // The analysis steps that call a model, each routable to its own models
+  export type LLMTask =
+    | 'questionGeneration'
+    | 'contradictionAnalysis'
+    | 'principleExtraction'
+    | 'frameworkAnalysis'
+    | 'formalization';
+
+  export interface ModelRoute {
+    provider: LLMProviderName;
+    model: string;
+  }
+
   export interface LLMConfig {
     baseUrl: string;
     defaultModel: string;
@@ -149,6 +200,10 @@ export interface OllamaRequestOptions {
     retryAttempts: number;
     retryDelay: number;
     timeout: number;
+    apiKey?: string; // Sent as a bearer token, for OpenAI-compatible servers that require one
+    // Models to try for each task, in order; 'default' covers tasks without their own routes
+    routes?: Partial<Record<LLMTask | 'default', ModelRoute[]>>;
+    fallbackModels?: ModelRoute[]; // Tried after a task's routes when none of its models exist
   }
   
   // Caching types for LLM responses
@@ -160,11 +215,13 @@ export interface OllamaRequestOptions {
       model: string;
       temperature: number;
       promptHash: string;
+      userId?: string; // User whose data is in the prompt, so it is deleted with their data
     };
   }
   
   // Error types
   export interface LLMError extends Error {
     code: 'CONNECTION_ERROR' | 'TIMEOUT' | 'INVALID_RESPONSE' | 'MODEL_NOT_FOUND' | 'RATE_LIMIT';
+    errorCode: ErrorCode; // Application-wide code for the same failure
     details?: unknown;
   }
\ No newline at end of file
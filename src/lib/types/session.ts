@@ -5,6 +5,7 @@
  */
 
 export interface UserSession {
+    sessionId: string;
     userId: string;
     currentStage: number;
     startedAt: string;
@@ -31,11 +32,12 @@ export interface UserSession {
     questionIds: [string, string];
     answerIds: [string, string];
     explanation: string;
+    relatedAnswerIds?: string[]; // Every answer in an implied (multi-answer) contradiction
     resolved: boolean;
     resolution?: {
       explanation: string;
-      overwrittenAnswerId: string;
-      newAnswerId: string;
+      overwrittenAnswerId?: string; // Only set when an answer was revised
+      newAnswerId?: string;
       timestamp: string;
     };
     detectedAt: string;
@@ -72,14 +74,16 @@ export interface UserSession {
   export interface GrowthArea {
     area: string;
     description: string;
-    examples: string[]; // References to specific answers
+    examples: string[]; // Texts of the answers in exampleAnswerIds
+    exampleAnswerIds: string[];
     suggestions: string[];
   }
   
   export interface Strength {
     area: string;
     description: string;
-    examples: string[]; // References to specific answers
+    examples: string[]; // Texts of the answers in exampleAnswerIds
+    exampleAnswerIds: string[];
     relatedPrinciples: string[];
   }
   
@@ -93,6 +97,27 @@ export interface UserSession {
     averageConsistency: number;
   }
   
+  export type StageBlockReason =
+    | 'STAGE_NOT_FOUND'
+    | 'FINAL_STAGE'
+    | 'NOT_NEXT_STAGE'
+    | 'INSUFFICIENT_ANSWERS'
+    | 'LOW_CONSISTENCY'
+    | 'UNRESOLVED_CONTRADICTIONS';
+  
+  export interface StageBlocker {
+    reason: StageBlockReason;
+    message: string;
+    details?: Record<string, unknown>;
+  }
+  
+  export interface StageProgressionCheck {
+    allowed: boolean;
+    fromStage: number;
+    toStage?: number;
+    blockers: StageBlocker[];
+  }
+  
   export interface RecommendedPhilosopher {
     name: string;
     alignmentScore: number;
@@ -113,7 +138,7 @@ export interface UserSession {
       contradictionId: string, 
       resolution: SessionContradiction['resolution']
     ) => Promise<UserSession>;
-    advanceStage: (sessionId: string) => Promise<UserSession>;
+    advanceStage: (sessionId: string, targetStage?: number) => Promise<UserSession>;
     generateAnalysis: (sessionId: string) => Promise<SessionAnalysis>;
   }
   
@@ -122,17 +147,65 @@ export interface UserSession {
     type: 'ANSWER_ADDED' | 'CONTRADICTION_DETECTED' | 'CONTRADICTION_RESOLVED' | 
           'STAGE_ADVANCED' | 'ANALYSIS_COMPLETED';
     sessionId: string;
+    seq: number; // Position in the session's replayable event log
     timestamp: string;
     data: unknown;
   }
   
+  // Exportable report of a session's analysis
+  export type ReportFormat = 'markdown' | 'html' | 'json';
+  
+  export interface QuotedAnswer {
+    answerId: string;
+    questionId: string;
+    question: string;
+    text: string;
+    stage: number;
+    timestamp: string;
+  }
+  
+  export interface ReportContradiction {
+    id: string;
+    explanation: string;
+    detectedAt: string;
+    answers: QuotedAnswer[];
+    resolved: boolean;
+    resolution?: {
+      type: 'explanation' | 'revision';
+      explanation: string;
+      timestamp: string;
+      revisedFrom?: QuotedAnswer;
+      revisedTo?: QuotedAnswer;
+    };
+  }
+  
+  export interface SessionReport {
+    reportVersion: number; // Bumped whenever the report's shape changes
+    generatedAt: string;
+    session: Pick<UserSession, 'sessionId' | 'userId' | 'currentStage' | 'startedAt' | 'lastActiveAt' | 'completedStages'>;
+    prompts: Array<{ id: string; version: string }>; // Prompt templates in effect, by id
+    analysis: Omit<SessionAnalysis, 'strengths' | 'growthAreas'> & {
+      strengths: Array<Strength & { quotes: QuotedAnswer[] }>;
+      growthAreas: Array<GrowthArea & { quotes: QuotedAnswer[] }>;
+    };
+    contradictions: ReportContradiction[]; // Oldest first, resolved or not
+  }
+  
   // Session statistics for dashboards or analytics
+  // Groups covering fewer users than the minimum cohort size are left out
   export interface SessionStatistics {
     totalSessions: number;
     averageQuestionsPerSession: number;
     averageContradictionsPerSession: number;
-    averageCompletionTime: number;
-    stageCompletionRates: Record<number, number>;
-    commonFrameworks: Array<{ framework: string; percentage: number }>;
-    commonPrinciples: Array<{ principle: string; frequency: number }>;
+    averageCompletionTime: number | null; // Seconds from start to last activity of sessions that reached the final stage
+    stageCompletionRates: Record<number, number>; // Share of sessions past each stage (0-1)
+    commonFrameworks: Array<{ framework: string; percentage: number }>; // Users whose answers align most with it (0-100)
+    commonPrinciples: Array<{ principle: string; frequency: number }>; // Users holding the principle
+    commonContradictions: Array<{
+      questionIds: [string, string];
+      questions: [string, string];
+      frequency: number; // Users whose answers to the pair contradicted
+      resolvedRate: number; // Share of those contradictions resolved (0-1)
+    }>;
+    filter: { from?: string; to?: string; minCohortSize: number };
   }
\ No newline at end of file
@@ -0,0 +1,140 @@
+// src/lib/utils/error-handlers.ts
+
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { ApiResponse, ErrorCode } from '../types';
+import { isLLMError } from '../llm/provider';
+import { assertValid, Schema } from './validators';
+
+/**
+ * The shape every layer throws: Neo4jClient, the LLM clients, repositories and core services
+ */
+export interface AppError {
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * HTTP status for each error code; anything not listed is a 500
+ */
+const ERROR_STATUS: Partial<Record<ErrorCode, number>> = {
+  [ErrorCode.INVALID_INPUT]: 400,
+  [ErrorCode.MISSING_REQUIRED_FIELD]: 400,
+  [ErrorCode.UNAUTHORIZED]: 401,
+  [ErrorCode.SESSION_NOT_FOUND]: 404,
+  [ErrorCode.CONTRADICTION_NOT_FOUND]: 404,
+  [ErrorCode.QUESTION_NOT_FOUND]: 404,
+  [ErrorCode.INVALID_STAGE_PROGRESSION]: 409,
+  [ErrorCode.LLM_RESPONSE_ERROR]: 502,
+  [ErrorCode.DB_CONNECTION_ERROR]: 503,
+  [ErrorCode.DB_SCHEMA_OUTDATED]: 503,
+  [ErrorCode.LLM_CONNECTION_ERROR]: 503,
+  [ErrorCode.LLM_TIMEOUT]: 504,
+};
+
+const ERROR_CODES = new Set<string>(Object.values(ErrorCode));
+
+export function isAppError(error: unknown): error is AppError {
+  const candidate = error as Partial<AppError> | null;
+  return typeof candidate === 'object' && candidate !== null
+    && ERROR_CODES.has(candidate.code as string)
+    && typeof candidate.message === 'string';
+}
+
+export function statusFor(code: ErrorCode): number {
+  return ERROR_STATUS[code] ?? 500;
+}
+
+/**
+ * Wrap data in a successful ApiResponse
+ */
+export function successResponse<T>(data: T, status = 200) {
+  return NextResponse.json<ApiResponse<T>>({ success: true, data }, { status });
+}
+
+/**
+ * Wrap an error in a failed ApiResponse.
+ * Details can carry internals such as Cypher queries, so they are dropped in production.
+ */
+export function errorResponse(error: AppError, status = statusFor(error.code)) {
+  const { code, message, details } = error;
+  const exposed = process.env.NODE_ENV === 'production' || details === undefined
+    ? { code, message }
+    : { code, message, details };
+  return NextResponse.json<ApiResponse<never>>({ success: false, error: exposed }, { status });
+}
+
+/**
+ * Normalize anything thrown into an AppError.
+ * LLMErrors carry their LLM-specific code in `code`, so they are mapped by `errorCode`;
+ * errors without a code become INTERNAL_ERROR so their messages never reach the client.
+ */
+export function toAppError(error: unknown, context: string): AppError {
+  if (isLLMError(error)) {
+    return { code: error.errorCode, message: error.message, details: error.details };
+  }
+  return isAppError(error)
+    ? error
+    : { code: ErrorCode.INTERNAL_ERROR, message: `${context} failed` };
+}
+
+/**
+ * Turn anything a route handler caught into an error response; server-side failures are logged
+ */
+export function handleApiError(error: unknown, context: string) {
+  const appError = toAppError(error, context);
+  const status = statusFor(appError.code);
+
+  if (status >= 500) {
+    console.error(`${context} failed:`, error);
+  }
+  return errorResponse(appError, status);
+}
+
+/**
+ * Read a JSON request body and validate it, throwing INVALID_INPUT on either failure
+ */
+export async function parseBody<T>(request: Request, bodySchema: Schema<T>, label = 'request body'): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: 'Request body must be valid JSON',
+    };
+  }
+  return assertValid(body, bodySchema, label);
+}
+
+/**
+ * Read a required query parameter, throwing MISSING_REQUIRED_FIELD if it is absent
+ */
+export function requireParam(request: Request, name: string): string {
+  const value = new URL(request.url).searchParams.get(name);
+  if (!value) {
+    throw {
+      code: ErrorCode.MISSING_REQUIRED_FIELD,
+      message: `${name} is required`,
+    };
+  }
+  return value;
+}
+
+/**
+ * Require the ADMIN_API_TOKEN bearer token, throwing UNAUTHORIZED if it is missing or wrong.
+ * Admin routes stay closed while ADMIN_API_TOKEN is unset.
+ */
+export function requireAdmin(request: Request): void {
+  const expected = Buffer.from(process.env.ADMIN_API_TOKEN ?? '');
+  const supplied = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+
+  const matches = expected.length > 0 && supplied.length === expected.length && timingSafeEqual(supplied, expected);
+  if (!matches) {
+    throw {
+      code: ErrorCode.UNAUTHORIZED,
+      message: expected.length > 0 ? 'A valid admin token is required' : 'Admin routes are disabled; set ADMIN_API_TOKEN',
+    };
+  }
+}
@@ -0,0 +1,330 @@
+// src/lib/utils/formatters.ts
+
+import { QuotedAnswer, ReportContradiction, ReportFormat, SessionReport } from '../types';
+
+/**
+ * A rendered report, ready to be served or written to a file
+ */
+export interface FormattedReport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['markdown', 'html', 'json'];
+
+/**
+ * Render a report in the requested format
+ */
+export function formatReport(report: SessionReport, format: ReportFormat): FormattedReport {
+  switch (format) {
+    case 'markdown':
+      return { body: reportToMarkdown(report), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'html':
+      return { body: reportToHtml(report), contentType: 'text/html; charset=utf-8', extension: 'html' };
+    case 'json':
+      return { body: reportToJson(report), contentType: 'application/json; charset=utf-8', extension: 'json' };
+  }
+}
+
+/**
+ * Pretty-printed JSON with a trailing newline, so reports diff cleanly line by line
+ */
+export function reportToJson(report: SessionReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+export function reportToMarkdown(report: SessionReport): string {
+  const { analysis, session } = report;
+  const principleText = principleLookup(report);
+  const lines: string[] = [
+    '# Moral Framework Report',
+    '',
+    `Generated ${formatDate(report.generatedAt)} · Stage ${session.currentStage} · `
+      + `Started ${formatDate(session.startedAt)}`,
+    '',
+    '## Summary',
+    '',
+    analysis.overallSummary,
+    '',
+    `**Consistency:** ${analysis.consistencyScore}%`,
+    '',
+  ];
+
+  if (analysis.frameworkAlignment.length > 0) {
+    lines.push('## Framework Alignment', '', '| Framework | Alignment | Key principles |', '| --- | --- | --- |');
+    analysis.frameworkAlignment.forEach(framework => lines.push(
+      `| ${cell(framework.frameworkName)} | ${framework.alignmentScore}% | ${cell(framework.keyPrinciples.join('; ') || '—')} |`
+    ));
+    lines.push('');
+    analysis.frameworkAlignment.forEach(framework => lines.push(`- **${framework.frameworkName}:** ${framework.reasoning}`));
+    lines.push('');
+  }
+
+  if (analysis.principleExtraction.length > 0) {
+    lines.push('## Principles', '');
+    analysis.principleExtraction.forEach(principle => lines.push(
+      `- **${principle.text}** — ${principle.description} `
+        + `(${principle.frequency} answer(s), ${percent(principle.consistency)} consistent)`
+    ));
+    lines.push('');
+  }
+
+  if (analysis.strengths.length > 0) {
+    lines.push('## Strengths', '');
+    analysis.strengths.forEach(strength => {
+      lines.push(`### ${strength.area}`, '', strength.description, '');
+      lines.push(...strength.quotes.flatMap(markdownQuote));
+      const related = strength.relatedPrinciples.map(principleText);
+      if (related.length > 0) {
+        lines.push(`Related principles: ${related.join('; ')}`, '');
+      }
+    });
+  }
+
+  if (analysis.growthAreas.length > 0) {
+    lines.push('## Growth Areas', '');
+    analysis.growthAreas.forEach(area => {
+      lines.push(`### ${area.area}`, '', area.description, '');
+      lines.push(...area.quotes.flatMap(markdownQuote));
+      lines.push(...area.suggestions.map(suggestion => `- ${suggestion}`), '');
+    });
+  }
+
+  lines.push(
+    '## Stage Progress',
+    '',
+    '| Stage | Status | Answered | Contradictions (resolved) | Consistency |',
+    '| --- | --- | --- | --- | --- |',
+    ...analysis.stageProgress.map(progress =>
+      `| ${progress.stage} | ${STATUS_LABELS[progress.status]} | ${progress.questionsAnswered}/${progress.requiredQuestions} `
+        + `| ${progress.contradictionsFound} (${progress.contradictionsResolved}) | ${percent(progress.averageConsistency)} |`),
+    ''
+  );
+
+  if (report.contradictions.length > 0) {
+    lines.push('## Contradictions', '');
+    report.contradictions.forEach((contradiction, index) => {
+      lines.push(
+        `### ${index + 1}. ${contradiction.resolved ? 'Resolved' : 'Open'} — detected ${formatDate(contradiction.detectedAt)}`,
+        '',
+        contradiction.explanation,
+        ''
+      );
+      lines.push(...contradiction.answers.flatMap(markdownQuote));
+      lines.push(...markdownResolution(contradiction));
+    });
+  }
+
+  if (analysis.recommendedPhilosophers.length > 0) {
+    lines.push('## Recommended Philosophers', '');
+    analysis.recommendedPhilosophers.forEach(philosopher => {
+      lines.push(`- **${philosopher.name}** (${philosopher.alignmentScore}%) — ${philosopher.reasonForRecommendation}`);
+      philosopher.recommendedReading.forEach(reading => lines.push(`  - ${reading}`));
+    });
+    lines.push('');
+  }
+
+  lines.push(
+    '---',
+    '',
+    `Report version ${report.reportVersion} · Prompts: `
+      + report.prompts.map(prompt => `${prompt.id}@${prompt.version}`).join(', '),
+    ''
+  );
+  return lines.join('\n');
+}
+
+/**
+ * A standalone page with inline styles, laid out to print cleanly
+ */
+export function reportToHtml(report: SessionReport): string {
+  const { analysis, session } = report;
+  const principleText = principleLookup(report);
+  const sections: string[] = [
+    `<h1>Moral Framework Report</h1>`,
+    `<p class="meta">Generated ${formatDate(report.generatedAt)} · Stage ${session.currentStage} · `
+      + `Started ${formatDate(session.startedAt)}</p>`,
+    `<h2>Summary</h2>`,
+    `<p>${escapeHtml(analysis.overallSummary)}</p>`,
+    `<p><strong>Consistency:</strong> ${analysis.consistencyScore}%</p>`,
+  ];
+
+  if (analysis.frameworkAlignment.length > 0) {
+    sections.push(
+      `<h2>Framework Alignment</h2>`,
+      table(['Framework', 'Alignment', 'Key principles', 'Reasoning'], analysis.frameworkAlignment.map(framework => [
+        framework.frameworkName,
+        `${framework.alignmentScore}%`,
+        framework.keyPrinciples.join('; ') || '—',
+        framework.reasoning,
+      ]))
+    );
+  }
+
+  if (analysis.principleExtraction.length > 0) {
+    sections.push(`<h2>Principles</h2>`, `<ul>${analysis.principleExtraction.map(principle =>
+      `<li><strong>${escapeHtml(principle.text)}</strong> — ${escapeHtml(principle.description)} `
+        + `(${principle.frequency} answer(s), ${percent(principle.consistency)} consistent)</li>`
+    ).join('')}</ul>`);
+  }
+
+  if (analysis.strengths.length > 0) {
+    sections.push(`<h2>Strengths</h2>`, ...analysis.strengths.map(strength => {
+      const related = strength.relatedPrinciples.map(principleText);
+      return `<section><h3>${escapeHtml(strength.area)}</h3><p>${escapeHtml(strength.description)}</p>`
+        + strength.quotes.map(htmlQuote).join('')
+        + (related.length > 0 ? `<p class="meta">Related principles: ${escapeHtml(related.join('; '))}</p>` : '')
+        + `</section>`;
+    }));
+  }
+
+  if (analysis.growthAreas.length > 0) {
+    sections.push(`<h2>Growth Areas</h2>`, ...analysis.growthAreas.map(area =>
+      `<section><h3>${escapeHtml(area.area)}</h3><p>${escapeHtml(area.description)}</p>`
+        + area.quotes.map(htmlQuote).join('')
+        + `<ul>${area.suggestions.map(suggestion => `<li>${escapeHtml(suggestion)}</li>`).join('')}</ul></section>`
+    ));
+  }
+
+  sections.push(
+    `<h2>Stage Progress</h2>`,
+    table(['Stage', 'Status', 'Answered', 'Contradictions (resolved)', 'Consistency'], analysis.stageProgress.map(progress => [
+      String(progress.stage),
+      STATUS_LABELS[progress.status],
+      `${progress.questionsAnswered}/${progress.requiredQuestions}`,
+      `${progress.contradictionsFound} (${progress.contradictionsResolved})`,
+      percent(progress.averageConsistency),
+    ]))
+  );
+
+  if (report.contradictions.length > 0) {
+    sections.push(`<h2>Contradictions</h2>`, ...report.contradictions.map((contradiction, index) =>
+      `<section><h3>${index + 1}. ${contradiction.resolved ? 'Resolved' : 'Open'} — detected `
+        + `${formatDate(contradiction.detectedAt)}</h3><p>${escapeHtml(contradiction.explanation)}</p>`
+        + contradiction.answers.map(htmlQuote).join('')
+        + htmlResolution(contradiction)
+        + `</section>`
+    ));
+  }
+
+  if (analysis.recommendedPhilosophers.length > 0) {
+    sections.push(`<h2>Recommended Philosophers</h2>`, `<ul>${analysis.recommendedPhilosophers.map(philosopher =>
+      `<li><strong>${escapeHtml(philosopher.name)}</strong> (${philosopher.alignmentScore}%) — `
+        + escapeHtml(philosopher.reasonForRecommendation)
+        + (philosopher.recommendedReading.length > 0
+          ? `<ul>${philosopher.recommendedReading.map(reading => `<li>${escapeHtml(reading)}</li>`).join('')}</ul>`
+          : '')
+        + `</li>`
+    ).join('')}</ul>`);
+  }
+
+  sections.push(`<footer class="meta">Report version ${report.reportVersion} · Prompts: ${escapeHtml(
+    report.prompts.map(prompt => `${prompt.id}@${prompt.version}`).join(', ')
+  )}</footer>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Moral Framework Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STATUS_LABELS = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed',
+} as const;
+
+const REPORT_STYLES = `
+body { font-family: Georgia, serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.5; }
+h1, h2, h3 { font-family: system-ui, sans-serif; }
+h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.2rem; margin-top: 2rem; }
+blockquote { margin: 0.8rem 0; padding: 0.4rem 1rem; border-left: 3px solid #999; background: #f6f6f6; }
+blockquote .question { font-style: italic; color: #555; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+.meta { color: #666; font-size: 0.9rem; }
+section, blockquote, tr { break-inside: avoid; }
+@media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`.trim();
+
+function principleLookup(report: SessionReport): (id: string) => string {
+  const texts = new Map(report.analysis.principleExtraction.map(principle => [principle.id, principle.text]));
+  return id => texts.get(id) ?? id;
+}
+
+function formatDate(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Table cells cannot contain pipes or line breaks
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function markdownQuote(quote: QuotedAnswer): string[] {
+  const quoted = (text: string) => text.split('\n').map(line => `> ${line}`.trimEnd());
+  return [
+    ...(quote.question ? quoted(`*${quote.question}*`) : []),
+    ...(quote.question ? ['>'] : []),
+    ...quoted(quote.text),
+    '',
+  ];
+}
+
+function markdownResolution(contradiction: ReportContradiction): string[] {
+  const { resolution } = contradiction;
+  if (!resolution) {
+    return [];
+  }
+  const lines = [`**Resolved ${formatDate(resolution.timestamp)} by ${resolution.type}:** ${resolution.explanation}`, ''];
+  if (resolution.revisedTo) {
+    lines.push('Revised answer:', '', ...markdownQuote(resolution.revisedTo));
+  }
+  return lines;
+}
+
+function htmlQuote(quote: QuotedAnswer): string {
+  const paragraphs = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+  return `<blockquote>${quote.question ? `<p class="question">${paragraphs(quote.question)}</p>` : ''}`
+    + `<p>${paragraphs(quote.text)}</p></blockquote>`;
+}
+
+function htmlResolution(contradiction: ReportContradiction): string {
+  const { resolution } = contradiction;
+  if (!resolution) {
+    return '';
+  }
+  return `<p><strong>Resolved ${formatDate(resolution.timestamp)} by ${resolution.type}:</strong> `
+    + `${escapeHtml(resolution.explanation)}</p>`
+    + (resolution.revisedTo ? `<p>Revised answer:</p>${htmlQuote(resolution.revisedTo)}` : '');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return `<table><thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>`
+    + `<tbody>${rows.map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`).join('')}`
+    + `</tbody></table>`;
+}
@@ -0,0 +1,310 @@
+// src/lib/utils/propositional-logic.ts
+
+/**
+ * Propositional logic: parsing, evaluation and satisfiability checking
+ */
+
+import { ErrorCode } from '../types';
+
+export type Formula =
+  | { kind: 'atom'; name: string }
+  | { kind: 'not'; operand: Formula }
+  | { kind: 'and' | 'or' | 'implies' | 'iff'; left: Formula; right: Formula };
+
+export interface LogicalForm {
+  premises: Formula[];
+  conclusion?: Formula;
+}
+
+type Token =
+  | { type: 'atom'; value: string }
+  | { type: 'not' | 'and' | 'or' | 'implies' | 'iff' | 'lparen' | 'rparen' };
+
+const SYMBOLS: Array<[string, Token['type']]> = [
+  ['<->', 'iff'], ['↔', 'iff'],
+  ['->', 'implies'], ['→', 'implies'], ['=>', 'implies'],
+  ['&&', 'and'], ['&', 'and'], ['∧', 'and'],
+  ['||', 'or'], ['|', 'or'], ['∨', 'or'],
+  ['!', 'not'], ['~', 'not'], ['¬', 'not'],
+  ['(', 'lparen'], [')', 'rparen'],
+];
+
+const WORD_OPERATORS: Record<string, Token['type']> = {
+  not: 'not',
+  and: 'and',
+  or: 'or',
+  implies: 'implies',
+  iff: 'iff',
+};
+
+function logicError(message: string, input: string): never {
+  throw {
+    code: ErrorCode.INVALID_INPUT,
+    message: `Invalid logical form: ${message}`,
+    details: { input },
+  };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(([text]) => input.startsWith(text, index));
+    if (symbol) {
+      tokens.push({ type: symbol[1] } as Token);
+      index += symbol[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(index));
+    if (!word) {
+      logicError(`unexpected character "${input[index]}"`, input);
+    }
+
+    const operator = WORD_OPERATORS[word[0].toLowerCase()];
+    tokens.push(operator ? ({ type: operator } as Token) : { type: 'atom', value: word[0] });
+    index += word[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a single formula.
+ * Precedence from tightest: not, and, or, implies (right-associative), iff.
+ */
+export function parseFormula(input: string): Formula {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const accept = (type: Token['type']) => {
+    if (peek()?.type === type) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+
+  const parseIff = (): Formula => {
+    let left = parseImplies();
+    while (accept('iff')) {
+      left = { kind: 'iff', left, right: parseImplies() };
+    }
+    return left;
+  };
+
+  const parseImplies = (): Formula => {
+    const left = parseOr();
+    return accept('implies') ? { kind: 'implies', left, right: parseImplies() } : left;
+  };
+
+  const parseOr = (): Formula => {
+    let left = parseAnd();
+    while (accept('or')) {
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Formula => {
+    let left = parseUnary();
+    while (accept('and')) {
+      left = { kind: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Formula => {
+    if (accept('not')) {
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (accept('lparen')) {
+      const inner = parseIff();
+      if (!accept('rparen')) logicError('missing closing parenthesis', input);
+      return inner;
+    }
+
+    const token = peek();
+    if (token?.type !== 'atom') {
+      logicError(token ? `unexpected "${token.type}"` : 'unexpected end of input', input);
+    }
+    position++;
+    return { kind: 'atom', name: token.value };
+  };
+
+  if (tokens.length === 0) logicError('empty formula', input);
+  const formula = parseIff();
+  if (position < tokens.length) logicError(`unexpected "${tokens[position].type}"`, input);
+  return formula;
+}
+
+/**
+ * Parse a logicalForm string such as "A->B, B->C, therefore A->C"
+ */
+export function parseLogicalForm(input: string): LogicalForm {
+  const [premisePart, conclusionPart] = input.split(/\btherefore\b|∴/i);
+
+  const premises: Formula[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of premisePart) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if ((char === ',' || char === ';') && depth === 0) {
+      if (current.trim()) premises.push(parseFormula(current));
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) premises.push(parseFormula(current));
+
+  return {
+    premises,
+    conclusion: conclusionPart?.trim() ? parseFormula(conclusionPart.replace(/^[\s,]+/, '')) : undefined,
+  };
+}
+
+/**
+ * Combine a logical form into a single formula (premises and conclusion conjoined)
+ */
+export function toFormula(form: LogicalForm): Formula | null {
+  const parts = form.conclusion ? [...form.premises, form.conclusion] : form.premises;
+  if (parts.length === 0) return null;
+  return parts.reduce((left, right) => ({ kind: 'and', left, right }));
+}
+
+/**
+ * Collect the atom names used in a formula
+ */
+export function atomsOf(formula: Formula, into: Set<string> = new Set()): Set<string> {
+  if (formula.kind === 'atom') {
+    into.add(formula.name);
+  } else if (formula.kind === 'not') {
+    atomsOf(formula.operand, into);
+  } else {
+    atomsOf(formula.left, into);
+    atomsOf(formula.right, into);
+  }
+  return into;
+}
+
+/**
+ * Evaluate a formula under a partial assignment.
+ * Returns undefined when the value depends on unassigned atoms.
+ */
+export function evaluate(formula: Formula, assignment: Map<string, boolean>): boolean | undefined {
+  switch (formula.kind) {
+    case 'atom':
+      return assignment.get(formula.name);
+    case 'not': {
+      const value = evaluate(formula.operand, assignment);
+      return value === undefined ? undefined : !value;
+    }
+    case 'and': {
+      const left = evaluate(formula.left, assignment);
+      const right = evaluate(formula.right, assignment);
+      if (left === false || right === false) return false;
+      return left === undefined || right === undefined ? undefined : true;
+    }
+    case 'or': {
+      const left = evaluate(formula.left, assignment);
+      const right = evaluate(formula.right, assignment);
+      if (left === true || right === true) return true;
+      return left === undefined || right === undefined ? undefined : false;
+    }
+    case 'implies': {
+      const left = evaluate(formula.left, assignment);
+      const right = evaluate(formula.right, assignment);
+      if (left === false || right === true) return true;
+      return left === undefined || right === undefined ? undefined : false;
+    }
+    case 'iff': {
+      const left = evaluate(formula.left, assignment);
+      const right = evaluate(formula.right, assignment);
+      return left === undefined || right === undefined ? undefined : left === right;
+    }
+  }
+}
+
+/**
+ * Find an assignment making every formula true, or null if none exists.
+ * Backtracking truth-table search that prunes as soon as any formula is false.
+ */
+export function findModel(formulas: Formula[]): Map<string, boolean> | null {
+  const atoms = Array.from(formulas.reduce((set, formula) => atomsOf(formula, set), new Set<string>()));
+  const assignment = new Map<string, boolean>();
+
+  const search = (index: number): boolean => {
+    if (formulas.some(formula => evaluate(formula, assignment) === false)) {
+      return false;
+    }
+    if (index === atoms.length) {
+      return true;
+    }
+
+    for (const value of [true, false]) {
+      assignment.set(atoms[index], value);
+      if (search(index + 1)) return true;
+    }
+    assignment.delete(atoms[index]);
+    return false;
+  };
+
+  return search(0) ? assignment : null;
+}
+
+export function isSatisfiable(formulas: Formula[]): boolean {
+  return findModel(formulas) !== null;
+}
+
+/**
+ * Find minimal unsatisfiable subsets: sets of items that cannot all hold,
+ * where removing any one item makes the rest consistent.
+ */
+export function findMinimalConflicts<T extends { formula: Formula }>(items: T[], limit = 5): T[][] {
+  const conflicts: T[][] = [];
+  let remaining = items;
+
+  while (conflicts.length < limit && !isSatisfiable(remaining.map(item => item.formula))) {
+    // Deletion-based shrinking: drop each item whose removal keeps the set unsatisfiable
+    let core = remaining;
+    for (const item of remaining) {
+      const without = core.filter(other => other !== item);
+      if (!isSatisfiable(without.map(other => other.formula))) {
+        core = without;
+      }
+    }
+
+    conflicts.push(core);
+    // Break this conflict so the next pass can surface a different one
+    const lastItem = core[core.length - 1];
+    remaining = remaining.filter(item => item !== lastItem);
+  }
+
+  return conflicts;
+}
+
+/**
+ * Render a formula back to text
+ */
+export function formatFormula(formula: Formula): string {
+  switch (formula.kind) {
+    case 'atom':
+      return formula.name;
+    case 'not':
+      return formula.operand.kind === 'atom' ? `!${formatFormula(formula.operand)}` : `!(${formatFormula(formula.operand)})`;
+    default: {
+      const operator = { and: '&', or: '|', implies: '->', iff: '<->' }[formula.kind];
+      const wrap = (part: Formula) => part.kind === 'atom' || part.kind === 'not' ? formatFormula(part) : `(${formatFormula(part)})`;
+      return `${wrap(formula.left)} ${operator} ${wrap(formula.right)}`;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+// src/lib/utils/text-similarity.ts
+
+/**
+ * Lightweight lexical similarity used where calling the LLM would be too slow
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'being', 'but', 'by', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'me', 'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them',
+  'then', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+  'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const SUFFIXES = ['ments', 'ment', 'ings', 'ing', 'edly', 'ed', 'ies', 'es', 's', 'ly'];
+
+/**
+ * Strip common English suffixes so inflections of a word compare equal
+ */
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return suffix === 'ies' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into lowercase, stemmed content words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .split(/\s+/)
+    .map(word => stem(word.replace(/'s$|'/g, '')))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Cosine similarity of term-frequency vectors (0-1)
+ */
+export function cosineSimilarity(a: string, b: string): number {
+  const countTerms = (text: string) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const termsA = countTerms(a);
+  const termsB = countTerms(b);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+
+  let dot = 0;
+  termsA.forEach((count, term) => {
+    dot += count * (termsB.get(term) || 0);
+  });
+
+  const norm = (terms: Map<string, number>) =>
+    Math.sqrt(Array.from(terms.values()).reduce((sum, count) => sum + count * count, 0));
+
+  return dot / (norm(termsA) * norm(termsB));
+}
+
+/**
+ * Find the most similar candidate to a text
+ */
+export function mostSimilar(text: string, candidates: string[]): { text: string; score: number } | null {
+  let best: { text: string; score: number } | null = null;
+  for (const candidate of candidates) {
+    const score = cosineSimilarity(text, candidate);
+    if (!best || score > best.score) {
+      best = { text: candidate, score };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,201 @@
+// src/lib/utils/validators.ts
+
+import { ErrorCode } from '../types';
+
+/**
+ * A single problem found while validating a value
+ */
+export interface ValidationIssue {
+  path: string; // e.g. "$[2].keyThinkers[0]"
+  message: string;
+}
+
+/**
+ * A JSON Schema document, as passed to models that support structured output
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A runtime check for values of type T
+ */
+export interface Schema<T> {
+  validate(value: unknown, path?: string): ValidationIssue[];
+  readonly jsonSchema?: JsonSchema; // Set by the builders below; hand-written schemas may omit it
+  readonly optional?: boolean;
+  readonly _type?: T; // Carries T for Infer; never set
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectType<S extends Shape> = {
+  [K in keyof S as S[K] extends { optional: true } ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends { optional: true } ? K : never]?: Infer<S[K]>;
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Schema builders.
+ * Objects reject unknown keys, so typos in data files are caught rather than ignored.
+ */
+export const schema = {
+  string(options: { minLength?: number; pattern?: RegExp } = {}): Schema<string> {
+    return {
+      jsonSchema: { type: 'string', minLength: options.minLength, pattern: options.pattern?.source },
+      validate(value, path = '$') {
+        if (typeof value !== 'string') {
+          return [{ path, message: `expected string, got ${describe(value)}` }];
+        }
+        if (options.minLength !== undefined && value.trim().length < options.minLength) {
+          return [{ path, message: `must be at least ${options.minLength} character(s)` }];
+        }
+        if (options.pattern && !options.pattern.test(value)) {
+          return [{ path, message: `must match ${options.pattern}` }];
+        }
+        return [];
+      },
+    };
+  },
+
+  number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+    return {
+      jsonSchema: { type: options.integer ? 'integer' : 'number', minimum: options.min, maximum: options.max },
+      validate(value, path = '$') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return [{ path, message: `expected number, got ${describe(value)}` }];
+        }
+        if (options.integer && !Number.isInteger(value)) {
+          return [{ path, message: 'must be an integer' }];
+        }
+        if (options.min !== undefined && value < options.min) {
+          return [{ path, message: `must be at least ${options.min}` }];
+        }
+        if (options.max !== undefined && value > options.max) {
+          return [{ path, message: `must be at most ${options.max}` }];
+        }
+        return [];
+      },
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      jsonSchema: { type: 'boolean' },
+      validate(value, path = '$') {
+        return typeof value === 'boolean' ? [] : [{ path, message: `expected boolean, got ${describe(value)}` }];
+      },
+    };
+  },
+
+  oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+      jsonSchema: { type: 'string', enum: values },
+      validate(value, path = '$') {
+        return values.includes(value as T)
+          ? []
+          : [{ path, message: `must be one of ${values.map(option => `"${option}"`).join(', ')}` }];
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+    return {
+      jsonSchema: { type: 'array', items: item.jsonSchema ?? {}, minItems: options.minLength },
+      validate(value, path = '$') {
+        if (!Array.isArray(value)) {
+          return [{ path, message: `expected array, got ${describe(value)}` }];
+        }
+        if (options.minLength !== undefined && value.length < options.minLength) {
+          return [{ path, message: `must have at least ${options.minLength} item(s)` }];
+        }
+        return value.flatMap((element, index) => item.validate(element, `${path}[${index}]`));
+      },
+    };
+  },
+
+  object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+    return {
+      jsonSchema: {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.jsonSchema ?? {}])),
+        required: Object.keys(shape).filter(key => !shape[key].optional),
+        additionalProperties: false,
+      },
+      validate(value, path = '$') {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          return [{ path, message: `expected object, got ${describe(value)}` }];
+        }
+
+        const record = value as Record<string, unknown>;
+        const issues = Object.entries(shape).flatMap(([key, field]) => {
+          if (record[key] === undefined) {
+            return field.optional ? [] : [{ path: `${path}.${key}`, message: 'is required' }];
+          }
+          return field.validate(record[key], `${path}.${key}`);
+        });
+
+        Object.keys(record)
+          .filter(key => !(key in shape))
+          .forEach(key => issues.push({ path: `${path}.${key}`, message: 'is not a known field' }));
+
+        return issues;
+      },
+    };
+  },
+
+  /**
+   * Objects with arbitrary keys whose values all match one schema
+   */
+  record<T>(value: Schema<T>): Schema<Record<string, T>> {
+    return {
+      jsonSchema: { type: 'object', additionalProperties: value.jsonSchema ?? {} },
+      validate(input, path = '$') {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) {
+          return [{ path, message: `expected object, got ${describe(input)}` }];
+        }
+        return Object.entries(input as Record<string, unknown>)
+          .flatMap(([key, item]) => value.validate(item, `${path}.${key}`));
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T> & { optional: true } {
+    return {
+      jsonSchema: inner.jsonSchema,
+      optional: true,
+      validate(value, path = '$') {
+        return value === undefined ? [] : inner.validate(value, path);
+      },
+    };
+  },
+};
+
+/**
+ * Summarize issues for an error message, listing the first few
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.slice(0, 5).map(issue => `${issue.path} ${issue.message}`).join('; ')
+    + (issues.length > 5 ? ` (and ${issues.length - 5} more)` : '');
+}
+
+/**
+ * Validate a value, throwing INVALID_INPUT with every issue found
+ */
+export function assertValid<T>(value: unknown, valueSchema: Schema<T>, label: string): T {
+  const issues = valueSchema.validate(value);
+  if (issues.length > 0) {
+    throw {
+      code: ErrorCode.INVALID_INPUT,
+      message: `Invalid ${label}: ${formatIssues(issues)}`,
+      details: { issues },
+    };
+  }
+  return value as T;
+}